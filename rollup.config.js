@@ -24,7 +24,9 @@ const getBasePlugins = platform => [
 
 // Platform-specific external dependencies
 const getExternals = platform => {
-  const commonExternals = ['events', 'crypto', 'util', 'path', 'fs', 'os'];
+  const commonExternals = ['events', 'crypto', 'util', 'path', 'fs', 'os', 'zlib'];
+  // Optional peer dependencies loaded on demand are never bundled
+  const optionalExternals = ['sql.js'];
 
   const platformExternals = {
     web: ['react', 'react-dom', 'react-router-dom'],
@@ -39,7 +41,9 @@ const getExternals = platform => {
     api: ['express', 'cors', 'helmet', 'compression', 'jsonwebtoken'],
   };
 
-  return platform === 'core' ? [] : [...commonExternals, ...(platformExternals[platform] || [])];
+  return platform === 'core'
+    ? optionalExternals
+    : [...commonExternals, ...optionalExternals, ...(platformExternals[platform] || [])];
 };
 
 // Core Foundation build configuration
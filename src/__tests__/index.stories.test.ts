@@ -151,6 +151,14 @@ describe('Foundation Package Index User Stories', () => {
     expect(result.integrations.nsm).toBe(true);
     expect(result.initialized).toBe(true);
     expect(result.timestamp).toBeInstanceOf(Date);
+
+    // And: Tenant settings from the loaded configuration apply to the municipality
+    const bergen = await initializeFoundation({
+      municipality: '4601',
+      tenants: { '4601': { language: 'nn', altinnServiceOwner: 'bergen_kommune_digital' } },
+    });
+    expect(bergen.language).toBe('nn');
+    expect(bergen.integrations.altinn.serviceOwner).toBe('bergen_kommune_digital');
   });
 
   // User Story 6: Security officer validates compliance constants
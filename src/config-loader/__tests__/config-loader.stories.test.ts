@@ -3,7 +3,40 @@
  * Tests real-world scenarios for Norwegian government-compliant configuration management
  */
 
-import { loadConfig, getNorwegianComplianceConfig, getSecurityConfig } from '../index';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { inspect } from 'util';
+
+import { BaseEvent, createEventBus } from '../../event-core';
+import { createErrorHandler } from '../../error-handler';
+import {
+  ConfigChange,
+  ConfigFileError,
+  ConfigValidationError,
+  createConfigManager,
+  createStaticSecretProvider,
+  createTenantConfigRegistry,
+  deepMerge,
+  encryptConfigValue,
+  generateConfigKey,
+  getConfigSource,
+  getDatabaseConfig,
+  getMunicipality,
+  getNorwegianComplianceConfig,
+  getSecurityConfig,
+  listMunicipalities,
+  loadConfig,
+  NORWEGIAN_COUNTIES,
+  parseYaml,
+  redactConfig,
+  registerModuleConfigSchema,
+  registerSecretProvider,
+  rotateEncryptedValues,
+  unregisterModuleConfigSchema,
+  unregisterSecretProvider,
+  validateConfigSchema,
+} from '../index';
 
 describe('Config Loader User Stories', () => {
   let originalEnv: NodeJS.ProcessEnv;
@@ -156,4 +189,567 @@ describe('Config Loader User Stories', () => {
     expect(complianceConfig.gdpr.dataProcessingBasis).toBe('public_task');
     expect(complianceConfig.digdir.interoperabilityStandards).toBe(true);
   });
+
+  // User Story 6: Operations team layers configuration files, environment and code
+  it('Layered Configuration Story: should merge files, environment variables and overrides for Bergen Kommune', () => {
+    // Given: A base JSON file, a production YAML file and environment variables
+    const directory = mkdtempSync(join(tmpdir(), 'foundation-config-'));
+    writeFileSync(
+      join(directory, 'foundation.config.json'),
+      JSON.stringify({
+        municipality: '4601',
+        security: { authentication: { sessionTimeout: 1800 } },
+        i18n: { supportedLanguages: ['nb', 'nn', 'en'] },
+      })
+    );
+    writeFileSync(
+      join(directory, 'foundation.production.config.yaml'),
+      [
+        '# Production settings for Bergen',
+        'language: nn',
+        'database:',
+        '  host: db.bergen.kommune.no',
+        'i18n:',
+        '  supportedLanguages: [nb, nn]',
+      ].join('\n')
+    );
+    process.env.FOUNDATION__SECURITY__ENCRYPTION__ALGORITHM = 'ChaCha20-Poly1305';
+    process.env.FOUNDATION__SECURITY__ENCRYPTION__KEY_ROTATION_ENABLED = 'false';
+    process.env.FOUNDATION__DATABASE__PORT = '6432';
+    process.env.FOUNDATION__DATABASE__PASSWORD = '12345678901234567890';
+
+    try {
+      // When: Configuration is loaded with programmatic overrides
+      const config = loadConfig({
+        environment: 'production',
+        configPath: directory,
+        overrides: { logging: { level: 'debug' } },
+      });
+
+      // Then: Later layers win and nested objects are merged
+      expect(config.municipality).toBe('4601');
+      expect(config.language).toBe('nn');
+      expect(config.security!.authentication.sessionTimeout).toBe(1800);
+      expect(config.security!.authentication.mfaRequired).toBe(true);
+      expect(config.security!.encryption).toEqual({
+        enabled: true,
+        algorithm: 'ChaCha20-Poly1305',
+        keyRotationEnabled: false,
+      });
+      expect(config.securityConfig).toBe(config.security);
+      expect(config.database).toMatchObject({ host: 'db.bergen.kommune.no', port: 6432 });
+      expect(config.database.password).toBe('12345678901234567890');
+      expect(JSON.stringify(config.database)).not.toContain('12345678901234567890');
+      expect(config.i18n!.supportedLanguages).toEqual(['nb', 'nn']);
+      expect(config.logging.level).toBe('debug');
+
+      // And: Each value reports the layer it came from
+      expect(getConfigSource(config, 'municipality')).toEqual({
+        layer: 'file',
+        origin: join(directory, 'foundation.config.json'),
+      });
+      expect(getConfigSource(config, 'database.host')).toEqual({
+        layer: 'environment-file',
+        origin: join(directory, 'foundation.production.config.yaml'),
+      });
+      expect(getConfigSource(config, 'securityConfig.encryption.algorithm')).toEqual({
+        layer: 'env',
+        origin: 'FOUNDATION__SECURITY__ENCRYPTION__ALGORITHM',
+      });
+      expect(getConfigSource(config, 'i18n.supportedLanguages.0')!.layer).toBe('environment-file');
+      expect(getConfigSource(config, 'logging.level')).toEqual({
+        layer: 'override',
+        origin: undefined,
+      });
+      expect(getConfigSource(config, 'logging.auditEnabled')!.layer).toBe('defaults');
+      expect(getConfigSource(config, 'unknown.path')).toBeUndefined();
+
+      // And: Other environments do not pick up the production file
+      const staging = loadConfig({ environment: 'staging', configPath: directory });
+      expect(staging.language).toBeUndefined();
+      expect(staging.database.host).toBe('localhost');
+      expect(getConfigSource(staging, 'database.host')!.layer).toBe('defaults');
+      expect(getConfigSource(config, 'database.host')!.layer).toBe('environment-file');
+    } finally {
+      delete process.env.FOUNDATION__SECURITY__ENCRYPTION__ALGORITHM;
+      delete process.env.FOUNDATION__SECURITY__ENCRYPTION__KEY_ROTATION_ENABLED;
+      delete process.env.FOUNDATION__DATABASE__PORT;
+      delete process.env.FOUNDATION__DATABASE__PASSWORD;
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  // User Story 7: Developer debugging a broken configuration file
+  it('Configuration File Story: should parse YAML configuration and report broken files', () => {
+    // Given: A YAML document using mappings, sequences and scalars
+    const parsed = parseYaml(
+      [
+        'municipality: "0301" # Oslo',
+        'modules:',
+        '  logger:',
+        '    enabled: true',
+        '    retention: 30',
+        'contacts:',
+        '  - name: Servicesenteret',
+        '    phone: "+47 21 80 21 80"',
+        '  - name: Bydel Frogner',
+        'tags:',
+        "- 'kommune'",
+        '- null',
+        'greeting: "Si \\"hei\\" # til alle" # comment',
+        'quotes: ["a\\", b", c]',
+      ].join('\n')
+    );
+
+    // Then: Values keep their types
+    expect(parsed).toEqual({
+      municipality: '0301',
+      modules: { logger: { enabled: true, retention: 30 } },
+      contacts: [{ name: 'Servicesenteret', phone: '+47 21 80 21 80' }, { name: 'Bydel Frogner' }],
+      tags: ['kommune', null],
+      greeting: 'Si "hei" # til alle',
+      quotes: ['a", b', 'c'],
+    });
+
+    // And: Deep merging replaces arrays and leaves its inputs untouched
+    const base = { i18n: { supportedLanguages: ['nb', 'en'], defaultLanguage: 'nb' } };
+    const merged = deepMerge(base, { i18n: { supportedLanguages: ['nn'] } });
+    expect(merged).toEqual({ i18n: { supportedLanguages: ['nn'], defaultLanguage: 'nb' } });
+    expect(base.i18n.supportedLanguages).toEqual(['nb', 'en']);
+
+    // When: A configuration file is malformed
+    const directory = mkdtempSync(join(tmpdir(), 'foundation-config-'));
+    const filename = join(directory, 'foundation.config.yml');
+    writeFileSync(filename, 'database:\n  host: localhost\n    port: 5432\n');
+
+    try {
+      // Then: Loading fails with the file and line
+      expect(() => loadConfig({ configPath: directory })).toThrow(ConfigFileError);
+      expect(() => loadConfig({ configPath: filename })).toThrow(
+        `Failed to load configuration file ${filename}: Invalid YAML at line 3: unexpected indentation`
+      );
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  // User Story 8: Operations team deploying Stavanger Kommune with a mistyped environment
+  it('Configuration Schema Story: should coerce environment strings and report every invalid value for Stavanger Kommune', () => {
+    // Given: Environment variables hold strings for numbers, booleans, durations and lists
+    process.env.FOUNDATION__MUNICIPALITY = '1103';
+    process.env.FOUNDATION__SECURITY__AUTHENTICATION__SESSION_TIMEOUT = '30m';
+    process.env.FOUNDATION__MODULES__HEALTHCHECK__INTERVAL = '15s';
+    process.env.FOUNDATION__I18N__SUPPORTED_LANGUAGES = 'nb, nn';
+
+    // When: Configuration is loaded
+    const config = loadConfig({ environment: 'production' });
+
+    // Then: Values are converted to the types of the schema
+    expect(config.municipality).toBe('1103');
+    expect(config.security!.authentication.sessionTimeout).toBe(1800);
+    expect(config.modules!.healthcheck!.interval).toBe(15000);
+    expect(config.i18n!.supportedLanguages).toEqual(['nb', 'nn']);
+
+    // And: Boolean security sections written by older setup versions are still accepted
+    const legacy = loadConfig({
+      environment: 'production',
+      overrides: { security: { encryption: true, accessControl: false, auditTrail: true } } as any,
+    });
+    expect(legacy.security!.encryption).toMatchObject({ enabled: true, algorithm: 'AES-256-GCM' });
+    expect(legacy.security!.accessControl.enabled).toBe(false);
+    expect(legacy.security!.auditTrail).toMatchObject({ enabled: true, retentionPeriod: 'P7Y' });
+
+    // And: A retention period needs at least one component
+    expect(() =>
+      loadConfig({ environment: 'production', overrides: { compliance: { retentionPeriod: 'P' } } })
+    ).toThrow('compliance.retentionPeriod must match');
+
+    // When: Several values are invalid at once
+    process.env.DB_PORT = 'abc';
+    process.env.LOG_LEVEL = 'verbose';
+    process.env.FOUNDATION__SECURITY__AUTHENTICATION__MFA_REQUIRED = 'maybe';
+
+    // Then: One error lists every problem with its path and origin instead of a NaN port
+    let error: ConfigValidationError | undefined;
+    try {
+      loadConfig({ environment: 'production' });
+    } catch (caught) {
+      error = caught as ConfigValidationError;
+    }
+    expect(error).toBeInstanceOf(ConfigValidationError);
+    expect(error!.issues.map(issue => [issue.path, issue.source?.origin])).toEqual([
+      ['database.port', 'DB_PORT'],
+      ['security.authentication.mfaRequired', 'FOUNDATION__SECURITY__AUTHENTICATION__MFA_REQUIRED'],
+      ['logging.level', 'LOG_LEVEL'],
+    ]);
+    expect(error!.message).toContain('database.port must be an integer, got "abc" (from DB_PORT)');
+    expect(error!.message).toContain(
+      'logging.level must be one of debug, info, warn, error, audit, got "verbose"'
+    );
+    expect(() => getDatabaseConfig()).toThrow(ConfigValidationError);
+  });
+
+  // User Story 9: Module author adds a schema for the booking module's settings
+  it('Module Schema Story: should validate module sections against registered schema fragments', () => {
+    // Given: The booking module registers the schema of modules.booking
+    registerModuleConfigSchema('booking', {
+      type: 'object',
+      required: ['maxAdvanceDays'],
+      properties: {
+        maxAdvanceDays: { type: 'integer', minimum: 1 },
+        reminder: { type: 'duration' },
+      },
+    });
+
+    try {
+      // When: A deployment configures the module
+      const config = loadConfig({
+        overrides: {
+          modules: { booking: { enabled: false, maxAdvanceDays: 90, reminder: 'PT24H' } },
+        },
+      });
+
+      // Then: The section is validated and coerced
+      expect(config.modules!.booking).toEqual({
+        enabled: false,
+        maxAdvanceDays: 90,
+        reminder: 86_400_000,
+      });
+
+      // And: Invalid sections are rejected with path-qualified errors
+      expect(() =>
+        loadConfig({ overrides: { modules: { booking: { enabled: 'sometimes' } } } })
+      ).toThrow(
+        'Invalid configuration: modules.booking.maxAdvanceDays is required; modules.booking.enabled must be a boolean, got "sometimes"'
+      );
+
+      // And: The same schema checks plain objects, e.g. a file read by the CLI
+      const { issues } = validateConfigSchema(
+        { type: 'object', properties: { municipality: { type: 'string', pattern: '^\\d{4}$' } } },
+        { municipality: 301 }
+      );
+      expect(issues).toEqual([{ path: 'municipality', message: 'must match ^\\d{4}$, got 301' }]);
+    } finally {
+      unregisterModuleConfigSchema('booking');
+    }
+
+    // Then: Unregistered modules are only checked for the enabled flag
+    expect(
+      loadConfig({ overrides: { modules: { booking: { maxAdvanceDays: 0 } } } }).modules!.booking
+    ).toEqual({ maxAdvanceDays: 0 });
+  });
+
+  // User Story 10: Long-running API service for Kristiansand Kommune changes settings live
+  it('Hot Reload Story: should swap in valid configuration files and keep the last good one', async () => {
+    // Given: A running service watching its configuration directory
+    const directory = mkdtempSync(join(tmpdir(), 'foundation-config-'));
+    const filename = join(directory, 'foundation.config.json');
+    const writeConfig = (level: string, newBooking: boolean) =>
+      writeFileSync(
+        filename,
+        JSON.stringify({ logging: { level }, features: { newBooking, payments: true } })
+      );
+    const waitFor = async (condition: () => boolean) => {
+      for (let attempt = 0; attempt < 100 && !condition(); attempt++) {
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
+    };
+    writeConfig('info', false);
+
+    const eventBus = createEventBus();
+    const errorHandler = createErrorHandler({ enableNotifications: false });
+    const handleError = jest.spyOn(errorHandler, 'handleError').mockResolvedValue('error-id');
+    const events: Array<BaseEvent & { changes: ConfigChange[] }> = [];
+    eventBus.subscribe<BaseEvent & { changes: ConfigChange[] }>('config.changed', event => {
+      events.push(event);
+    });
+
+    const manager = createConfigManager({
+      environment: 'production',
+      configPath: directory,
+      debounce: 20,
+      eventBus,
+      errorHandler,
+    });
+    const levelListener = jest.fn();
+    const featureListener = jest.fn();
+    const databaseListener = jest.fn();
+    manager.onChange('logging.level', levelListener);
+    manager.onChange('features', featureListener);
+    manager.onChange('database', databaseListener);
+    manager.watch();
+
+    try {
+      // When: Operations raise the log level and enable a feature
+      writeConfig('debug', true);
+      await waitFor(() => levelListener.mock.calls.length > 0 && events.length > 0);
+
+      // Then: Subscribers of the changed paths are told the new and previous values
+      expect(manager.get('logging.level')).toBe('debug');
+      expect(levelListener).toHaveBeenCalledWith('debug', 'info', [
+        { path: 'logging.level', previous: 'info', current: 'debug' },
+      ]);
+      expect(featureListener).toHaveBeenCalledWith(
+        { newBooking: true, payments: true },
+        { newBooking: false, payments: true },
+        [{ path: 'features.newBooking', previous: false, current: true }]
+      );
+      expect(databaseListener).not.toHaveBeenCalled();
+
+      // And: A config.changed event carries the diff
+      expect(events[0].source).toBe('config-loader');
+      expect(events[0].changes.map(change => change.path)).toEqual([
+        'logging.level',
+        'features.newBooking',
+      ]);
+
+      // When: A file with an invalid value is saved
+      const goodConfig = manager.getConfig();
+      writeConfig('verbose', false);
+      await waitFor(() => handleError.mock.calls.length > 0);
+
+      // Then: The last known-good configuration is kept and the failure is reported
+      expect(manager.getConfig()).toBe(goodConfig);
+      expect(manager.get('features.newBooking')).toBe(true);
+      expect(handleError).toHaveBeenCalledWith(
+        expect.any(ConfigValidationError),
+        { operation: 'config_reload', component: 'config-loader' },
+        'high'
+      );
+      expect(levelListener).toHaveBeenCalledTimes(1);
+
+      // And: A reload without changes notifies nobody
+      writeConfig('debug', true);
+      const result = await manager.reload();
+      expect(result).toEqual({ applied: true, changes: [] });
+
+      // When: A module section with a credential is added
+      writeFileSync(
+        filename,
+        JSON.stringify({
+          logging: { level: 'debug' },
+          features: { newBooking: true, payments: true },
+          modules: { pay: { enabled: true, apiKey: 'sk_live_kristiansand' } },
+        })
+      );
+      const added = await manager.reload();
+      await waitFor(() => events.length > 1);
+
+      // Then: The change keeps the value, but the event redacts it
+      expect(added.changes.map(change => change.path)).toEqual(['modules']);
+      expect(manager.get('modules.pay.apiKey')).toBe('sk_live_kristiansand');
+      expect(events[1].changes).toEqual([
+        {
+          path: 'modules',
+          previous: undefined,
+          current: { pay: { enabled: true, apiKey: '[REDACTED]' } },
+        },
+      ]);
+    } finally {
+      manager.close();
+      rmSync(directory, { recursive: true, force: true });
+    }
+    expect(manager.isWatching()).toBe(false);
+  });
+
+  // User Story 11: Tromsø Kommune keeps credentials out of its configuration files
+  it('Secrets Story: should resolve secret references, decrypt enc: values and redact secrets for Tromsø Kommune', () => {
+    // Given: Secrets in files, environment variables, a vault and encrypted values
+    const directory = mkdtempSync(join(tmpdir(), 'foundation-config-'));
+    const secretsDirectory = join(directory, 'secrets');
+    mkdirSync(secretsDirectory);
+    writeFileSync(join(secretsDirectory, 'db_password'), 'nordlys-2024\n');
+    writeFileSync(join(directory, 'db_port'), '6432');
+    process.env.FOUNDATION_SECRETS_DIR = secretsDirectory;
+    process.env.TROMSO_DB_USER = 'tromso_booking';
+    registerSecretProvider('vault', createStaticSecretProvider({ 'kv/payments': 'whsec_5501' }));
+
+    const key = generateConfigKey();
+    const filename = join(directory, 'foundation.config.json');
+    writeFileSync(
+      filename,
+      JSON.stringify(
+        {
+          municipality: '5501',
+          database: {
+            host: 'db.tromso.kommune.no',
+            port: `\${file:${join(directory, 'db_port')}}`,
+            user: '${env:TROMSO_DB_USER}',
+            password: '${secret:db_password}',
+          },
+          modules: {
+            payments: {
+              enabled: true,
+              apiKey: encryptConfigValue('sk_live_tromso', key),
+              webhookSecret: '${vault:kv/payments}',
+            },
+          },
+        },
+        null,
+        2
+      )
+    );
+
+    try {
+      // When: Configuration is loaded with the encryption key
+      const config = loadConfig({ configPath: directory, encryptionKeys: [key] });
+
+      // Then: References are resolved, encrypted values decrypted and types coerced
+      expect(config.database).toMatchObject({
+        host: 'db.tromso.kommune.no',
+        port: 6432,
+        user: 'tromso_booking',
+        password: 'nordlys-2024',
+      });
+      expect(config.modules!.payments).toEqual({
+        enabled: true,
+        apiKey: 'sk_live_tromso',
+        webhookSecret: 'whsec_5501',
+      });
+
+      // And: Logging or dumping the configuration never shows a secret
+      const dumped = JSON.stringify(config);
+      for (const secret of ['nordlys-2024', 'tromso_booking', 'sk_live_tromso', 'whsec_5501']) {
+        expect(dumped).not.toContain(secret);
+        expect(inspect(config, { depth: 10 })).not.toContain(secret);
+      }
+      expect(JSON.parse(dumped).database).toMatchObject({
+        host: 'db.tromso.kommune.no',
+        password: '[REDACTED]',
+      });
+      expect(inspect(config.database)).toContain("password: '[REDACTED]'");
+      expect(redactConfig({ ...config.database }).password).toBe('[REDACTED]');
+      expect(redactConfig(config).modules!.payments).toEqual({
+        enabled: true,
+        apiKey: '[REDACTED]',
+        webhookSecret: '[REDACTED]',
+      });
+
+      // When: The key is rotated in the file
+      const newKey = generateConfigKey();
+      const rotation = rotateEncryptedValues(readFileSync(filename, 'utf-8'), [key], newKey);
+      writeFileSync(filename, rotation.text);
+
+      // Then: Only the new key decrypts the file
+      expect(rotation.rotated).toBe(1);
+      expect(
+        loadConfig({ configPath: directory, encryptionKeys: [newKey] }).modules!.payments!.apiKey
+      ).toBe('sk_live_tromso');
+
+      // And: Unresolvable secrets are reported together, without their values
+      unregisterSecretProvider('vault');
+      delete process.env.TROMSO_DB_USER;
+      let error: ConfigValidationError | undefined;
+      try {
+        loadConfig({ configPath: directory, encryptionKeys: [key] });
+      } catch (caught) {
+        error = caught as ConfigValidationError;
+      }
+      expect(error).toBeInstanceOf(ConfigValidationError);
+      expect(error!.issues.map(issue => issue.path)).toEqual([
+        'database.user',
+        'modules.payments.apiKey',
+        'modules.payments.webhookSecret',
+      ]);
+      expect(error!.message).toContain(
+        "modules.payments.webhookSecret uses unknown secret provider 'vault'"
+      );
+      expect(error!.message).not.toContain('nordlys-2024');
+    } finally {
+      unregisterSecretProvider('vault');
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  // User Story 12: Vestland IT runs one deployment for several kommuner
+  it('Tenant Story: should overlay tenant configuration and serve per-municipality settings for Vestland kommuner', () => {
+    // Given: A shared base configuration with per-kommune settings and a Bergen tenant file
+    const directory = mkdtempSync(join(tmpdir(), 'foundation-config-'));
+    writeFileSync(
+      join(directory, 'foundation.config.yaml'),
+      [
+        'language: nb',
+        'logging:',
+        '  level: info',
+        'tenants:',
+        '  "4601":',
+        '    altinnServiceOwner: bergen_kommune_digital',
+        '  "4602":',
+        '    language: nn',
+        '    nsmClassification: ÅPEN',
+      ].join('\n')
+    );
+    const bergenFile = join(directory, 'foundation.tenant.4601.config.yaml');
+    writeFileSync(bergenFile, ['logging:', '  level: debug'].join('\n'));
+
+    try {
+      // When: Configuration is loaded for Bergen and for Kinn
+      const bergen = loadConfig({ configPath: directory, tenant: '4601' });
+      const kinn = loadConfig({ configPath: directory, tenant: '4602' });
+
+      // Then: Each tenant gets its own overlay on top of the shared base
+      expect(bergen.municipality).toBe('4601');
+      expect(bergen.logging.level).toBe('debug');
+      expect(kinn.municipality).toBe('4602');
+      expect(kinn.logging.level).toBe('info');
+      expect(getConfigSource(bergen, 'logging.level')).toEqual({
+        layer: 'tenant',
+        origin: bergenFile,
+      });
+      expect(getConfigSource(kinn, 'municipality')).toEqual({ layer: 'tenant', origin: undefined });
+
+      // And: Numbers from before the 2024 reform load the kommune under its current number
+      expect(loadConfig({ configPath: directory, tenant: '5401' }).municipality).toBe('5501');
+
+      // And: The registry serves each kommune's settings at runtime
+      const registry = createTenantConfigRegistry({
+        defaults: { language: kinn.language },
+        tenants: kinn.tenants,
+      });
+      expect(registry.get('4601')).toEqual({
+        municipality: '4601',
+        name: 'Bergen',
+        county: 'Vestland',
+        language: 'nb',
+        nsmClassification: 'BEGRENSET',
+        altinnServiceOwner: 'bergen_kommune_digital',
+      });
+      expect(registry.get('4602')).toMatchObject({
+        name: 'Kinn',
+        language: 'nn',
+        nsmClassification: 'ÅPEN',
+        altinnServiceOwner: 'kinn_kommune',
+      });
+      expect(registry.get('3207')?.altinnServiceOwner).toBe('nordre_follo_kommune');
+      expect(registry.get('1515')?.altinnServiceOwner).toBe('heroy_kommune_1515');
+      expect(registry.get('1818')?.altinnServiceOwner).toBe('heroy_kommune_1818');
+      expect(registry.list().map(tenant => tenant.municipality)).toEqual(['4601', '4602']);
+      expect(registry.get('9999')).toBeUndefined();
+      expect(() => registry.register('9999')).toThrow('Unknown municipality code 9999');
+
+      // And: Unknown and outdated kommune numbers are rejected
+      expect(() => loadConfig({ configPath: directory, tenant: '9999' })).toThrow(
+        'municipality unknown municipality code 9999'
+      );
+      expect(() =>
+        loadConfig({
+          configPath: directory,
+          overrides: { tenants: { '1507': { language: 'nn' } } },
+        })
+      ).toThrow('tenants.1507 1507 is a former municipality code; use 1508 (Ålesund)');
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+
+    // And: The bundled table covers every kommune and fylke after the 2024 region reform
+    expect(listMunicipalities()).toHaveLength(357);
+    expect(NORWEGIAN_COUNTIES).toHaveLength(15);
+    expect(listMunicipalities('55')).toHaveLength(21);
+    expect(getMunicipality('3001')).toMatchObject({
+      code: '3101',
+      name: 'Halden',
+      county: 'Østfold',
+    });
+    expect(getMunicipality('1580')).toMatchObject({ name: 'Haram', county: 'Møre og Romsdal' });
+  });
 });
@@ -0,0 +1,252 @@
+/**
+ * Configuration Layers
+ * Deep merging of configuration layers while recording which layer set each value
+ */
+
+import { existsSync, readFileSync, statSync } from 'fs';
+import { basename, dirname, extname, join } from 'path';
+
+import { parseYaml } from './yaml';
+
+// Layers in the order they are applied; later layers win
+export type ConfigLayer = 'defaults' | 'file' | 'environment-file' | 'tenant' | 'env' | 'override';
+
+export interface ConfigSource {
+  layer: ConfigLayer;
+  // File path or environment variable the value came from
+  origin?: string;
+}
+
+export interface ConfigLayerValues {
+  layer: ConfigLayer;
+  values: Record<string, unknown>;
+  origin?: string;
+  // Origin per dotted path, for layers assembled from several sources
+  origins?: Record<string, string>;
+}
+
+export class ConfigFileError extends Error {
+  constructor(
+    public readonly filename: string,
+    message: string
+  ) {
+    super(`Failed to load configuration file ${filename}: ${message}`);
+    this.name = 'ConfigFileError';
+  }
+}
+
+export const CONFIG_ENV_PREFIX = 'FOUNDATION__';
+
+const CONFIG_EXTENSIONS = ['.json', '.yaml', '.yml'];
+const UNSAFE_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// Merge sources into a copy of the target. Objects merge key by key; arrays and scalars replace.
+export const deepMerge = <T extends Record<string, unknown>>(
+  target: T,
+  ...sources: Array<Record<string, unknown> | undefined>
+): T => {
+  const result = mergeInto({}, target, '', () => undefined);
+  for (const source of sources) {
+    if (source) mergeInto(result, source, '', () => undefined);
+  }
+  return result as T;
+};
+
+// Merge layers in order and record the source of every leaf value by dotted path
+export const mergeConfigLayers = (
+  layers: ConfigLayerValues[]
+): { config: Record<string, unknown>; sources: Map<string, ConfigSource> } => {
+  const config: Record<string, unknown> = {};
+  const sources = new Map<string, ConfigSource>();
+
+  for (const layer of layers) {
+    mergeInto(config, layer.values, '', path => {
+      // A replaced value also replaces whatever was recorded below it
+      for (const recorded of Array.from(sources.keys())) {
+        if (recorded.startsWith(`${path}.`)) sources.delete(recorded);
+      }
+      sources.set(path, { layer: layer.layer, origin: layer.origins?.[path] ?? layer.origin });
+    });
+  }
+
+  return { config, sources };
+};
+
+// Source of the value at a dotted path, or of the nearest ancestor set as a whole (e.g. an array)
+export const lookupConfigSource = (
+  sources: Map<string, ConfigSource>,
+  path: string
+): ConfigSource | undefined => {
+  const segments = path.split('.');
+  for (let length = segments.length; length > 0; length--) {
+    const source = sources.get(segments.slice(0, length).join('.'));
+    if (source) return source;
+  }
+  return undefined;
+};
+
+function mergeInto(
+  target: Record<string, unknown>,
+  source: Record<string, unknown>,
+  prefix: string,
+  record: (path: string) => void
+): Record<string, unknown> {
+  for (const [key, value] of Object.entries(source)) {
+    if (UNSAFE_KEYS.has(key) || value === undefined) continue;
+    const path = prefix ? `${prefix}.${key}` : key;
+
+    if (isPlainObject(value)) {
+      if (!isPlainObject(target[key])) {
+        target[key] = {};
+        record(path);
+      }
+      mergeInto(target[key] as Record<string, unknown>, value, path, record);
+    } else {
+      target[key] = Array.isArray(value) ? structuredClone(value) : value;
+      record(path);
+    }
+  }
+  return target;
+}
+
+// Base, environment and tenant files from a directory, or from the directory of a given base file
+export const readConfigFiles = (
+  configPath: string,
+  environment: string,
+  tenant?: string
+): ConfigLayerValues[] => {
+  const isFile = existsSync(configPath) && statSync(configPath).isFile();
+  const directory = isFile ? dirname(configPath) : configPath;
+
+  const baseFile = isFile ? configPath : findConfigFile(directory, 'foundation.config');
+  const environmentFile = findConfigFile(directory, `foundation.${environment}.config`);
+  const tenantFile = tenant ? findConfigFile(directory, `foundation.tenant.${tenant}.config`) : '';
+
+  const layers: ConfigLayerValues[] = [];
+  if (baseFile) {
+    layers.push({ layer: 'file', values: readConfigFile(baseFile), origin: baseFile });
+  }
+  if (environmentFile) {
+    layers.push({
+      layer: 'environment-file',
+      values: readConfigFile(environmentFile),
+      origin: environmentFile,
+    });
+  }
+  if (tenantFile) {
+    layers.push({ layer: 'tenant', values: readConfigFile(tenantFile), origin: tenantFile });
+  }
+  return layers;
+};
+
+// Directory holding the configuration files and every file name loadConfig may read from it
+export const configFileCandidates = (
+  configPath: string,
+  environment: string,
+  tenant?: string
+): { directory: string; filenames: string[] } => {
+  const isFile = existsSync(configPath) && statSync(configPath).isFile();
+  const names = (base: string) => CONFIG_EXTENSIONS.map(extension => `${base}${extension}`);
+
+  return {
+    directory: isFile ? dirname(configPath) : configPath,
+    filenames: [
+      ...(isFile ? [basename(configPath)] : names('foundation.config')),
+      ...names(`foundation.${environment}.config`),
+      ...(tenant ? names(`foundation.tenant.${tenant}.config`) : []),
+    ],
+  };
+};
+
+function findConfigFile(directory: string, basename: string): string | undefined {
+  return CONFIG_EXTENSIONS.map(extension => join(directory, `${basename}${extension}`)).find(
+    candidate => existsSync(candidate)
+  );
+}
+
+export const readConfigFile = (filename: string): Record<string, unknown> => {
+  let values: unknown;
+  try {
+    const content = readFileSync(filename, 'utf-8');
+    values = extname(filename) === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new ConfigFileError(filename, (error as Error).message);
+  }
+
+  if (values === null) return {};
+  if (!isPlainObject(values)) {
+    throw new ConfigFileError(filename, 'expected an object at the top level');
+  }
+  return values;
+};
+
+// FOUNDATION__SECURITY__ENCRYPTION__ALGORITHM=AES-256-GCM sets security.encryption.algorithm.
+// Segments match existing keys ignoring case and underscores, so KEY_ROTATION_ENABLED sets
+// keyRotationEnabled; unknown segments become camelCase keys.
+export const readEnvironmentLayer = (
+  env: NodeJS.ProcessEnv,
+  shape: Record<string, unknown>
+): ConfigLayerValues => {
+  const values: Record<string, unknown> = {};
+  const origins: Record<string, string> = {};
+
+  const names = Object.keys(env)
+    .filter(name => name.startsWith(CONFIG_ENV_PREFIX) && env[name] !== undefined)
+    .sort();
+
+  for (const name of names) {
+    const segments = name.slice(CONFIG_ENV_PREFIX.length).split('__').filter(Boolean);
+    if (segments.length === 0) continue;
+
+    let target = values;
+    let known: unknown = shape;
+    const path: string[] = [];
+
+    segments.forEach((segment, index) => {
+      const key = resolveKey(segment, known);
+      path.push(key);
+      known = isPlainObject(known) ? known[key] : undefined;
+
+      if (index === segments.length - 1) {
+        target[key] = parseEnvironmentValue(env[name] as string);
+      } else {
+        if (!isPlainObject(target[key])) target[key] = {};
+        target = target[key] as Record<string, unknown>;
+      }
+    });
+
+    origins[path.join('.')] = name;
+  }
+
+  return { layer: 'env', values, origins };
+};
+
+function resolveKey(segment: string, known: unknown): string {
+  const normalized = segment.replace(/_/g, '').toLowerCase();
+  const existing = isPlainObject(known)
+    ? Object.keys(known).find(key => key.replace(/_/g, '').toLowerCase() === normalized)
+    : undefined;
+
+  return (
+    existing ??
+    segment.toLowerCase().replace(/_([a-z0-9])/g, (_, char: string) => char.toUpperCase())
+  );
+}
+
+// JSON arrays or objects; anything else stays a string for the schema to coerce, so values
+// such as passwords of digits or the version 1.10 keep their exact text
+function parseEnvironmentValue(raw: string): unknown {
+  const value = raw.trim();
+  if (value.startsWith('[') || value.startsWith('{')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return raw;
+    }
+  }
+  return raw;
+}
@@ -0,0 +1,259 @@
+/**
+ * Configuration Manager
+ * Hot reloading of configuration files with change subscriptions. A reloaded configuration is
+ * validated before it replaces the current one; invalid files keep the last known-good values.
+ */
+
+import { FSWatcher, watch } from 'fs';
+
+import { EventBus, createEvent, getEventBus } from '../event-core';
+import { ErrorReport, FoundationErrorHandler, getErrorHandler } from '../error-handler';
+import { configFileCandidates } from './config-layers';
+import { REDACTED, isSecretConfigPath, redactConfig } from './config-secrets';
+import { getMunicipality } from './municipalities';
+import { ConfigOptions, FoundationConfig, loadConfig } from './index';
+
+export interface ConfigManagerOptions extends ConfigOptions {
+  // Quiet period after the last file event before reloading
+  debounce?: number;
+  // Receives config.changed events; defaults to the shared event bus
+  eventBus?: EventBus;
+  // Receives failed reloads; defaults to the shared error handler
+  errorHandler?: FoundationErrorHandler;
+}
+
+export interface ConfigChange {
+  // Dotted path of the value that changed, e.g. 'logging.level'
+  path: string;
+  previous: unknown;
+  current: unknown;
+}
+
+export interface ConfigReloadResult {
+  applied: boolean;
+  changes: ConfigChange[];
+  error?: Error;
+}
+
+export type ConfigChangeListener<T = unknown> = (
+  current: T,
+  previous: T,
+  changes: ConfigChange[]
+) => void;
+
+export const CONFIG_CHANGED_EVENT = 'config.changed';
+
+interface ChangeSubscription {
+  path: string;
+  listener: ConfigChangeListener;
+}
+
+export class ConfigManager {
+  private config: FoundationConfig;
+  private options: ConfigManagerOptions;
+  private environment: string;
+  private eventBus: EventBus;
+  private errorHandler: FoundationErrorHandler;
+  private subscriptions: Set<ChangeSubscription> = new Set();
+  private watcher?: FSWatcher;
+  private debounceTimer?: NodeJS.Timeout;
+
+  // Loads the initial configuration; an invalid one throws, as loadConfig does
+  constructor(options: ConfigManagerOptions = {}) {
+    this.options = { debounce: 100, ...options };
+    this.environment = options.environment || process.env['NODE_ENV'] || 'development';
+    this.eventBus = options.eventBus || getEventBus();
+    this.errorHandler = options.errorHandler || getErrorHandler();
+    this.config = this.load();
+  }
+
+  getConfig(): FoundationConfig {
+    return this.config;
+  }
+
+  // Value at a dotted path of the current configuration
+  get<T = unknown>(path: string): T | undefined {
+    return getPath(this.config, path) as T | undefined;
+  }
+
+  // Call the listener with the new and previous value whenever the value at a path, or anything
+  // below it, changes. Returns a function that removes the listener.
+  onChange<T = unknown>(path: string, listener: ConfigChangeListener<T>): () => void {
+    const subscription: ChangeSubscription = { path, listener: listener as ConfigChangeListener };
+    this.subscriptions.add(subscription);
+    return () => {
+      this.subscriptions.delete(subscription);
+    };
+  }
+
+  // Load the configuration again and swap it in if it is valid
+  async reload(): Promise<ConfigReloadResult> {
+    let next: FoundationConfig;
+    try {
+      next = this.load();
+    } catch (error) {
+      const reloadError = error instanceof Error ? error : new Error(String(error));
+      await this.reportError(reloadError, 'config_reload', 'high');
+      return { applied: false, changes: [], error: reloadError };
+    }
+
+    const previous = this.config;
+    const changes = diffConfig(previous, next);
+    if (changes.length === 0) {
+      return { applied: true, changes };
+    }
+
+    this.config = next;
+    this.publishChange(
+      // Listeners receive secrets, but events carry them redacted, also inside added or removed
+      // sections such as modules.payments
+      changes.map(change =>
+        isSecretConfigPath(previous, change.path) || isSecretConfigPath(next, change.path)
+          ? { ...change, previous: REDACTED, current: REDACTED }
+          : {
+              ...change,
+              previous: redactConfig(change.previous),
+              current: redactConfig(change.current),
+            }
+      )
+    );
+    await this.notify(previous, next, changes);
+    return { applied: true, changes };
+  }
+
+  // Reload whenever one of the configuration files is created, changed or replaced
+  watch(): void {
+    if (this.watcher) return;
+
+    const { directory, filenames } = configFileCandidates(
+      this.options.configPath || process.cwd(),
+      this.environment,
+      this.options.tenant && (getMunicipality(this.options.tenant)?.code || this.options.tenant)
+    );
+
+    // Editors often save by renaming, so the directory is watched rather than the files
+    this.watcher = watch(directory, { persistent: false }, (_eventType, filename) => {
+      if (!filename || filenames.includes(filename.toString())) {
+        this.scheduleReload();
+      }
+    });
+    this.watcher.on('error', error => this.reportError(error, 'config_watch', 'medium'));
+  }
+
+  isWatching(): boolean {
+    return this.watcher !== undefined;
+  }
+
+  close(): void {
+    this.watcher?.close();
+    this.watcher = undefined;
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = undefined;
+    }
+  }
+
+  private load(): FoundationConfig {
+    return loadConfig({ ...this.options, environment: this.environment });
+  }
+
+  private scheduleReload(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = undefined;
+      this.reload().catch(error => this.reportError(error, 'config_reload', 'high'));
+    }, this.options.debounce);
+    this.debounceTimer.unref();
+  }
+
+  // Change events must not fail the reload
+  private publishChange(changes: ConfigChange[]): void {
+    const event = createEvent(
+      CONFIG_CHANGED_EVENT,
+      { environment: this.environment, changes },
+      { source: 'config-loader' }
+    );
+
+    this.eventBus
+      .publish(event)
+      .catch(error => this.reportError(error, 'config_publish', 'medium'));
+  }
+
+  private async notify(
+    previous: FoundationConfig,
+    current: FoundationConfig,
+    changes: ConfigChange[]
+  ): Promise<void> {
+    for (const { path, listener } of Array.from(this.subscriptions)) {
+      const matching = changes.filter(change => pathsOverlap(path, change.path));
+      if (matching.length === 0) continue;
+
+      try {
+        listener(getPath(current, path), getPath(previous, path), matching);
+      } catch (error) {
+        await this.reportError(error, 'config_change_listener', 'medium');
+      }
+    }
+  }
+
+  // A failing error handler must not fail the reload
+  private async reportError(
+    error: unknown,
+    operation: string,
+    severity: ErrorReport['severity']
+  ): Promise<void> {
+    await this.errorHandler
+      .handleError(
+        error instanceof Error ? error : new Error(String(error)),
+        { operation, component: 'config-loader' },
+        severity
+      )
+      .catch(() => undefined);
+  }
+}
+
+// Changed leaf values between two configurations. Arrays are compared as a whole, and the
+// securityConfig alias is left out as it mirrors security.
+export const diffConfig = (previous: object, current: object): ConfigChange[] => {
+  const changes: ConfigChange[] = [];
+
+  const walk = (before: unknown, after: unknown, path: string): void => {
+    if (isPlainObject(before) && isPlainObject(after)) {
+      const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+      keys.forEach(key => {
+        if (!path && key === 'securityConfig') return;
+        walk(before[key], after[key], path ? `${path}.${key}` : key);
+      });
+    } else if (JSON.stringify(before) !== JSON.stringify(after)) {
+      changes.push({ path, previous: before, current: after });
+    }
+  };
+
+  walk(previous, current, '');
+  return changes;
+};
+
+// 'logging' overlaps 'logging.level', and 'logging.level' overlaps 'logging' being replaced
+function pathsOverlap(subscribed: string, changed: string): boolean {
+  return (
+    subscribed === changed ||
+    changed.startsWith(`${subscribed}.`) ||
+    subscribed.startsWith(`${changed}.`)
+  );
+}
+
+function getPath(value: unknown, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>((current, key) => (isPlainObject(current) ? current[key] : undefined), value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export const createConfigManager = (options?: ConfigManagerOptions): ConfigManager => {
+  return new ConfigManager(options);
+};
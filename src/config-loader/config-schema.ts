@@ -0,0 +1,529 @@
+/**
+ * Configuration Schema
+ * Validation of loaded configuration against a JSON Schema subset, coercing environment strings
+ * to numbers, booleans and durations. Modules register fragments for their modules.<name> section.
+ */
+
+import type { ConfigSource } from './config-layers';
+
+// Supported subset of JSON Schema, plus a duration type and nullable
+export interface ConfigSchema {
+  readonly type?: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'duration';
+  readonly properties?: { readonly [key: string]: ConfigSchema };
+  readonly required?: readonly string[];
+  // false rejects unknown keys; a schema validates every unknown key
+  readonly additionalProperties?: boolean | ConfigSchema;
+  readonly items?: ConfigSchema;
+  readonly enum?: readonly unknown[];
+  readonly pattern?: string;
+  readonly minimum?: number;
+  readonly maximum?: number;
+  readonly minItems?: number;
+  readonly nullable?: boolean;
+  // Unit of duration values: '30s', '5m', '2h', '1d' or 'PT5M' are converted to it
+  readonly unit?: 'ms' | 's';
+  readonly description?: string;
+}
+
+// Infer a TypeScript type from a schema declared `as const`
+export type InferConfigSchema<S> = S extends { readonly nullable: true }
+  ? InferConfigValue<S> | null
+  : InferConfigValue<S>;
+
+type InferConfigValue<S> = S extends { readonly enum: readonly (infer E)[] }
+  ? E
+  : S extends { readonly type: 'string' }
+    ? string
+    : S extends { readonly type: 'number' | 'integer' | 'duration' }
+      ? number
+      : S extends { readonly type: 'boolean' }
+        ? boolean
+        : S extends { readonly type: 'array'; readonly items: infer I }
+          ? InferConfigSchema<I>[]
+          : S extends { readonly type: 'object'; readonly properties: infer P }
+            ? InferConfigObject<
+                P,
+                S extends { readonly required: readonly (infer R)[] } ? R : never
+              >
+            : unknown;
+
+type InferConfigObject<P, R> = {
+  -readonly [K in keyof P as K extends R ? K : never]: InferConfigSchema<P[K]>;
+} & {
+  -readonly [K in keyof P as K extends R ? never : K]?: InferConfigSchema<P[K]>;
+};
+
+export interface ConfigValidationIssue {
+  // Dotted path, e.g. 'database.port'
+  path: string;
+  message: string;
+  source?: ConfigSource;
+}
+
+export class ConfigValidationError extends Error {
+  readonly issues: ConfigValidationIssue[];
+
+  constructor(issues: ConfigValidationIssue[]) {
+    super(`Invalid configuration: ${issues.map(formatConfigIssue).join('; ')}`);
+    this.name = 'ConfigValidationError';
+    this.issues = issues;
+  }
+}
+
+export const formatConfigIssue = (issue: ConfigValidationIssue): string => {
+  const origin = issue.source?.origin ? ` (from ${issue.source.origin})` : '';
+  return `${issue.path} ${issue.message}${origin}`;
+};
+
+const NSM_CLASSIFICATIONS = ['ÅPEN', 'BEGRENSET', 'KONFIDENSIELT', 'HEMMELIG'] as const;
+const LANGUAGES = ['nb', 'nn', 'en'] as const;
+const LOG_LEVELS = ['debug', 'info', 'warn', 'error', 'audit'] as const;
+const RETENTION_PERIOD = {
+  type: 'string',
+  // At least one component, so a bare P is rejected
+  pattern: '^P(?=\\d)(\\d+Y)?(\\d+M)?(\\d+W)?(\\d+D)?$',
+} as const;
+
+export const loggerModuleConfigSchema = {
+  type: 'object',
+  properties: {
+    enabled: { type: 'boolean' },
+    level: { type: 'string', enum: LOG_LEVELS },
+    nsmClassification: { type: 'string', enum: NSM_CLASSIFICATIONS },
+  },
+} as const;
+
+export const i18nModuleConfigSchema = {
+  type: 'object',
+  properties: {
+    enabled: { type: 'boolean' },
+    defaultLanguage: { type: 'string', enum: LANGUAGES },
+    supportedLanguages: { type: 'array', items: { type: 'string', enum: LANGUAGES }, minItems: 1 },
+  },
+} as const;
+
+export const healthcheckModuleConfigSchema = {
+  type: 'object',
+  properties: {
+    enabled: { type: 'boolean' },
+    interval: { type: 'duration', minimum: 1000 },
+    complianceValidation: { type: 'boolean' },
+  },
+} as const;
+
+export type LoggerModuleConfig = InferConfigSchema<typeof loggerModuleConfigSchema>;
+export type I18nModuleConfig = InferConfigSchema<typeof i18nModuleConfigSchema>;
+export type HealthcheckModuleConfig = InferConfigSchema<typeof healthcheckModuleConfigSchema>;
+
+// Every module section may be switched off; unregistered modules are otherwise unchecked
+const moduleConfigSchema: ConfigSchema = {
+  type: 'object',
+  properties: { enabled: { type: 'boolean' } },
+};
+
+export const foundationConfigSchema: ConfigSchema = {
+  type: 'object',
+  properties: {
+    environment: { type: 'string' },
+    platform: { type: 'string', enum: ['web', 'mobile', 'desktop', 'api'] },
+    municipality: { type: 'string', pattern: '^\\d{4}$' },
+    language: { type: 'string', enum: LANGUAGES },
+    norwegianCompliance: {
+      type: 'object',
+      nullable: true,
+      properties: {
+        nsm: {
+          type: 'object',
+          properties: {
+            securityClassification: { type: 'string', enum: NSM_CLASSIFICATIONS },
+            auditRequired: { type: 'boolean' },
+            encryptionRequired: { type: 'boolean' },
+          },
+        },
+        gdpr: {
+          type: 'object',
+          properties: {
+            enabled: { type: 'boolean' },
+            dataProcessingBasis: {
+              type: 'string',
+              enum: [
+                'consent',
+                'contract',
+                'legal_obligation',
+                'vital_interests',
+                'public_task',
+                'legitimate_interests',
+              ],
+            },
+            retentionPeriod: RETENTION_PERIOD,
+            privacyByDesign: { type: 'boolean' },
+          },
+        },
+        digdir: {
+          type: 'object',
+          properties: {
+            interoperabilityStandards: { type: 'boolean' },
+            accessibilityLevel: { type: 'string', enum: ['A', 'AA', 'AAA'] },
+            dataFormats: { type: 'array', items: { type: 'string' } },
+          },
+        },
+      },
+    },
+    security: {
+      type: 'object',
+      properties: {
+        encryption: {
+          type: 'object',
+          properties: {
+            enabled: { type: 'boolean' },
+            algorithm: { type: 'string' },
+            keyRotationEnabled: { type: 'boolean' },
+          },
+        },
+        authentication: {
+          type: 'object',
+          properties: {
+            mfaRequired: { type: 'boolean' },
+            sessionTimeout: { type: 'duration', unit: 's', minimum: 1 },
+          },
+        },
+        accessControl: {
+          type: 'object',
+          properties: {
+            enabled: { type: 'boolean' },
+            rbacEnabled: { type: 'boolean' },
+            permissionModel: { type: 'string' },
+          },
+        },
+        auditTrail: {
+          type: 'object',
+          properties: {
+            enabled: { type: 'boolean' },
+            retentionPeriod: RETENTION_PERIOD,
+            logAllAccess: { type: 'boolean' },
+          },
+        },
+      },
+    },
+    database: {
+      type: 'object',
+      properties: {
+        host: { type: 'string' },
+        port: { type: 'integer', minimum: 1, maximum: 65535 },
+        database: { type: 'string' },
+        user: { type: 'string' },
+        password: { type: 'string' },
+        ssl: { type: 'boolean' },
+      },
+    },
+    logging: {
+      type: 'object',
+      properties: {
+        level: { type: 'string', enum: LOG_LEVELS },
+        auditEnabled: { type: 'boolean' },
+        complianceLogging: { type: 'boolean' },
+        structuredLogging: { type: 'boolean' },
+      },
+    },
+    compliance: {
+      type: 'object',
+      properties: {
+        nsmClassification: { type: 'string', enum: NSM_CLASSIFICATIONS },
+        gdprEnabled: { type: 'boolean' },
+        auditRequired: { type: 'boolean' },
+        retentionPeriod: RETENTION_PERIOD,
+        norwegian: { type: 'boolean' },
+        nsm: { type: 'boolean' },
+        gdpr: { type: 'boolean' },
+        encryption: { type: 'boolean' },
+      },
+    },
+    modules: { type: 'object', additionalProperties: moduleConfigSchema },
+    features: { type: 'object', additionalProperties: { type: 'boolean' } },
+    i18n: {
+      type: 'object',
+      properties: {
+        supportedLanguages: { type: 'array', items: { type: 'string' }, minItems: 1 },
+        defaultLanguage: { type: 'string' },
+        fallbackLanguage: { type: 'string' },
+      },
+    },
+    norwegian: {
+      type: 'object',
+      properties: {
+        municipality: { type: 'string', pattern: '^\\d{4}$' },
+        digdirIntegration: { type: 'boolean' },
+        idPortenReady: { type: 'boolean' },
+      },
+    },
+    tenants: {
+      type: 'object',
+      additionalProperties: {
+        type: 'object',
+        properties: {
+          language: { type: 'string', enum: LANGUAGES },
+          nsmClassification: { type: 'string', enum: NSM_CLASSIFICATIONS },
+          altinnServiceOwner: { type: 'string' },
+        },
+      },
+    },
+  },
+};
+
+const moduleSchemas = new Map<string, ConfigSchema>([
+  ['logger', loggerModuleConfigSchema],
+  ['i18n', i18nModuleConfigSchema],
+  ['healthcheck', healthcheckModuleConfigSchema],
+]);
+
+// Register the schema of a module's modules.<name> section; registering a name again replaces it
+export const registerModuleConfigSchema = (name: string, schema: ConfigSchema): void => {
+  moduleSchemas.set(name, schema);
+};
+
+export const unregisterModuleConfigSchema = (name: string): boolean => {
+  return moduleSchemas.delete(name);
+};
+
+// The foundation schema with every registered module fragment in place
+export const getFoundationConfigSchema = (): ConfigSchema => {
+  const modules: Record<string, ConfigSchema> = {};
+  moduleSchemas.forEach((schema, name) => {
+    modules[name] = {
+      ...schema,
+      properties: { ...moduleConfigSchema.properties, ...schema.properties },
+    };
+  });
+
+  return {
+    ...foundationConfigSchema,
+    properties: {
+      ...foundationConfigSchema.properties,
+      modules: { type: 'object', properties: modules, additionalProperties: moduleConfigSchema },
+    },
+  };
+};
+
+// Security sections that configurations written by older `foundation setup` versions set to a
+// boolean, e.g. security.encryption: true
+const LEGACY_SECURITY_FLAGS = ['encryption', 'accessControl', 'auditTrail'];
+
+// Rewrite legacy boolean security sections as { enabled } so they validate against the schema
+export const upgradeLegacyConfig = (values: Record<string, unknown>): Record<string, unknown> => {
+  const security = values.security;
+  if (!isPlainObject(security)) return values;
+
+  const legacy = LEGACY_SECURITY_FLAGS.filter(key => typeof security[key] === 'boolean');
+  if (legacy.length === 0) return values;
+
+  const upgraded = { ...security };
+  legacy.forEach(key => (upgraded[key] = { enabled: security[key] }));
+  return { ...values, security: upgraded };
+};
+
+// Validate a value against a schema, returning a coerced copy and every issue with its path
+export const validateConfigSchema = (
+  schema: ConfigSchema,
+  value: unknown,
+  path = ''
+): { value: unknown; issues: ConfigValidationIssue[] } => {
+  const issues: ConfigValidationIssue[] = [];
+  const fail = (message: string) => {
+    issues.push({ path: path || '$', message: `${message}, got ${describeValue(value)}` });
+    return { value, issues };
+  };
+
+  if (value === null) {
+    return schema.nullable ? { value, issues } : fail(`must be ${expectedType(schema)}`);
+  }
+
+  const coerced = coerceConfigValue(schema, value);
+  if (coerced === undefined) {
+    return fail(`must be ${expectedType(schema)}`);
+  }
+
+  if (schema.enum && !schema.enum.some(option => option === coerced)) {
+    return fail(`must be one of ${schema.enum.map(String).join(', ')}`);
+  }
+
+  if (typeof coerced === 'string' && schema.pattern && !new RegExp(schema.pattern).test(coerced)) {
+    return fail(`must match ${schema.pattern}`);
+  }
+
+  if (typeof coerced === 'number') {
+    if (schema.minimum !== undefined && coerced < schema.minimum) {
+      return fail(`must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && coerced > schema.maximum) {
+      return fail(`must be at most ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(coerced)) {
+    if (schema.minItems !== undefined && coerced.length < schema.minItems) {
+      return fail(`must contain at least ${schema.minItems} items`);
+    }
+    const itemSchema = schema.items;
+    if (!itemSchema) return { value: coerced, issues };
+
+    const items = coerced.map((item, index) => {
+      const result = validateConfigSchema(itemSchema, item, joinPath(path, String(index)));
+      issues.push(...result.issues);
+      return result.value;
+    });
+    return { value: items, issues };
+  }
+
+  if (isPlainObject(coerced)) {
+    const properties = schema.properties || {};
+    const result: Record<string, unknown> = {};
+
+    for (const key of schema.required || []) {
+      if (coerced[key] === undefined) {
+        issues.push({ path: joinPath(path, key), message: 'is required' });
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(coerced)) {
+      const propertySchema =
+        properties[key] ??
+        (typeof schema.additionalProperties === 'object' ? schema.additionalProperties : undefined);
+
+      if (propertySchema && propertyValue !== undefined) {
+        const property = validateConfigSchema(propertySchema, propertyValue, joinPath(path, key));
+        issues.push(...property.issues);
+        result[key] = property.value;
+      } else if (!propertySchema && schema.additionalProperties === false) {
+        issues.push({ path: joinPath(path, key), message: 'is not allowed' });
+      } else {
+        result[key] = propertyValue;
+      }
+    }
+    return { value: result, issues };
+  }
+
+  return { value: coerced, issues };
+};
+
+// Read an environment variable through a schema, throwing a ConfigValidationError naming the
+// variable instead of passing on NaN or a misspelt value
+export const readConfigVariable = <S extends ConfigSchema>(
+  name: string,
+  schema: S,
+  fallback: InferConfigSchema<S>,
+  path: string
+): InferConfigSchema<S> => {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+
+  const { value, issues } = validateConfigSchema(schema, raw, path);
+  if (issues.length > 0) {
+    throw new ConfigValidationError(
+      issues.map(issue => ({ ...issue, source: { layer: 'defaults', origin: name } }))
+    );
+  }
+  return value as InferConfigSchema<S>;
+};
+
+// Convert a value to the schema type, or undefined when it cannot be
+function coerceConfigValue(schema: ConfigSchema, value: unknown): unknown {
+  switch (schema.type) {
+    case 'string':
+      // YAML scalars such as municipality: 1103 are parsed as numbers
+      if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+      return typeof value === 'string' ? value : undefined;
+    case 'number':
+    case 'integer': {
+      const number = typeof value === 'string' ? parseNumber(value) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) return undefined;
+      return schema.type === 'integer' && !Number.isInteger(number) ? undefined : number;
+    }
+    case 'boolean':
+      return parseBoolean(value);
+    case 'duration': {
+      if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+      if (typeof value !== 'string') return undefined;
+      const number = parseNumber(value);
+      if (number !== undefined) return number;
+      const milliseconds = parseDuration(value);
+      return milliseconds === undefined
+        ? undefined
+        : milliseconds / (schema.unit === 's' ? 1000 : 1);
+    }
+    case 'array':
+      // Comma separated lists, e.g. FOUNDATION__I18N__SUPPORTED_LANGUAGES=nb,nn
+      if (typeof value === 'string' && schema.items?.type !== 'object') {
+        return value.split(',').map(item => item.trim());
+      }
+      return Array.isArray(value) ? value : undefined;
+    case 'object':
+      return isPlainObject(value) ? value : undefined;
+    default:
+      return value;
+  }
+}
+
+function parseNumber(value: string): number | undefined {
+  return /^[-+]?\d+(\.\d+)?([eE][-+]?\d+)?$/.test(value.trim()) ? Number(value) : undefined;
+}
+
+function parseBoolean(value: unknown): boolean | undefined {
+  if (typeof value === 'boolean') return value;
+  const text = String(value).trim().toLowerCase();
+  if (['true', 'yes', 'on', '1'].includes(text)) return true;
+  if (['false', 'no', 'off', '0'].includes(text)) return false;
+  return undefined;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+};
+
+// '500ms', '30s', '5m', '2h', '1d' or an ISO 8601 duration such as 'PT1H30M', in milliseconds
+function parseDuration(value: string): number | undefined {
+  const text = value.trim();
+  const simple = /^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)$/.exec(text);
+  if (simple) return Number(simple[1]) * DURATION_UNITS[simple[2]];
+
+  const iso = /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/.exec(text);
+  if (!iso || text === 'P' || text.endsWith('T')) return undefined;
+  const [, days = 0, hours = 0, minutes = 0, seconds = 0] = iso;
+  return (
+    Number(days) * DURATION_UNITS.d +
+    Number(hours) * DURATION_UNITS.h +
+    Number(minutes) * DURATION_UNITS.m +
+    Number(seconds) * DURATION_UNITS.s
+  );
+}
+
+function expectedType(schema: ConfigSchema): string {
+  switch (schema.type) {
+    case 'integer':
+    case 'array':
+    case 'object':
+      return `an ${schema.type}`;
+    case 'duration':
+      return 'a duration such as 30s, 5m or PT1H';
+    case undefined:
+      return 'set';
+    default:
+      return `a ${schema.type}`;
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (Array.isArray(value)) return 'an array';
+  if (isPlainObject(value)) return 'an object';
+  return String(value);
+}
+
+const joinPath = (path: string, key: string): string => (path ? `${path}.${key}` : key);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
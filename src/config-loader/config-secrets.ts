@@ -0,0 +1,328 @@
+/**
+ * Configuration Secrets
+ * ${scheme:reference} resolution through pluggable secret providers, AES-256-GCM encrypted enc:
+ * values, and redaction of secrets when configuration is logged or serialized
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import { basename, join } from 'path';
+import { inspect } from 'util';
+
+import type { ConfigValidationIssue } from './config-schema';
+
+export interface SecretProvider {
+  // Value of the referenced secret, or undefined when the provider does not have it
+  resolve(reference: string): string | undefined;
+}
+
+export class ConfigSecretError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigSecretError';
+  }
+}
+
+export const REDACTED = '[REDACTED]';
+export const ENCRYPTED_VALUE_PREFIX = 'enc:v1:';
+export const DEFAULT_SECRETS_DIRECTORY = '/run/secrets';
+
+const ENCRYPTION_ALGORITHM = 'aes-256-gcm';
+const REFERENCE_PATTERN = /\$\{([a-z][\w-]*):([^}]+)\}/g;
+const ENCRYPTED_VALUE_PATTERN =
+  /enc:v1:[0-9a-f]{8}:[A-Za-z0-9+/=]+:[A-Za-z0-9+/=]+:[A-Za-z0-9+/=]*/g;
+// Keys whose values are redacted even when they are written in plain text
+const SENSITIVE_KEY = /password|passwd|secret|token|api_?key|private_?key|credential/i;
+
+// ${env:NAME}
+export const createEnvSecretProvider = (env?: NodeJS.ProcessEnv): SecretProvider => ({
+  resolve: name => (env || process.env)[name],
+});
+
+// ${file:/run/secrets/x} reads the file; with a directory, ${secret:x} reads a file in it. A
+// single trailing newline is dropped.
+export const createFileSecretProvider = (directory?: string): SecretProvider => ({
+  resolve: reference => {
+    if (directory && basename(reference) !== reference) return undefined;
+    const filename = directory ? join(directory, reference) : reference;
+    return existsSync(filename) ? readFileSync(filename, 'utf-8').replace(/\r?\n$/, '') : undefined;
+  },
+});
+
+export const createStaticSecretProvider = (secrets: Record<string, string>): SecretProvider => ({
+  resolve: name => secrets[name],
+});
+
+// ${secret:name} reads Docker and Kubernetes style secret files from FOUNDATION_SECRETS_DIR
+const defaultSecretProviders = new Map<string, SecretProvider>([
+  ['env', createEnvSecretProvider()],
+  ['file', createFileSecretProvider()],
+  [
+    'secret',
+    {
+      resolve: name =>
+        createFileSecretProvider(
+          process.env['FOUNDATION_SECRETS_DIR'] || DEFAULT_SECRETS_DIRECTORY
+        ).resolve(name),
+    },
+  ],
+]);
+const secretProviders = new Map<string, SecretProvider>();
+
+// Resolve ${scheme:reference} with a provider; registering env, file or secret replaces the default
+export const registerSecretProvider = (scheme: string, provider: SecretProvider): void => {
+  secretProviders.set(scheme, provider);
+};
+
+// Remove a provider; env, file and secret fall back to their defaults
+export const unregisterSecretProvider = (scheme: string): boolean => {
+  return secretProviders.delete(scheme);
+};
+
+export const generateConfigKey = (): string => randomBytes(32).toString('base64');
+
+// FOUNDATION_CONFIG_KEY encrypts and decrypts; FOUNDATION_CONFIG_PREVIOUS_KEYS, comma separated,
+// decrypt values that have not been rotated yet
+export const readConfigKeys = (env: NodeJS.ProcessEnv = process.env): string[] => {
+  return [
+    env['FOUNDATION_CONFIG_KEY'],
+    ...(env['FOUNDATION_CONFIG_PREVIOUS_KEYS'] || '').split(','),
+  ]
+    .map(key => key?.trim())
+    .filter((key): key is string => Boolean(key));
+};
+
+export const isEncryptedValue = (value: unknown): value is string => {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_VALUE_PREFIX);
+};
+
+// enc:v1:<key id>:<iv>:<auth tag>:<ciphertext>, with a fresh IV for every value
+export const encryptConfigValue = (plaintext: string, key: string): string => {
+  const keyBuffer = parseKey(key);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ENCRYPTION_ALGORITHM, keyBuffer, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [
+    `${ENCRYPTED_VALUE_PREFIX}${keyId(keyBuffer)}`,
+    iv.toString('base64'),
+    cipher.getAuthTag().toString('base64'),
+    ciphertext.toString('base64'),
+  ].join(':');
+};
+
+// Decrypt with whichever of the keys the value was encrypted with
+export const decryptConfigValue = (value: string, keys: string[]): string => {
+  const [, , id, iv, tag, ciphertext] = value.split(':');
+  if (!isEncryptedValue(value) || ciphertext === undefined) {
+    throw new ConfigSecretError('Malformed encrypted value');
+  }
+
+  const key = keys.map(parseKey).find(candidate => keyId(candidate) === id);
+  if (!key) {
+    throw new ConfigSecretError(
+      `No configuration key with id ${id}; set FOUNDATION_CONFIG_KEY or FOUNDATION_CONFIG_PREVIOUS_KEYS`
+    );
+  }
+
+  try {
+    const decipher = createDecipheriv(ENCRYPTION_ALGORITHM, key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, 'base64')),
+      decipher.final(),
+    ]).toString('utf8');
+  } catch {
+    throw new ConfigSecretError(`Encrypted value could not be decrypted with key ${id}`);
+  }
+};
+
+// Re-encrypt every enc: value in the text of a configuration file with a new key, leaving the
+// rest of the file untouched
+export const rotateEncryptedValues = (
+  text: string,
+  keys: string[],
+  newKey: string
+): { text: string; rotated: number } => {
+  let rotated = 0;
+  const result = text.replace(ENCRYPTED_VALUE_PATTERN, value => {
+    rotated++;
+    return encryptConfigValue(decryptConfigValue(value, keys), newKey);
+  });
+  return { text: result, rotated };
+};
+
+function parseKey(key: string): Buffer {
+  const buffer = Buffer.from(key, 'base64');
+  if (buffer.length !== 32) {
+    throw new ConfigSecretError('Configuration encryption keys must be 32 bytes encoded as base64');
+  }
+  return buffer;
+}
+
+function keyId(key: Buffer): string {
+  return createHash('sha256').update(key).digest('hex').slice(0, 8);
+}
+
+// Resolve references and decrypt enc: values throughout a configuration. Returns a copy, the
+// dotted paths that hold secrets, and an issue for every value that could not be resolved.
+export const resolveConfigSecrets = (
+  config: Record<string, unknown>,
+  keys: string[]
+): { config: Record<string, unknown>; secretPaths: string[]; issues: ConfigValidationIssue[] } => {
+  const secretPaths: string[] = [];
+  const issues: ConfigValidationIssue[] = [];
+
+  const resolveString = (value: string, path: string): string => {
+    let resolved = value.replace(REFERENCE_PATTERN, (reference, scheme: string, name: string) => {
+      const provider = secretProviders.get(scheme) || defaultSecretProviders.get(scheme);
+      if (!provider) {
+        issues.push({ path, message: `uses unknown secret provider '${scheme}'` });
+        return reference;
+      }
+
+      let secret: string | undefined;
+      try {
+        secret = provider.resolve(name.trim());
+      } catch (error) {
+        issues.push({
+          path,
+          message: `could not resolve ${reference}: ${(error as Error).message}`,
+        });
+        return reference;
+      }
+      if (secret === undefined) {
+        issues.push({ path, message: `could not resolve ${reference}` });
+        return reference;
+      }
+      return secret;
+    });
+
+    if (isEncryptedValue(resolved)) {
+      try {
+        resolved = decryptConfigValue(resolved, keys);
+      } catch (error) {
+        issues.push({ path, message: (error as Error).message });
+      }
+    }
+
+    if (resolved !== value) secretPaths.push(path);
+    return resolved;
+  };
+
+  const walk = (value: unknown, path: string): unknown => {
+    if (typeof value === 'string') return resolveString(value, path);
+    if (Array.isArray(value)) return value.map((item, index) => walk(item, `${path}.${index}`));
+    if (!isPlainObject(value)) return value;
+
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+      result[key] = walk(child, path ? `${path}.${key}` : key);
+    }
+    return result;
+  };
+
+  return { config: walk(config, '') as Record<string, unknown>, secretPaths, issues };
+};
+
+// Secret paths relative to every object that was protected
+const protectedSecretPaths = new WeakMap<object, Set<string>>();
+
+// Redact secrets whenever the configuration, or a section holding a secret, is passed to
+// JSON.stringify, util.inspect or console.log. The values themselves stay readable.
+export const protectConfigSecrets = <T extends Record<string, unknown>>(
+  config: T,
+  secretPaths: string[]
+): T => {
+  const protect = (target: object, paths: Set<string>): void => {
+    protectedSecretPaths.set(target, paths);
+    Object.defineProperty(target, 'toJSON', {
+      value: () => redactConfig(target),
+      enumerable: false,
+      configurable: true,
+    });
+    Object.defineProperty(target, inspect.custom, {
+      value: (_depth: number, options: object) => inspect(redactConfig(target), options),
+      enumerable: false,
+      configurable: true,
+    });
+  };
+
+  protect(config, new Set(secretPaths));
+
+  // Sections such as config.database are protected with the paths below them, including
+  // plain text values under keys such as password
+  const sections = new Map<object, Set<string>>();
+  for (const path of [...secretPaths, ...sensitivePaths(config)]) {
+    const segments = path.split('.');
+    for (let length = 1; length < segments.length; length++) {
+      const section = getPath(config, segments.slice(0, length));
+      if (!isPlainObject(section) && !Array.isArray(section)) continue;
+      if (!sections.has(section)) sections.set(section, new Set());
+      sections.get(section)?.add(segments.slice(length).join('.'));
+    }
+  }
+  sections.forEach((paths, section) => protect(section, paths));
+
+  return config;
+};
+
+// Paths of strings under keys such as password or apiKey
+function sensitivePaths(value: unknown, path = ''): string[] {
+  if (!isPlainObject(value) && !Array.isArray(value)) return [];
+  return Object.entries(value).flatMap(([key, child]) => {
+    const childPath = joinPath(path, key);
+    if (typeof child === 'string') return SENSITIVE_KEY.test(key) ? [childPath] : [];
+    return sensitivePaths(child, childPath);
+  });
+}
+
+// Whether the value at a dotted path is a secret: resolved from a reference, decrypted, or
+// stored under a key such as password or apiKey
+export const isSecretConfigPath = (config: object, path: string): boolean => {
+  const key = path.split('.').pop() || '';
+  return Boolean(protectedSecretPaths.get(config)?.has(path)) || SENSITIVE_KEY.test(key);
+};
+
+// Copy of a configuration, or a section of one, with every secret replaced by [REDACTED]
+export const redactConfig = <T>(value: T): T => {
+  const secretPaths =
+    typeof value === 'object' && value !== null ? protectedSecretPaths.get(value) : undefined;
+
+  const walk = (current: unknown, relative: string, key: string): unknown => {
+    if (
+      relative &&
+      (secretPaths?.has(relative) || (SENSITIVE_KEY.test(key) && typeof current === 'string'))
+    ) {
+      return REDACTED;
+    }
+    if (Array.isArray(current)) {
+      return current.map((item, index) => walk(item, joinPath(relative, String(index)), key));
+    }
+    if (!isPlainObject(current)) return current;
+
+    const result: Record<string, unknown> = {};
+    for (const [childKey, child] of Object.entries(current)) {
+      result[childKey] = walk(child, joinPath(relative, childKey), childKey);
+    }
+    return result;
+  };
+
+  return walk(value, '', '') as T;
+};
+
+const joinPath = (path: string, key: string): string => (path ? `${path}.${key}` : key);
+
+function getPath(value: unknown, segments: string[]): unknown {
+  return segments.reduce<unknown>(
+    (current, key) =>
+      isPlainObject(current) || Array.isArray(current)
+        ? (current as Record<string, unknown>)[key]
+        : undefined,
+    value
+  );
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
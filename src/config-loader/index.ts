@@ -3,24 +3,76 @@
  * Centralized configuration management for Norwegian government-compliant applications
  */
 
+import {
+  ConfigLayerValues,
+  ConfigSource,
+  lookupConfigSource,
+  mergeConfigLayers,
+  readConfigFiles,
+  readEnvironmentLayer,
+} from './config-layers';
+import {
+  ConfigValidationError,
+  ConfigValidationIssue,
+  HealthcheckModuleConfig,
+  I18nModuleConfig,
+  LoggerModuleConfig,
+  getFoundationConfigSchema,
+  readConfigVariable,
+  upgradeLegacyConfig,
+  validateConfigSchema,
+} from './config-schema';
+import {
+  REDACTED,
+  protectConfigSecrets,
+  readConfigKeys,
+  resolveConfigSecrets,
+} from './config-secrets';
+import { getMunicipality, isMunicipalityCode } from './municipalities';
+import type { TenantOverrides } from './tenant-config';
+
+export * from './config-layers';
+export * from './config-manager';
+export * from './config-schema';
+export * from './config-secrets';
+export * from './municipalities';
+export * from './tenant-config';
+export * from './yaml';
+
 // Core configuration types and interfaces
 export interface ConfigOptions {
   environment?: string;
+  // Directory holding foundation.config.* files, or the base file itself; defaults to the
+  // working directory
   configPath?: string;
   enableNorwegianCompliance?: boolean;
+  // Kommune number of the tenant whose foundation.tenant.<code>.config.* file is applied over the
+  // environment file; also sets municipality
+  tenant?: string;
+  // Applied last, over files and environment variables
+  overrides?: DeepPartial<FoundationConfig>;
+  // Base64 keys that decrypt enc: values; defaults to FOUNDATION_CONFIG_KEY and
+  // FOUNDATION_CONFIG_PREVIOUS_KEYS
+  encryptionKeys?: string[];
 }
 
+export type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends Record<string, unknown> ? DeepPartial<T[K]> : T[K];
+};
+
 export interface FoundationConfig {
   environment: string;
   municipality?: string;
   language?: string;
   norwegianCompliance: ReturnType<typeof getNorwegianComplianceConfig> | null;
   securityConfig: ReturnType<typeof getSecurityConfig>;
-  database: ReturnType<typeof getDatabaseConfig>;
+  database: ReturnType<typeof getDatabaseConfig> & { user?: string; password?: string };
   logging: ReturnType<typeof getLoggingConfig>;
+  platform?: 'web' | 'mobile' | 'desktop' | 'api';
   compliance?: {
     nsmClassification?: string;
     gdprEnabled?: boolean;
+    auditRequired?: boolean;
     retentionPeriod?: string;
     norwegian?: boolean;
     nsm?: boolean;
@@ -28,12 +80,7 @@ export interface FoundationConfig {
     encryption?: boolean;
   };
   security?: ReturnType<typeof getSecurityConfig>;
-  modules?: {
-    [key: string]: {
-      enabled?: boolean;
-      [key: string]: unknown;
-    };
-  };
+  modules?: FoundationModules;
   features?: {
     [key: string]: boolean;
   };
@@ -41,33 +88,189 @@ export interface FoundationConfig {
     supportedLanguages?: string[];
     defaultLanguage?: string;
     fallbackLanguage?: string;
-    [key: string]: unknown;
   };
   norwegian?: {
+    municipality?: string;
     digdirIntegration?: boolean;
     idPortenReady?: boolean;
   };
+  // Per-municipality settings by kommune number, served by the TenantConfigRegistry
+  tenants?: Record<string, TenantOverrides>;
+}
+
+// Section of a module without a registered type; registered modules are typed below
+export interface ModuleConfig {
+  enabled?: boolean;
+  [setting: string]: unknown;
+}
+
+// modules.<name> sections by module name. Modules add their section with declaration merging and
+// register a matching schema with registerModuleConfigSchema.
+export interface FoundationModuleConfigs {
+  logger: LoggerModuleConfig;
+  i18n: I18nModuleConfig;
+  healthcheck: HealthcheckModuleConfig;
 }
 
-// Main configuration loader function
+export type FoundationModules = {
+  [K in keyof FoundationModuleConfigs]?: FoundationModuleConfigs[K];
+} & {
+  [name: string]: ModuleConfig | undefined;
+};
+
+// Legacy environment variables read by the default getters, by the path they set
+const LEGACY_ENV_VARIABLES: Record<string, string> = {
+  NSM_CLASSIFICATION: 'norwegianCompliance.nsm.securityClassification',
+  DB_HOST: 'database.host',
+  DB_PORT: 'database.port',
+  DB_NAME: 'database.database',
+  LOG_LEVEL: 'logging.level',
+};
+
+// Sources of each loaded configuration by dotted path, kept as long as the configuration is
+const configSources = new WeakMap<object, Map<string, ConfigSource>>();
+
+// Main configuration loader function. Layers apply in order: defaults, foundation.config.*,
+// foundation.<environment>.config.*, the tenant, FOUNDATION__ environment variables, then overrides.
+// The result is validated against the foundation schema and every problem is reported at once
+// in a ConfigValidationError.
 export const loadConfig = (options: ConfigOptions = {}): FoundationConfig => {
   const {
     environment = process.env['NODE_ENV'] || 'development',
     enableNorwegianCompliance = true,
   } = options;
+  const issues: ConfigValidationIssue[] = [];
 
-  const securityConfig = getSecurityConfig();
-
-  return {
+  const defaults: Record<string, unknown> = {
     environment,
     norwegianCompliance: enableNorwegianCompliance ? getNorwegianComplianceConfig() : null,
-    securityConfig,
-    security: securityConfig, // Alias for backward compatibility
-    database: getDatabaseConfig(),
+    security: getSecurityConfig(),
+    database: collectIssues(getDatabaseConfig, issues),
     logging: getLoggingConfig(),
   };
+
+  // Former kommune numbers load the tenant under its current number. An unknown tenant is
+  // reported as an invalid municipality and no tenant file is read.
+  const tenant = options.tenant && (getMunicipality(options.tenant)?.code || options.tenant);
+  const tenantFile = tenant && isMunicipalityCode(tenant) ? tenant : undefined;
+
+  const layers: ConfigLayerValues[] = [
+    { layer: 'defaults', values: defaults, origins: legacyEnvironmentOrigins() },
+    ...readConfigFiles(options.configPath || process.cwd(), environment, tenantFile),
+    ...(tenant ? [{ layer: 'tenant' as const, values: { municipality: tenant } }] : []),
+    readEnvironmentLayer(process.env, defaults),
+    { layer: 'override', values: (options.overrides || {}) as Record<string, unknown> },
+  ];
+
+  const { config, sources } = mergeConfigLayers(
+    layers.map(layer => ({
+      ...layer,
+      values: upgradeLegacyConfig(withSecurityAlias(layer.values)),
+    }))
+  );
+
+  // Secrets are resolved first so that referenced values are validated and coerced too
+  const secrets = resolveConfigSecrets(config, options.encryptionKeys || readConfigKeys());
+  const validated = validateConfigSchema(getFoundationConfigSchema(), secrets.config);
+  issues.push(
+    ...[
+      ...secrets.issues,
+      ...validated.issues,
+      ...municipalityIssues(validated.value as Record<string, unknown>, validated.issues),
+    ].map(issue => ({
+      ...issue,
+      // Invalid secrets are reported without their value
+      message: secrets.secretPaths.includes(issue.path)
+        ? issue.message.replace(/, got .*$/, `, got ${REDACTED}`)
+        : issue.message,
+      source: lookupConfigSource(sources, issue.path),
+    }))
+  );
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+
+  // securityConfig is kept as an alias of security for backward compatibility
+  const values = validated.value as Record<string, unknown>;
+  const secretPaths = secrets.secretPaths.flatMap(path =>
+    path.startsWith('security.') ? [path, path.replace(/^security/, 'securityConfig')] : [path]
+  );
+  const loaded = protectConfigSecrets(
+    { ...values, securityConfig: values.security },
+    secretPaths
+  ) as FoundationConfig;
+  configSources.set(loaded, sources);
+  return loaded;
+};
+
+// Which layer set the value at a dotted path of a configuration returned by loadConfig,
+// e.g. 'security.encryption.algorithm'
+export const getConfigSource = (
+  config: FoundationConfig,
+  path: string
+): ConfigSource | undefined => {
+  const sources = configSources.get(config);
+  return (
+    sources && lookupConfigSource(sources, path.replace(/^securityConfig(?=\.|$)/, 'security'))
+  );
 };
 
+// Run a default getter, collecting its validation issues so they are reported with the rest
+function collectIssues<T>(read: () => T, issues: ConfigValidationIssue[]): T | undefined {
+  try {
+    return read();
+  } catch (error) {
+    if (!(error instanceof ConfigValidationError)) throw error;
+    issues.push(...error.issues);
+    return undefined;
+  }
+}
+
+// Codes that match the schema pattern but are not in the municipality table
+function municipalityIssues(
+  config: Record<string, unknown>,
+  schemaIssues: ConfigValidationIssue[]
+): ConfigValidationIssue[] {
+  const norwegian = config.norwegian as Record<string, unknown> | undefined;
+  const codes: Array<[string, unknown]> = [
+    ['municipality', config.municipality],
+    ['norwegian.municipality', norwegian?.municipality],
+    ...Object.keys((config.tenants as object | undefined) || {}).map((code): [string, unknown] => [
+      `tenants.${code}`,
+      code,
+    ]),
+  ];
+
+  return codes.flatMap(([path, code]) => {
+    if (typeof code !== 'string' || isMunicipalityCode(code)) return [];
+    if (schemaIssues.some(issue => issue.path === path)) return [];
+
+    const current = getMunicipality(code);
+    const message = current
+      ? `${code} is a former municipality code; use ${current.code} (${current.name})`
+      : `unknown municipality code ${code}`;
+    return [{ path, message }];
+  });
+}
+
+function legacyEnvironmentOrigins(): Record<string, string> {
+  const origins: Record<string, string> = {};
+  for (const [name, path] of Object.entries(LEGACY_ENV_VARIABLES)) {
+    if (process.env[name]) origins[path] = name;
+  }
+  return origins;
+}
+
+// Layers may set either security or its securityConfig alias
+function withSecurityAlias(values: Record<string, unknown>): Record<string, unknown> {
+  const { securityConfig, ...rest } = values;
+  if (securityConfig === undefined) return values;
+  return {
+    ...rest,
+    security: { ...(securityConfig as object), ...(rest.security as object | undefined) },
+  };
+}
+
 // Norwegian compliance configuration
 export const getNorwegianComplianceConfig = () => ({
   nsm: {
@@ -91,6 +294,7 @@ export const getNorwegianComplianceConfig = () => ({
 // Security configuration
 export const getSecurityConfig = () => ({
   encryption: {
+    enabled: true,
     algorithm: 'AES-256-GCM',
     keyRotationEnabled: true,
   },
@@ -110,10 +314,15 @@ export const getSecurityConfig = () => ({
   },
 });
 
-// Database configuration
+// Database configuration. Throws a ConfigValidationError when DB_PORT is not a valid port.
 export const getDatabaseConfig = () => ({
   host: process.env['DB_HOST'] || 'localhost',
-  port: parseInt(process.env['DB_PORT'] || '5432'),
+  port: readConfigVariable(
+    'DB_PORT',
+    { type: 'integer', minimum: 1, maximum: 65535 } as const,
+    5432,
+    'database.port'
+  ),
   database: process.env['DB_NAME'] || 'foundation',
   ssl: process.env['NODE_ENV'] === 'production',
 });
@@ -0,0 +1,138 @@
+/**
+ * Tenant Configuration
+ * Per-municipality settings for deployments that serve several kommuner
+ */
+
+import {
+  Municipality,
+  NORWEGIAN_MUNICIPALITIES,
+  getMunicipality,
+  getMunicipalitySlug,
+} from './municipalities';
+
+export interface TenantSettings {
+  // Kommune number, e.g. '4601'
+  municipality: string;
+  name: string;
+  county: string;
+  language: string;
+  nsmClassification: string;
+  // Altinn service owner, e.g. 'bergen_kommune', or 'heroy_kommune_1515' for a shared name
+  altinnServiceOwner: string;
+}
+
+// Settings a tenant may change; name and county come from the municipality table
+export type TenantOverrides = Partial<
+  Pick<TenantSettings, 'language' | 'nsmClassification' | 'altinnServiceOwner'>
+>;
+
+export interface TenantConfigRegistryOptions {
+  // Applied to every kommune, e.g. the deployment's language
+  defaults?: TenantOverrides;
+  // Settings by kommune number, typically the tenants section of the configuration
+  tenants?: Record<string, TenantOverrides>;
+}
+
+export class TenantConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TenantConfigError';
+  }
+}
+
+const DEFAULT_TENANT_SETTINGS: Required<Omit<TenantOverrides, 'altinnServiceOwner'>> = {
+  language: 'nb',
+  nsmClassification: 'BEGRENSET',
+};
+
+export class TenantConfigRegistry {
+  private defaults: TenantOverrides;
+  private tenants = new Map<string, TenantOverrides>();
+
+  constructor(options: TenantConfigRegistryOptions = {}) {
+    this.defaults = options.defaults || {};
+    Object.entries(options.tenants || {}).forEach(([code, settings]) =>
+      this.register(code, settings)
+    );
+  }
+
+  // Add or replace a tenant's settings. Former kommune numbers register the current kommune.
+  register(code: string, settings: TenantOverrides = {}): TenantSettings {
+    const municipality = requireMunicipality(code);
+    this.tenants.set(municipality.code, { ...settings });
+    return this.resolve(municipality);
+  }
+
+  unregister(code: string): boolean {
+    const municipality = getMunicipality(code);
+    return municipality ? this.tenants.delete(municipality.code) : false;
+  }
+
+  // Whether settings were registered for the kommune
+  has(code: string): boolean {
+    const municipality = getMunicipality(code);
+    return municipality ? this.tenants.has(municipality.code) : false;
+  }
+
+  // Settings of any kommune in the municipality table; unregistered kommuner get the defaults
+  get(code: string): TenantSettings | undefined {
+    const municipality = getMunicipality(code);
+    return municipality ? this.resolve(municipality) : undefined;
+  }
+
+  // Settings of every registered tenant, ordered by kommune number
+  list(): TenantSettings[] {
+    return Array.from(this.tenants.keys())
+      .sort()
+      .map(code => this.resolve(getMunicipality(code) as Municipality));
+  }
+
+  private resolve(municipality: Municipality): TenantSettings {
+    const settings = { ...this.defaults, ...this.tenants.get(municipality.code) };
+    return {
+      municipality: municipality.code,
+      name: municipality.name,
+      county: municipality.county,
+      language: settings.language || DEFAULT_TENANT_SETTINGS.language,
+      nsmClassification: settings.nsmClassification || DEFAULT_TENANT_SETTINGS.nsmClassification,
+      altinnServiceOwner: settings.altinnServiceOwner || defaultServiceOwner(municipality),
+    };
+  }
+}
+
+// Kommune names used by more than one kommune, such as Herøy (1515, 1818) and Våler (3114, 3419)
+const sharedNames = new Set(
+  NORWEGIAN_MUNICIPALITIES.filter(
+    (municipality, index, all) => all.findIndex(other => other.name === municipality.name) !== index
+  ).map(municipality => municipality.name)
+);
+
+// Kommuner sharing a name get their kommune number appended, so service owners stay unique
+function defaultServiceOwner(municipality: Municipality): string {
+  const owner = `${getMunicipalitySlug(municipality)}_kommune`;
+  return sharedNames.has(municipality.name) ? `${owner}_${municipality.code}` : owner;
+}
+
+function requireMunicipality(code: string): Municipality {
+  const municipality = getMunicipality(code);
+  if (!municipality) {
+    throw new TenantConfigError(`Unknown municipality code ${code}`);
+  }
+  return municipality;
+}
+
+// Default tenant configuration registry
+let defaultRegistry: TenantConfigRegistry;
+
+export const getTenantConfigRegistry = (): TenantConfigRegistry => {
+  if (!defaultRegistry) {
+    defaultRegistry = new TenantConfigRegistry();
+  }
+  return defaultRegistry;
+};
+
+export const createTenantConfigRegistry = (
+  options?: TenantConfigRegistryOptions
+): TenantConfigRegistry => {
+  return new TenantConfigRegistry(options);
+};
@@ -0,0 +1,229 @@
+/**
+ * YAML Parser
+ * The subset of YAML used by configuration files: block mappings and sequences, flow
+ * sequences, comments and plain, quoted, numeric, boolean and null scalars. Anchors, tags and
+ * multi-line strings are not supported.
+ */
+
+interface YamlLine {
+  number: number;
+  indent: number;
+  text: string;
+}
+
+export const parseYaml = (content: string): unknown => {
+  const lines = tokenize(content);
+  if (lines.length === 0) return null;
+
+  const [value, next] = parseBlock(lines, 0, lines[0].indent);
+  if (next < lines.length) {
+    throw yamlError(lines[next], 'unexpected indentation');
+  }
+  return value;
+};
+
+function tokenize(content: string): YamlLine[] {
+  return content
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .map((raw, index) => ({
+      number: index + 1,
+      indent: raw.length - raw.trimStart().length,
+      text: stripComment(raw).trim(),
+    }))
+    .filter(line => line.text !== '' && line.text !== '---');
+}
+
+// Remove a trailing comment that is not inside quotes
+function stripComment(raw: string): string {
+  let quote: string | undefined;
+  for (let i = 0; i < raw.length; i++) {
+    const char = raw[i];
+    if (quote) {
+      // Skip escapes in double quotes, so \" does not end the string
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(raw[i - 1]))) {
+      return raw.slice(0, i);
+    }
+  }
+  return raw;
+}
+
+const isSequenceItem = (line: YamlLine): boolean => line.text === '-' || line.text.startsWith('- ');
+
+function parseBlock(lines: YamlLine[], start: number, indent: number): [unknown, number] {
+  return isSequenceItem(lines[start])
+    ? parseSequence(lines, start, indent)
+    : parseMapping(lines, start, indent);
+}
+
+function parseSequence(lines: YamlLine[], start: number, indent: number): [unknown[], number] {
+  const items: unknown[] = [];
+  let index = start;
+
+  while (index < lines.length && lines[index].indent === indent && isSequenceItem(lines[index])) {
+    const line = lines[index];
+    const rest = line.text.slice(1).trimStart();
+
+    if (rest === '') {
+      const [value, next] = parseNested(lines, index + 1, indent);
+      items.push(value);
+      index = next;
+    } else if (splitKey(rest)) {
+      // "- key: value" starts a mapping indented to the position of its first key
+      const itemIndent = indent + (line.text.length - rest.length);
+      const itemLines = [{ ...line, indent: itemIndent, text: rest }, ...lines.slice(index + 1)];
+      const [value, consumed] = parseMapping(itemLines, 0, itemIndent);
+      items.push(value);
+      index += consumed;
+    } else {
+      items.push(parseScalar(rest, line));
+      index++;
+    }
+  }
+
+  return [items, index];
+}
+
+function parseMapping(
+  lines: YamlLine[],
+  start: number,
+  indent: number
+): [Record<string, unknown>, number] {
+  const mapping: Record<string, unknown> = {};
+  let index = start;
+
+  while (index < lines.length && lines[index].indent === indent) {
+    const line = lines[index];
+    if (isSequenceItem(line)) break;
+
+    const entry = splitKey(line.text);
+    if (!entry) {
+      throw yamlError(line, 'expected "key: value"');
+    }
+
+    const [key, rest] = entry;
+    if (rest === '') {
+      // Block sequences may sit at the same indentation as their key
+      const nested = lines[index + 1];
+      if (nested && nested.indent === indent && isSequenceItem(nested)) {
+        const [value, next] = parseSequence(lines, index + 1, indent);
+        mapping[key] = value;
+        index = next;
+      } else {
+        const [value, next] = parseNested(lines, index + 1, indent);
+        mapping[key] = value;
+        index = next;
+      }
+    } else {
+      mapping[key] = parseScalar(rest, line);
+      index++;
+    }
+  }
+
+  if (index < lines.length && lines[index].indent > indent) {
+    throw yamlError(lines[index], 'unexpected indentation');
+  }
+  return [mapping, index];
+}
+
+// Parse the block below a key or dash, or null when nothing is indented below it
+function parseNested(lines: YamlLine[], start: number, parentIndent: number): [unknown, number] {
+  if (start >= lines.length || lines[start].indent <= parentIndent) {
+    return [null, start];
+  }
+  return parseBlock(lines, start, lines[start].indent);
+}
+
+// Split "key: value" at the first colon outside quotes that ends the key
+function splitKey(text: string): [string, string] | undefined {
+  const match = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^'"\s][^:]*?)\s*:(?:\s+|$)(.*)$/.exec(text);
+  if (!match) return undefined;
+
+  const rawKey = match[1];
+  const key =
+    rawKey.startsWith('"') || rawKey.startsWith("'") ? String(unquote(rawKey)) : rawKey.trim();
+  return [key, match[2].trim()];
+}
+
+function parseScalar(text: string, line: YamlLine): unknown {
+  if (text.startsWith('"') || text.startsWith("'")) {
+    return unquote(text, line);
+  }
+
+  if (text.startsWith('[')) {
+    if (!text.endsWith(']')) throw yamlError(line, 'unterminated flow sequence');
+    const inner = text.slice(1, -1).trim();
+    return inner === '' ? [] : splitFlow(inner).map(item => parseScalar(item, line));
+  }
+
+  if (text === '{}') return {};
+  if (text.startsWith('{')) {
+    throw yamlError(line, 'flow mappings are not supported');
+  }
+
+  if (/^(null|Null|NULL|~)$/.test(text)) return null;
+  if (/^(true|True|TRUE)$/.test(text)) return true;
+  if (/^(false|False|FALSE)$/.test(text)) return false;
+  if (/^[-+]?(\d[\d_]*)(\.\d+)?([eE][-+]?\d+)?$/.test(text)) {
+    return Number(text.replace(/_/g, ''));
+  }
+  return text;
+}
+
+// Split flow sequence items on commas outside quotes and nested brackets
+function splitFlow(inner: string): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let quote: string | undefined;
+  let current = '';
+
+  let escaped = false;
+  for (const char of inner) {
+    if (escaped) {
+      escaped = false;
+    } else if (quote) {
+      if (char === '\\' && quote === '"') escaped = true;
+      else if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '[') {
+      depth++;
+    } else if (char === ']') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      items.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  items.push(current.trim());
+  return items;
+}
+
+function unquote(text: string, line?: YamlLine): unknown {
+  const quote = text[0];
+  if (text.length < 2 || !text.endsWith(quote)) {
+    throw yamlError(line, 'unterminated string');
+  }
+
+  const inner = text.slice(1, -1);
+  if (quote === "'") return inner.replace(/''/g, "'");
+
+  try {
+    return JSON.parse(`"${inner}"`);
+  } catch {
+    throw yamlError(line, 'invalid escape sequence');
+  }
+}
+
+function yamlError(line: YamlLine | undefined, message: string): Error {
+  return new Error(
+    line ? `Invalid YAML at line ${line.number}: ${message}` : `Invalid YAML: ${message}`
+  );
+}
@@ -3,7 +3,27 @@
  * Tests real-world scenarios for Norwegian government-compliant event handling
  */
 
-import { BaseEvent, EventBus, createEventBus, createEvent } from '../index';
+import { appendFileSync, existsSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { createErrorHandler } from '../../error-handler';
+import {
+  BaseEvent,
+  EventBus,
+  EVENT_DEAD_LETTER_TYPE,
+  EventValidationError,
+  FileEventStore,
+  HandlerErrorContext,
+  STOP_PROPAGATION,
+  createEventBus,
+  createEvent,
+  createEventCatalog,
+  createInMemoryEventStore,
+  createLocalTransport,
+  createUpcasterRegistry,
+  defineEvent,
+} from '../index';
 
 describe('Event Core User Stories', () => {
   let eventBus: EventBus;
@@ -408,4 +428,580 @@ describe('Event Core User Stories', () => {
     expect(finalStats.totalEvents).toBe(2);
     expect(finalStats.eventTypes).toContain('performance.metric');
   });
+
+  // User Story 9: GDPR consent service listens to dotted topic hierarchies
+  it('Topic Routing Story: should route events to wildcard and hierarchical subscribers', async () => {
+    // Given: Services subscribe with exact types, segment wildcards and multi-level wildcards
+    const everything: string[] = [];
+    const approvals: string[] = [];
+    const gdprEvents: string[] = [];
+    const exact: string[] = [];
+
+    eventBus.subscribe('*', async (event: BaseEvent) => {
+      everything.push(event.type);
+    });
+    eventBus.subscribe('case.*.approved', async (event: BaseEvent) => {
+      approvals.push(event.type);
+    });
+    eventBus.subscribe('gdpr.#', async (event: BaseEvent) => {
+      gdprEvents.push(event.type);
+    });
+    eventBus.subscribe('gdpr.consent.granted', async (event: BaseEvent) => {
+      exact.push(event.type);
+    });
+
+    // When: Events with different topics are published
+    await eventBus.publish(createEvent('gdpr.consent.granted', { citizenId: 'citizen_001' }));
+    await eventBus.publish(createEvent('case.building_permit.approved', { caseId: 'case_1' }));
+    await eventBus.publish(createEvent('case.building_permit.rejected', { caseId: 'case_2' }));
+    await eventBus.publish(createEvent('case.approved', { caseId: 'case_3' }));
+
+    // Then: Each subscriber should only receive matching topics
+    expect(everything).toHaveLength(4);
+    expect(approvals).toEqual(['case.building_permit.approved']);
+    expect(gdprEvents).toEqual(['gdpr.consent.granted']);
+    expect(exact).toEqual(['gdpr.consent.granted']);
+  });
+
+  // User Story 10: Pattern subscriptions can be removed again
+  it('Topic Unsubscribe Story: should stop routing to removed pattern subscriptions', async () => {
+    // Given: A monitoring service subscribed to all case events
+    const received: string[] = [];
+    const subscriptionId = eventBus.subscribe('case.#', async (event: BaseEvent) => {
+      received.push(event.type);
+    });
+
+    await eventBus.publish(createEvent('case.opened', { caseId: 'case_1' }));
+
+    // When: The subscription is removed
+    expect(eventBus.unsubscribe(subscriptionId)).toBe(true);
+    await eventBus.publish(createEvent('case.closed', { caseId: 'case_1' }));
+
+    // Then: Only the first event should have been received
+    expect(received).toEqual(['case.opened']);
+    expect(eventBus.getStats().totalSubscriptions).toBe(0);
+  });
+
+  // User Story 11: Read models are rebuilt by replaying the audit history
+  it('Replay Story: should re-deliver stored events to current subscribers', async () => {
+    // Given: A bus backed by an event store with historic case events
+    const eventStore = createInMemoryEventStore();
+    const bus = createEventBus({ eventStore, retryDelay: 0 });
+
+    await bus.publish(createEvent('case.opened', { caseId: 'case_1' }, { source: 'case_service' }));
+    await bus.publish(createEvent('case.closed', { caseId: 'case_1' }, { source: 'case_service' }));
+    await bus.publish(createEvent('gdpr.consent.granted', { citizenId: 'citizen_001' }));
+
+    // When: A new read model subscribes and replays case history
+    const readModel: BaseEvent[] = [];
+    bus.subscribe('case.#', async (event: BaseEvent) => {
+      readModel.push(event);
+    });
+    const replayed = await bus.replay({ types: ['case.#'] });
+
+    // Then: Only case events should be re-delivered, in order and marked as replayed
+    expect(replayed).toBe(2);
+    expect(readModel.map(event => event.type)).toEqual(['case.opened', 'case.closed']);
+    expect(readModel[0].metadata?.replayed).toBe(true);
+
+    const stored = await eventStore.read({ streamId: 'case_service' });
+    expect(stored).toHaveLength(2);
+    bus.cleanup();
+  });
+
+  // User Story 12: Audit events survive restarts in append-only segment files
+  it('Durable Audit Story: should persist events to rotating JSONL segments', async () => {
+    // Given: A file-backed event store with small segments
+    const directory = mkdtempSync(join(tmpdir(), 'foundation-events-'));
+
+    try {
+      const store = new FileEventStore({ directory, maxSegmentBytes: 600 });
+      const bus = createEventBus({ eventStore: store, retryDelay: 0 });
+
+      for (let i = 0; i < 5; i++) {
+        await bus.publish(createEvent('audit.access', { index: i }, { source: 'audit_service' }));
+      }
+      await store.saveSnapshot({
+        streamId: 'audit_service',
+        sequence: 5,
+        state: { accessCount: 5 },
+        createdAt: new Date(),
+      });
+
+      // When: The store is reopened after a restart
+      const reopened = new FileEventStore({ directory, maxSegmentBytes: 600 });
+      const stored = await reopened.read({ types: ['audit.access'] });
+      const appended = await reopened.append(createEvent('audit.access', { index: 5 }), 'audit');
+
+      // Then: Events, sequences and snapshots should be restored
+      expect(store.getSegments().length).toBeGreaterThan(1);
+      expect(stored).toHaveLength(5);
+      expect(stored.map(entry => entry.sequence)).toEqual([1, 2, 3, 4, 5]);
+      expect(stored[0].event.timestamp).toBeInstanceOf(Date);
+      expect(appended.sequence).toBe(6);
+      expect((await reopened.getSnapshot('audit_service'))?.state).toEqual({ accessCount: 5 });
+      expect(await reopened.read({ fromSequence: 5 })).toHaveLength(2);
+
+      // And: A line torn by a crash mid-append is dropped when the store reopens
+      const segments = reopened.getSegments();
+      appendFileSync(join(directory, segments[segments.length - 1]), '{"sequence":7,"str');
+      const recovered = new FileEventStore({ directory, maxSegmentBytes: 600 });
+      expect(await recovered.read()).toHaveLength(6);
+      expect((await recovered.append(createEvent('audit.access', {}), 'audit')).sequence).toBe(7);
+
+      // And: Clearing removes the store's files but not others in the directory
+      writeFileSync(join(directory, 'retention-policy.txt'), '10 years');
+      await recovered.clear();
+      expect(await recovered.read()).toHaveLength(0);
+      expect(await recovered.getSnapshot('audit_service')).toBeUndefined();
+      expect(existsSync(join(directory, 'retention-policy.txt'))).toBe(true);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  // User Story 13: Case management publishes cataloged, versioned events
+  it('Event Catalog Story: should create typed events and reject malformed payloads', async () => {
+    // Given: The case service defines the shape of case.opened
+    const catalog = createEventCatalog();
+    const bus = createEventBus({ catalog, retryDelay: 0 });
+    const CaseOpened = defineEvent(
+      'case.opened',
+      {
+        type: 'object',
+        properties: {
+          caseId: { type: 'string', minLength: 1 },
+          municipality: { type: 'string', pattern: '^[0-9]{4}$' },
+          priority: { enum: ['low', 'normal', 'high'] },
+        },
+        required: ['caseId', 'municipality'],
+        additionalProperties: false,
+      } as const,
+      { version: '1.2.0', nsmClassification: 'BEGRENSET', catalog }
+    );
+
+    const received: string[] = [];
+    CaseOpened.subscribe(async event => {
+      received.push(event.caseId);
+    }, bus);
+
+    // When: A valid event is created and published
+    const event = CaseOpened.create({ caseId: 'case_1', municipality: '0301', priority: 'high' });
+    await bus.publish(event);
+
+    // Then: The event carries the definition version and classification
+    expect(event.version).toBe('1.2.0');
+    expect(event.nsmClassification).toBe('BEGRENSET');
+    expect(received).toEqual(['case_1']);
+
+    // And: A producer that changed the payload shape is rejected at publish time
+    const malformed = createEvent('case.opened', { caseId: 42, municipality: 'Oslo' });
+    await expect(bus.publish(malformed)).rejects.toThrow(EventValidationError);
+    expect(catalog.validate(malformed).map(issue => issue.path)).toEqual([
+      '$.caseId',
+      '$.municipality',
+    ]);
+    expect(() => CaseOpened.create({ caseId: '', municipality: '0301' })).toThrow(
+      "Invalid payload for event 'case.opened'"
+    );
+    expect(received).toEqual(['case_1']);
+  });
+
+  // User Story 14: Malformed events are dead-lettered instead of breaking the publisher
+  it('Dead Letter Catalog Story: should dead-letter malformed events when configured', async () => {
+    // Given: A bus that dead-letters invalid events
+    const catalog = createEventCatalog();
+    const bus = createEventBus({ catalog, invalidEventPolicy: 'dead-letter', retryDelay: 0 });
+    defineEvent(
+      'gdpr.consent.granted',
+      {
+        type: 'object',
+        properties: { citizenId: { type: 'string' }, purpose: { type: 'string' } },
+        required: ['citizenId', 'purpose'],
+      } as const,
+      { catalog }
+    );
+
+    const consentEvents: BaseEvent[] = [];
+    const deadLetters: BaseEvent[] = [];
+    bus.subscribe('gdpr.consent.granted', async (event: BaseEvent) => {
+      consentEvents.push(event);
+    });
+    bus.subscribe(EVENT_DEAD_LETTER_TYPE, async (event: BaseEvent) => {
+      deadLetters.push(event);
+    });
+
+    // When: A consent event without purpose is published
+    await bus.publish(createEvent('gdpr.consent.granted', { citizenId: 'citizen_001' }));
+
+    // Then: Subscribers are protected and the event is dead-lettered with its issues
+    expect(consentEvents).toHaveLength(0);
+    expect(deadLetters).toHaveLength(1);
+    expect((deadLetters[0] as any).issues).toEqual([{ path: '$.purpose', message: 'is required' }]);
+    expect((deadLetters[0] as any).originalEvent.type).toBe('gdpr.consent.granted');
+  });
+
+  // User Story 15: Stored events are migrated when a payload shape changes
+  it('Upcasting Story: should chain upcasters when replaying events from history', async () => {
+    // Given: case.opened was stored as 1.0.0 and 1.1.0 before the schema reached 2.0.0
+    const catalog = createEventCatalog();
+    const upcasters = createUpcasterRegistry();
+    const eventStore = createInMemoryEventStore();
+    const errorHandler = createErrorHandler({ enableNotifications: false });
+    const handleError = jest.spyOn(errorHandler, 'handleError').mockResolvedValue('error-id');
+    const bus = createEventBus({ catalog, upcasters, eventStore, errorHandler, retryDelay: 0 });
+
+    await bus.publish(createEvent('case.opened', { caseNo: 'case_1' }, { version: '1.0.0' }));
+    await bus.publish(
+      createEvent('case.opened', { caseId: 'case_2', kommune: '0301' }, { version: '1.1.0' })
+    );
+    await bus.publish(createEvent('case.closed', { caseId: 'case_1' }, { version: '0.9.0' }));
+
+    defineEvent(
+      'case.opened',
+      {
+        type: 'object',
+        properties: { caseId: { type: 'string' }, municipality: { type: 'string' } },
+        required: ['caseId', 'municipality'],
+      } as const,
+      { version: '2.0.0', catalog }
+    );
+    defineEvent('case.closed', { type: 'object' } as const, { version: '1.0.0', catalog });
+
+    upcasters.register('case.opened', '1.0.0', '1.1.0', (event: any) => {
+      const { caseNo, ...rest } = event;
+      return { ...rest, caseId: caseNo, kommune: '0301' };
+    });
+    upcasters.register('case.opened', '1.1.0', '2.0.0', (event: any) => {
+      const { kommune, ...rest } = event;
+      return { ...rest, municipality: kommune };
+    });
+
+    // When: Operators check the upcast coverage and replay case.opened
+    const diagnostics = await bus.diagnoseUpcasting();
+    const received: any[] = [];
+    bus.subscribe('case.opened', async (event: BaseEvent) => {
+      received.push(event);
+    });
+    await bus.replay({ types: ['case.opened'] });
+
+    // Then: Old events should arrive in the current shape
+    expect(received.map(event => [event.version, event.caseId, event.municipality])).toEqual([
+      ['2.0.0', 'case_1', '0301'],
+      ['2.0.0', 'case_2', '0301'],
+    ]);
+    expect(received[0].caseNo).toBeUndefined();
+
+    // And: The missing case.closed migration should be reported
+    expect(diagnostics).toEqual([
+      {
+        eventType: 'case.closed',
+        fromVersion: '0.9.0',
+        currentVersion: '1.0.0',
+        reason: 'no-upcast-path',
+      },
+    ]);
+
+    // And: Reading the full history skips the stale event and reports it
+    const history = await bus.readHistory();
+    expect(history.map(stored => stored.event.type)).toEqual(['case.opened', 'case.opened']);
+    expect(bus.getStats().skippedEvents).toBe(1);
+    expect(handleError).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: "No upcast path for 'case.closed' from version 0.9.0 to 1.0.0",
+      }),
+      { operation: 'history_upcast', component: 'event-core' },
+      'high'
+    );
+  });
+
+  // User Story 16: Case events for the same caseId are processed in order
+  it('Ordered Delivery Story: should deliver events per caseId strictly in order', async () => {
+    // Given: A bus partitioned by caseId with a slow first handler invocation
+    const bus = createEventBus({
+      partitionKey: event => (event as any).caseId,
+      partitionConcurrency: 4,
+      retryDelay: 0,
+    });
+    const processed: string[] = [];
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    bus.subscribe('case.#', async (event: any) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, event.step === 1 ? 30 : 5));
+      processed.push(`${event.caseId}:${event.step}`);
+      inFlight--;
+    });
+
+    // When: Events for two cases are published concurrently
+    await Promise.all([
+      bus.publish(createEvent('case.opened', { caseId: 'case_a', step: 1 })),
+      bus.publish(createEvent('case.updated', { caseId: 'case_a', step: 2 })),
+      bus.publish(createEvent('case.opened', { caseId: 'case_b', step: 1 })),
+      bus.publish(createEvent('case.closed', { caseId: 'case_a', step: 3 })),
+      bus.publish(createEvent('case.closed', { caseId: 'case_b', step: 2 })),
+    ]);
+
+    // Then: Each case is processed in publish order while cases run concurrently
+    const caseA = processed.filter(entry => entry.startsWith('case_a'));
+    const caseB = processed.filter(entry => entry.startsWith('case_b'));
+    expect(caseA).toEqual(['case_a:1', 'case_a:2', 'case_a:3']);
+    expect(caseB).toEqual(['case_b:1', 'case_b:2']);
+    expect(maxInFlight).toBe(2);
+    bus.cleanup();
+  });
+
+  // User Story 17: Bulk imports cannot queue unbounded work per case
+  it('Partition Backpressure Story: should enforce concurrency and queue depth limits', async () => {
+    // Given: A bus processing one partition at a time with a queue depth of one
+    const bus = createEventBus({
+      partitionKey: event => (event as any).caseId,
+      partitionConcurrency: 1,
+      maxPartitionQueueDepth: 1,
+      retryDelay: 0,
+    });
+    const order: string[] = [];
+    bus.subscribe('import.row', async (event: any) => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      order.push(`${event.caseId}:${event.row}`);
+    });
+
+    // When: More events arrive for one case than the queue allows
+    const first = bus.publish(createEvent('import.row', { caseId: 'case_a', row: 1 }));
+    const other = bus.publish(createEvent('import.row', { caseId: 'case_b', row: 1 }));
+    const second = bus.publish(createEvent('import.row', { caseId: 'case_a', row: 2 }));
+    const third = bus.publish(createEvent('import.row', { caseId: 'case_a', row: 3 }));
+
+    // Then: The overflowing publish is rejected and the rest complete one at a time
+    await expect(third).rejects.toThrow('Partition queue depth exceeded');
+    await Promise.all([first, other, second]);
+    expect(order).toEqual(['case_a:1', 'case_b:1', 'case_a:2']);
+    bus.cleanup();
+  });
+
+  // User Story 18: A failing notification service must not break the case publisher
+  it('Handler Isolation Story: should isolate failing handlers and report through onHandlerError', async () => {
+    // Given: A bus with an error hook and a flaky SMS handler with its own retry policy
+    const reported: Array<{ message: string; context: HandlerErrorContext }> = [];
+    const bus = createEventBus({
+      retryDelay: 0,
+      onHandlerError: (error, context) => {
+        reported.push({ message: error.message, context });
+      },
+    });
+
+    let smsAttempts = 0;
+    const archived: string[] = [];
+    bus.subscribe(
+      'case.decided',
+      async () => {
+        smsAttempts++;
+        throw new Error('Simulated SMS gateway outage');
+      },
+      { retryPolicy: { maxRetries: 2, backoffStrategy: 'exponential', baseDelay: 1, jitter: true } }
+    );
+    bus.subscribe('case.decided', async (event: any) => {
+      archived.push(event.caseId);
+    });
+
+    // When: The case decision is published
+    await expect(
+      bus.publish(createEvent('case.decided', { caseId: 'case_1' }))
+    ).resolves.toBeUndefined();
+
+    // Then: The archive still receives the event and the failure is reported once
+    expect(archived).toEqual(['case_1']);
+    expect(smsAttempts).toBe(3);
+    expect(reported).toHaveLength(1);
+    expect(reported[0].message).toBe('Simulated SMS gateway outage');
+    expect(reported[0].context.attempts).toBe(3);
+    expect(reported[0].context.delivery).toBe('await-all');
+    expect(bus.getStats().failedDeliveries).toBe(1);
+
+    // And: Without hooks the failure goes to the bus's error handler instead of the console
+    const errorHandler = createErrorHandler({ enableNotifications: false });
+    const handleError = jest.spyOn(errorHandler, 'handleError').mockResolvedValue('error-id');
+    const consoleError = jest.spyOn(console, 'error');
+    const unhooked = createEventBus({ retryDelay: 0, maxRetries: 0, errorHandler });
+    unhooked.subscribe('case.decided', async () => {
+      throw new Error('Archive offline');
+    });
+    await unhooked.publish(createEvent('case.decided', { caseId: 'case_2' }));
+
+    expect(handleError).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'Archive offline' }),
+      { operation: 'handler:case.decided', component: 'event-core' },
+      'medium'
+    );
+    expect(consoleError).not.toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  // User Story 19: Publishers choose how long they wait for subscribers
+  it('Delivery Semantics Story: should support fire-and-forget and at-least-once delivery', async () => {
+    // Given: A slow analytics subscriber and a critical ledger subscriber
+    const bus = createEventBus({ maxRetries: 0, retryDelay: 0, onHandlerError: () => undefined });
+    let analyticsDone = false;
+    bus.subscribe(
+      'payment.received',
+      async () => {
+        await new Promise(resolve => setTimeout(resolve, 30));
+        analyticsDone = true;
+      },
+      { delivery: 'fire-and-forget' }
+    );
+    bus.subscribe(
+      'ledger.posted',
+      async () => {
+        throw new Error('Simulated ledger failure');
+      },
+      { delivery: 'at-least-once' }
+    );
+
+    // When: Events are published
+    await bus.publish(createEvent('payment.received', { amount: 150 }));
+
+    // Then: The publisher does not wait for fire-and-forget handlers
+    expect(analyticsDone).toBe(false);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(analyticsDone).toBe(true);
+
+    // And: At-least-once delivery surfaces the failure so the publisher can redeliver
+    await expect(bus.publish(createEvent('ledger.posted', { amount: 150 }))).rejects.toThrow(
+      'Simulated ledger failure'
+    );
+  });
+
+  // User Story 20: Fraud screening runs before payouts and can hold them back
+  it('Priority Delivery Story: should run higher priorities first and honour stop propagation', async () => {
+    // Given: A fraud check with high priority, and two payout handlers at the default priority
+    const bus = createEventBus({ maxRetries: 0, retryDelay: 0 });
+    const calls: string[] = [];
+    bus.subscribe('benefit.payout.requested', async () => {
+      calls.push('payout');
+    });
+    bus.subscribe(
+      'benefit.payout.requested',
+      async (event: BaseEvent & { flagged?: boolean }) => {
+        calls.push('fraud-check');
+        return event.flagged ? STOP_PROPAGATION : undefined;
+      },
+      { priority: 10 }
+    );
+    bus.subscribe('benefit.payout.requested', async () => {
+      calls.push('notify');
+    });
+
+    // When: A normal and a flagged payout are published
+    await bus.publish(createEvent('benefit.payout.requested', { flagged: false }));
+    await bus.publish(createEvent('benefit.payout.requested', { flagged: true }));
+
+    // Then: The fraud check runs first, and a flagged payout goes no further
+    expect(calls).toEqual(['fraud-check', 'payout', 'notify', 'fraud-check']);
+  });
+
+  // User Story 21: Case workers compete for cases within one bus
+  it('Consumer Group Story: should hand each event to one member by round-robin or hash', async () => {
+    // Given: Three case workers in a round-robin group and two archivers in a hashed group
+    const bus = createEventBus({
+      maxRetries: 0,
+      consumerGroups: { archivers: { assignment: 'hashed', key: event => event.caseId } },
+    });
+    const handledBy: string[] = [];
+    const archivedBy = new Map<string, string>();
+    ['worker-1', 'worker-2', 'worker-3'].forEach(worker => {
+      bus.subscribe(
+        'case.opened',
+        async () => {
+          handledBy.push(worker);
+        },
+        { group: 'case-workers' }
+      );
+    });
+    ['archiver-1', 'archiver-2'].forEach(archiver => {
+      bus.subscribe(
+        'case.#',
+        async event => {
+          const previous = archivedBy.get(event.caseId);
+          archivedBy.set(event.caseId, previous && previous !== archiver ? 'conflict' : archiver);
+        },
+        { group: 'archivers' }
+      );
+    });
+
+    // When: Six cases are opened, and each case is updated as well
+    for (let i = 0; i < 6; i++) {
+      await bus.publish(createEvent('case.opened', { caseId: `case_${i}` }));
+      await bus.publish(createEvent('case.updated', { caseId: `case_${i}` }));
+    }
+
+    // Then: Every case is handled once, spread evenly across the workers
+    expect(handledBy).toHaveLength(6);
+    expect(new Set(handledBy).size).toBe(3);
+    expect(handledBy.filter(worker => worker === 'worker-1')).toHaveLength(2);
+
+    // And: Hashed assignment keeps all events of a case on the same archiver
+    expect(archivedBy.size).toBe(6);
+    expect(Array.from(archivedBy.values())).not.toContain('conflict');
+    expect(bus.getGroupMembers('archivers')).toHaveLength(2);
+  });
+
+  // User Story 22: Worker instances in separate processes share one consumer group
+  it('Bridged Consumer Group Story: should route group events to one member across nodes', async () => {
+    // Given: Two bridged buses, each hosting a case worker, and an audit subscriber on node B
+    const transport = createLocalTransport();
+    const nodeA = createEventBus({ maxRetries: 0 });
+    const nodeB = createEventBus({ maxRetries: 0 });
+    await nodeA.connect(transport, { nodeId: 'node-a' });
+    await nodeB.connect(transport, { nodeId: 'node-b' });
+
+    const handled: Record<string, string[]> = { 'node-a': [], 'node-b': [] };
+    const audited: string[] = [];
+    nodeA.subscribe(
+      'case.opened',
+      async event => {
+        handled['node-a'].push(event.caseId);
+      },
+      { group: 'case-workers' }
+    );
+    nodeB.subscribe(
+      'case.opened',
+      async event => {
+        handled['node-b'].push(event.caseId);
+      },
+      { group: 'case-workers' }
+    );
+    nodeB.subscribe('case.opened', async event => {
+      audited.push(event.caseId);
+    });
+
+    // When: Node A publishes four cases
+    for (let i = 0; i < 4; i++) {
+      await nodeA.publish(createEvent('case.opened', { caseId: `case_${i}` }));
+    }
+
+    // Then: Each case reached exactly one worker, on either node
+    expect(handled['node-a']).toHaveLength(2);
+    expect(handled['node-b']).toHaveLength(2);
+    expect([...handled['node-a'], ...handled['node-b']].sort()).toEqual([
+      'case_0',
+      'case_1',
+      'case_2',
+      'case_3',
+    ]);
+
+    // And: Subscribers outside the group still receive every event
+    expect(audited).toHaveLength(4);
+
+    // When: Node B leaves, its members are no longer assigned cases
+    await nodeB.disconnect();
+    await nodeA.publish(createEvent('case.opened', { caseId: 'case_4' }));
+    expect(handled['node-a']).toContain('case_4');
+    expect(transport.getConnectedNodes()).toEqual(['node-a']);
+
+    nodeA.cleanup();
+    nodeB.cleanup();
+  });
 });
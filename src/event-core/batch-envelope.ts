@@ -0,0 +1,83 @@
+/**
+ * Batch Envelope
+ * Packs a batch of events into one compressed `batch.published` event and unpacks it again
+ */
+
+import { promisify } from 'util';
+import { deflate, gzip, gunzip, inflate } from 'zlib';
+
+import { createEvent } from './event-factory';
+import type { BaseEvent } from './index';
+import { reviveEvent } from './persistence';
+
+export type BatchCompression = 'gzip' | 'deflate';
+
+export const BATCH_PUBLISHED_EVENT_TYPE = 'batch.published';
+
+export interface BatchEnvelopeEvent extends BaseEvent {
+  batchId: string;
+  encoding: BatchCompression;
+  eventCount: number;
+  originalBytes: number;
+  compressedBytes: number;
+  // Base64 encoded, compressed JSON array of the batched events
+  payload: string;
+}
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+const deflateAsync = promisify(deflate);
+const inflateAsync = promisify(inflate);
+
+// Most restrictive first, so the envelope is never classified lower than its contents
+const CLASSIFICATION_ORDER = ['HEMMELIG', 'KONFIDENSIELT', 'BEGRENSET', 'ÅPEN'];
+
+export const isBatchEnvelope = (event: BaseEvent): event is BatchEnvelopeEvent => {
+  return (
+    event.type === BATCH_PUBLISHED_EVENT_TYPE &&
+    typeof (event as BatchEnvelopeEvent).payload === 'string' &&
+    typeof (event as BatchEnvelopeEvent).encoding === 'string'
+  );
+};
+
+export const packBatch = async (
+  batchId: string,
+  events: BaseEvent[],
+  encoding: BatchCompression = 'gzip'
+): Promise<BatchEnvelopeEvent> => {
+  const json = Buffer.from(JSON.stringify(events), 'utf-8');
+  const compressed = encoding === 'gzip' ? await gzipAsync(json) : await deflateAsync(json);
+  const nsmClassification = CLASSIFICATION_ORDER.find(level =>
+    events.some(event => event.nsmClassification === level)
+  ) as BaseEvent['nsmClassification'];
+
+  return createEvent(
+    BATCH_PUBLISHED_EVENT_TYPE,
+    {
+      batchId,
+      encoding,
+      eventCount: events.length,
+      originalBytes: json.length,
+      compressedBytes: compressed.length,
+      payload: compressed.toString('base64'),
+    },
+    { source: 'event-publisher', nsmClassification }
+  );
+};
+
+export const unpackBatch = async (envelope: BatchEnvelopeEvent): Promise<BaseEvent[]> => {
+  const compressed = Buffer.from(envelope.payload, 'base64');
+  let json: Buffer;
+  switch (envelope.encoding) {
+    case 'gzip':
+      json = await gunzipAsync(compressed);
+      break;
+    case 'deflate':
+      json = await inflateAsync(compressed);
+      break;
+    default:
+      throw new Error(`Unsupported batch encoding '${envelope.encoding}'`);
+  }
+
+  return (JSON.parse(json.toString('utf-8')) as any[]).map(event => reviveEvent(event));
+};
@@ -0,0 +1,71 @@
+/**
+ * Consumer Groups
+ * Competing consumers: each event reaches exactly one member of a group
+ */
+
+import type { BaseEvent } from './index';
+
+export type GroupAssignment = 'round-robin' | 'hashed';
+
+export interface ConsumerGroupOptions {
+  assignment?: GroupAssignment;
+  // Key for hashed assignment; defaults to the bus partition key, then the stream id
+  key?: (event: BaseEvent) => string | undefined;
+}
+
+export interface GroupMember {
+  group: string;
+  nodeId: string;
+  subscriptionId: string;
+  eventType: string;
+}
+
+export class ConsumerGroupRouter {
+  private groups: Record<string, ConsumerGroupOptions>;
+  private counters: Map<string, number> = new Map();
+
+  constructor(groups: Record<string, ConsumerGroupOptions> = {}) {
+    this.groups = { ...groups };
+  }
+
+  configure(group: string, options: ConsumerGroupOptions): void {
+    this.groups[group] = { ...this.groups[group], ...options };
+  }
+
+  // Pick the member that handles the event. Members are ordered by node and subscription id,
+  // so every publisher with the same membership view hashes a key to the same member.
+  select(
+    group: string,
+    members: GroupMember[],
+    event: BaseEvent,
+    defaultKey: () => string
+  ): GroupMember | undefined {
+    if (members.length === 0) return undefined;
+
+    const ordered = [...members].sort((a, b) =>
+      memberId(a) < memberId(b) ? -1 : memberId(a) > memberId(b) ? 1 : 0
+    );
+    const options = this.groups[group] || {};
+
+    if (options.assignment === 'hashed') {
+      const key = options.key?.(event) ?? defaultKey();
+      return ordered[hashKey(key) % ordered.length];
+    }
+
+    const counter = this.counters.get(group) || 0;
+    this.counters.set(group, counter + 1);
+    return ordered[counter % ordered.length];
+  }
+}
+
+const memberId = (member: GroupMember): string => `${member.nodeId}:${member.subscriptionId}`;
+
+// FNV-1a, so assignment does not depend on the runtime
+function hashKey(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
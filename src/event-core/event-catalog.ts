@@ -0,0 +1,274 @@
+/**
+ * Event Catalog
+ * Typed event definitions with lightweight JSON Schema validation of event payloads
+ */
+
+import type { BaseEvent, EventBus, EventHandler } from './index';
+
+export type NSMClassification = 'ÅPEN' | 'BEGRENSET' | 'KONFIDENSIELT' | 'HEMMELIG';
+
+// Supported subset of JSON Schema (draft 7 keywords)
+export interface EventSchema {
+  readonly type?: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'null';
+  readonly properties?: { readonly [key: string]: EventSchema };
+  readonly required?: readonly string[];
+  readonly additionalProperties?: boolean;
+  readonly items?: EventSchema;
+  readonly enum?: readonly unknown[];
+  readonly minLength?: number;
+  readonly maxLength?: number;
+  readonly pattern?: string;
+  readonly format?: 'date-time' | 'email';
+  readonly minimum?: number;
+  readonly maximum?: number;
+  readonly minItems?: number;
+  readonly maxItems?: number;
+  readonly description?: string;
+}
+
+// Infer a TypeScript type from a schema declared `as const`
+export type InferSchema<S> = S extends { readonly enum: readonly (infer E)[] }
+  ? E
+  : S extends { readonly type: 'string' }
+    ? string
+    : S extends { readonly type: 'number' | 'integer' }
+      ? number
+      : S extends { readonly type: 'boolean' }
+        ? boolean
+        : S extends { readonly type: 'null' }
+          ? null
+          : S extends { readonly type: 'array'; readonly items: infer I }
+            ? InferSchema<I>[]
+            : S extends { readonly type: 'object'; readonly properties: infer P }
+              ? InferObject<P, S extends { readonly required: readonly (infer R)[] } ? R : never>
+              : unknown;
+
+type InferObject<P, R> = {
+  -readonly [K in keyof P as K extends R ? K : never]: InferSchema<P[K]>;
+} & {
+  -readonly [K in keyof P as K extends R ? never : K]?: InferSchema<P[K]>;
+};
+
+export interface SchemaValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface EventDefinitionOptions {
+  version?: string;
+  nsmClassification?: NSMClassification;
+  source?: string;
+  description?: string;
+}
+
+export interface EventDefinition<P = Record<string, unknown>> {
+  type: string;
+  version: string;
+  schema: EventSchema;
+  nsmClassification?: NSMClassification;
+  source?: string;
+  description?: string;
+  create(
+    payload: P,
+    options?: { source?: string; nsmClassification?: NSMClassification }
+  ): BaseEvent & P;
+  subscribe(handler: EventHandler<BaseEvent & P>, eventBus?: EventBus): string;
+  validate(event: BaseEvent): SchemaValidationIssue[];
+  is(event: BaseEvent): event is BaseEvent & P;
+}
+
+export type InvalidEventPolicy = 'reject' | 'dead-letter';
+
+export const EVENT_DEAD_LETTER_TYPE = 'event.dead_lettered';
+
+const BASE_EVENT_KEYS = new Set([
+  'id',
+  'type',
+  'timestamp',
+  'source',
+  'version',
+  'metadata',
+  'nsmClassification',
+]);
+
+export class EventValidationError extends Error {
+  readonly eventType: string;
+  readonly issues: SchemaValidationIssue[];
+
+  constructor(eventType: string, issues: SchemaValidationIssue[]) {
+    super(
+      `Invalid payload for event '${eventType}': ${issues
+        .map(issue => `${issue.path} ${issue.message}`)
+        .join('; ')}`
+    );
+    this.name = 'EventValidationError';
+    this.eventType = eventType;
+    this.issues = issues;
+  }
+}
+
+// Extract the payload fields that createEvent spreads onto the event
+export const getEventPayload = (event: BaseEvent): Record<string, unknown> => {
+  const payload: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(event)) {
+    if (!BASE_EVENT_KEYS.has(key)) {
+      payload[key] = value;
+    }
+  }
+  return payload;
+};
+
+// Validate a value against a schema, collecting every issue with its path
+export const validateSchema = (
+  schema: EventSchema,
+  value: unknown,
+  path = '$'
+): SchemaValidationIssue[] => {
+  const issues: SchemaValidationIssue[] = [];
+
+  if (schema.enum && !schema.enum.some(option => option === value)) {
+    issues.push({ path, message: `must be one of ${schema.enum.map(String).join(', ')}` });
+    return issues;
+  }
+
+  if (schema.type && !matchesType(schema.type, value)) {
+    issues.push({ path, message: `must be of type ${schema.type}` });
+    return issues;
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push({ path, message: `must have at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issues.push({ path, message: `must have at most ${schema.maxLength} characters` });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      issues.push({ path, message: `must match pattern ${schema.pattern}` });
+    }
+    if (schema.format === 'date-time' && Number.isNaN(Date.parse(value))) {
+      issues.push({ path, message: 'must be an ISO 8601 date-time' });
+    }
+    if (schema.format === 'email' && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) {
+      issues.push({ path, message: 'must be an email address' });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ path, message: `must contain at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({ path, message: `must contain at most ${schema.maxItems} items` });
+    }
+    if (schema.items) {
+      const itemSchema = schema.items;
+      value.forEach((item, index) => {
+        issues.push(...validateSchema(itemSchema, item, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const properties = schema.properties || {};
+
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) {
+        issues.push({ path: `${path}.${key}`, message: 'is required' });
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(value)) {
+      const propertySchema = properties[key];
+      if (propertySchema) {
+        if (propertyValue !== undefined) {
+          issues.push(...validateSchema(propertySchema, propertyValue, `${path}.${key}`));
+        }
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: `${path}.${key}`, message: 'is not allowed' });
+      }
+    }
+  }
+
+  return issues;
+};
+
+function matchesType(type: NonNullable<EventSchema['type']>, value: unknown): boolean {
+  switch (type) {
+    case 'object':
+      return isPlainObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && !Number.isNaN(value);
+    case 'null':
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export class EventCatalog {
+  private definitions: Map<string, EventDefinition<any>> = new Map();
+
+  // Register a definition; redefining a type replaces the previous version
+  register<P>(definition: EventDefinition<P>): EventDefinition<P> {
+    this.definitions.set(definition.type, definition);
+    return definition;
+  }
+
+  get(eventType: string): EventDefinition | undefined {
+    return this.definitions.get(eventType);
+  }
+
+  has(eventType: string): boolean {
+    return this.definitions.has(eventType);
+  }
+
+  // Validate an event against its registered definition. Unknown types are not validated.
+  validate(event: BaseEvent): SchemaValidationIssue[] {
+    const definition = this.definitions.get(event.type);
+    return definition ? definition.validate(event) : [];
+  }
+
+  list(): EventDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+
+  unregister(eventType: string): boolean {
+    return this.definitions.delete(eventType);
+  }
+
+  clear(): void {
+    this.definitions.clear();
+  }
+}
+
+// Default catalog instance
+let defaultCatalog: EventCatalog;
+
+export const getEventCatalog = (): EventCatalog => {
+  if (!defaultCatalog) {
+    defaultCatalog = new EventCatalog();
+  }
+  return defaultCatalog;
+};
+
+export const createEventCatalog = (): EventCatalog => {
+  return new EventCatalog();
+};
@@ -0,0 +1,41 @@
+/**
+ * Event Factory
+ * Creates events; kept apart from the bus so modules the bus imports can create events too
+ */
+
+import type { BaseEvent } from './index';
+
+export const createEvent = <T extends Record<string, any>>(
+  type: string,
+  data?: T,
+  options: {
+    source?: string;
+    nsmClassification?: BaseEvent['nsmClassification'];
+    version?: string;
+  } = {}
+): BaseEvent & T => {
+  return {
+    id: generateEventId(),
+    type,
+    timestamp: new Date(),
+    source: options.source || 'foundation',
+    version: options.version || '2.0.0',
+    nsmClassification: options.nsmClassification,
+    ...data,
+  } as BaseEvent & T;
+};
+
+export const createComplianceEvent = (
+  type: string,
+  data: any,
+  classification: BaseEvent['nsmClassification'] = 'BEGRENSET'
+): BaseEvent => {
+  return createEvent(type, data, {
+    source: 'compliance-system',
+    nsmClassification: classification,
+  });
+};
+
+function generateEventId(): string {
+  return `evt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
@@ -0,0 +1,318 @@
+/**
+ * Event Store
+ * Pluggable persistence for published events with in-memory and append-only file implementations
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+
+import type { BaseEvent } from './index';
+import { reviveEvent } from './persistence';
+import { matchTopic } from './topic-router';
+
+export interface StoredEvent<T extends BaseEvent = BaseEvent> {
+  sequence: number;
+  streamId: string;
+  storedAt: Date;
+  event: T;
+}
+
+export interface EventStoreQuery {
+  streamId?: string;
+  types?: string[];
+  from?: Date;
+  to?: Date;
+  fromSequence?: number;
+  limit?: number;
+}
+
+export interface EventSnapshot<S = any> {
+  streamId: string;
+  sequence: number;
+  state: S;
+  createdAt: Date;
+}
+
+export interface EventStore {
+  append(event: BaseEvent, streamId: string): Promise<StoredEvent>;
+  read(query?: EventStoreQuery): Promise<StoredEvent[]>;
+  saveSnapshot<S>(snapshot: EventSnapshot<S>): Promise<void>;
+  getSnapshot<S>(streamId: string): Promise<EventSnapshot<S> | undefined>;
+  clear(): Promise<void>;
+}
+
+export interface InMemoryEventStoreOptions {
+  maxEvents?: number;
+}
+
+export interface FileEventStoreOptions {
+  directory: string;
+  maxSegmentBytes?: number;
+  segmentPrefix?: string;
+}
+
+// Check whether a stored event satisfies a query (everything except limit)
+export const matchesEventQuery = (stored: StoredEvent, query: EventStoreQuery = {}): boolean => {
+  if (query.streamId && stored.streamId !== query.streamId) return false;
+  if (query.fromSequence !== undefined && stored.sequence < query.fromSequence) return false;
+  if (query.types && !query.types.some(type => matchTopic(type, stored.event.type))) return false;
+
+  const eventTime = new Date(stored.event.timestamp).getTime();
+  if (query.from && eventTime < query.from.getTime()) return false;
+  if (query.to && eventTime > query.to.getTime()) return false;
+
+  return true;
+};
+
+export class InMemoryEventStore implements EventStore {
+  private events: StoredEvent[] = [];
+  private snapshots: Map<string, EventSnapshot> = new Map();
+  private sequence = 0;
+  private options: InMemoryEventStoreOptions;
+
+  constructor(options: InMemoryEventStoreOptions = {}) {
+    this.options = {
+      maxEvents: 10000,
+      ...options,
+    };
+  }
+
+  async append(event: BaseEvent, streamId: string): Promise<StoredEvent> {
+    const stored: StoredEvent = {
+      sequence: ++this.sequence,
+      streamId,
+      storedAt: new Date(),
+      event,
+    };
+
+    this.events.push(stored);
+
+    // Keep memory bounded; durable retention belongs in a persistent store
+    const maxEvents = this.options.maxEvents ?? 0;
+    while (maxEvents > 0 && this.events.length > maxEvents) {
+      this.events.shift();
+    }
+
+    return stored;
+  }
+
+  async read(query: EventStoreQuery = {}): Promise<StoredEvent[]> {
+    const matches = this.events.filter(stored => matchesEventQuery(stored, query));
+    return query.limit ? matches.slice(0, query.limit) : matches;
+  }
+
+  async saveSnapshot<S>(snapshot: EventSnapshot<S>): Promise<void> {
+    this.snapshots.set(snapshot.streamId, snapshot);
+  }
+
+  async getSnapshot<S>(streamId: string): Promise<EventSnapshot<S> | undefined> {
+    return this.snapshots.get(streamId) as EventSnapshot<S> | undefined;
+  }
+
+  async clear(): Promise<void> {
+    this.events = [];
+    this.snapshots.clear();
+  }
+}
+
+interface SegmentInfo {
+  file: string;
+  firstSequence: number;
+  bytes: number;
+}
+
+export class FileEventStore implements EventStore {
+  private options: Required<FileEventStoreOptions>;
+  private segments: SegmentInfo[] = [];
+  private sequence = 0;
+  private initialized?: Promise<void>;
+  private writeChain: Promise<unknown> = Promise.resolve();
+
+  constructor(options: FileEventStoreOptions) {
+    this.options = {
+      maxSegmentBytes: 10 * 1024 * 1024, // 10 MB
+      segmentPrefix: 'events',
+      ...options,
+    };
+  }
+
+  async append(event: BaseEvent, streamId: string): Promise<StoredEvent> {
+    await this.ensureInitialized();
+
+    // Serialise writes so sequences and segment rotation stay consistent
+    const write = this.writeChain.then(async () => {
+      const stored: StoredEvent = {
+        sequence: this.sequence + 1,
+        streamId,
+        storedAt: new Date(),
+        event,
+      };
+      const line = `${JSON.stringify(stored)}\n`;
+      const bytes = Buffer.byteLength(line);
+
+      let segment = this.segments[this.segments.length - 1];
+      if (!segment || (segment.bytes > 0 && segment.bytes + bytes > this.options.maxSegmentBytes)) {
+        segment = this.createSegment(stored.sequence);
+        this.segments.push(segment);
+      }
+
+      await fs.appendFile(join(this.options.directory, segment.file), line, 'utf-8');
+      segment.bytes += bytes;
+      this.sequence = stored.sequence;
+      return stored;
+    });
+
+    this.writeChain = write.catch(() => undefined);
+    return write;
+  }
+
+  async read(query: EventStoreQuery = {}): Promise<StoredEvent[]> {
+    await this.ensureInitialized();
+    await this.writeChain;
+
+    const results: StoredEvent[] = [];
+    for (let i = 0; i < this.segments.length; i++) {
+      // Skip segments that end before the requested sequence
+      const next = this.segments[i + 1];
+      if (query.fromSequence !== undefined && next && next.firstSequence <= query.fromSequence) {
+        continue;
+      }
+
+      for (const stored of await this.readSegment(this.segments[i])) {
+        if (!matchesEventQuery(stored, query)) continue;
+        results.push(stored);
+        if (query.limit && results.length >= query.limit) return results;
+      }
+    }
+
+    return results;
+  }
+
+  async saveSnapshot<S>(snapshot: EventSnapshot<S>): Promise<void> {
+    await this.ensureInitialized();
+    await fs.writeFile(this.snapshotPath(snapshot.streamId), JSON.stringify(snapshot), 'utf-8');
+  }
+
+  async getSnapshot<S>(streamId: string): Promise<EventSnapshot<S> | undefined> {
+    await this.ensureInitialized();
+    try {
+      const content = await fs.readFile(this.snapshotPath(streamId), 'utf-8');
+      const snapshot = JSON.parse(content) as EventSnapshot<S>;
+      return { ...snapshot, createdAt: new Date(snapshot.createdAt) };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.ensureInitialized();
+    await this.writeChain;
+
+    // Remove only the store's own files; the directory may hold other data
+    for (const segment of this.segments) {
+      await fs.rm(join(this.options.directory, segment.file), { force: true });
+    }
+    const snapshots = join(this.options.directory, 'snapshots');
+    for (const file of await fs.readdir(snapshots)) {
+      if (file.endsWith('.json')) {
+        await fs.rm(join(snapshots, file), { force: true });
+      }
+    }
+    await fs.rmdir(snapshots).catch(() => undefined); // Kept if it holds other files
+    this.segments = [];
+    this.sequence = 0;
+    this.initialized = undefined;
+  }
+
+  // Get segment files currently backing the store
+  getSegments(): string[] {
+    return this.segments.map(segment => segment.file);
+  }
+
+  private ensureInitialized(): Promise<void> {
+    if (!this.initialized) {
+      // A failed start is retried on the next call instead of failing the store for good
+      this.initialized = this.initialize().catch(error => {
+        this.initialized = undefined;
+        throw error;
+      });
+    }
+    return this.initialized;
+  }
+
+  // Discover existing segments and resume the sequence after a restart
+  private async initialize(): Promise<void> {
+    await fs.mkdir(join(this.options.directory, 'snapshots'), { recursive: true });
+
+    const prefix = `${this.options.segmentPrefix}-`;
+    const files = (await fs.readdir(this.options.directory))
+      .filter(file => file.startsWith(prefix) && file.endsWith('.jsonl'))
+      .sort();
+
+    this.segments = [];
+    for (const file of files) {
+      const stat = await fs.stat(join(this.options.directory, file));
+      this.segments.push({
+        file,
+        firstSequence: parseInt(file.slice(prefix.length, -'.jsonl'.length), 10),
+        bytes: stat.size,
+      });
+    }
+
+    const last = this.segments[this.segments.length - 1];
+    if (last) {
+      await this.truncateTornLine(last);
+      const events = await this.readSegment(last);
+      const lastEvent = events[events.length - 1];
+      this.sequence = lastEvent ? lastEvent.sequence : last.firstSequence - 1;
+    }
+  }
+
+  // Drop a partial last line left by a crash during append, so the next append starts cleanly
+  private async truncateTornLine(segment: SegmentInfo): Promise<void> {
+    const path = join(this.options.directory, segment.file);
+    const content = await fs.readFile(path);
+    if (content.length === 0 || content[content.length - 1] === 0x0a) return;
+
+    const bytes = content.lastIndexOf(0x0a) + 1;
+    await fs.truncate(path, bytes);
+    segment.bytes = bytes;
+  }
+
+  private async readSegment(segment: SegmentInfo): Promise<StoredEvent[]> {
+    const content = await fs.readFile(join(this.options.directory, segment.file), 'utf-8');
+    return content
+      .split('\n')
+      .filter(line => line.trim().length > 0)
+      .map(line => reviveStoredEvent(JSON.parse(line)));
+  }
+
+  private createSegment(firstSequence: number): SegmentInfo {
+    return {
+      file: `${this.options.segmentPrefix}-${String(firstSequence).padStart(12, '0')}.jsonl`,
+      firstSequence,
+      bytes: 0,
+    };
+  }
+
+  private snapshotPath(streamId: string): string {
+    return join(this.options.directory, 'snapshots', `${encodeURIComponent(streamId)}.json`);
+  }
+}
+
+function reviveStoredEvent(raw: any): StoredEvent {
+  return {
+    ...raw,
+    storedAt: new Date(raw.storedAt),
+    event: reviveEvent(raw.event),
+  };
+}
+
+export const createInMemoryEventStore = (options?: InMemoryEventStoreOptions): EventStore => {
+  return new InMemoryEventStore(options);
+};
+
+export const createFileEventStore = (options: FileEventStoreOptions): FileEventStore => {
+  return new FileEventStore(options);
+};
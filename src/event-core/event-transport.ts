@@ -0,0 +1,86 @@
+/**
+ * Event Transport
+ * Bridges event buses across processes; the local transport connects buses in one process
+ */
+
+import type { GroupMember } from './consumer-groups';
+import type { BaseEvent } from './index';
+
+export interface TransportMessage {
+  event: BaseEvent;
+  // Node that published the event
+  origin: string;
+  // Set when the message is routed to one consumer group member
+  subscriptionId?: string;
+}
+
+export interface EventTransport {
+  connect(nodeId: string, receive: (message: TransportMessage) => Promise<void>): Promise<void>;
+  disconnect(nodeId: string): Promise<void>;
+  // Deliver to every connected node except the origin
+  broadcast(message: TransportMessage): Promise<void>;
+  // Deliver to one node
+  send(nodeId: string, message: TransportMessage): Promise<void>;
+  // Replace the consumer group members hosted by a node
+  updateGroupMembers(nodeId: string, members: GroupMember[]): Promise<void>;
+  // Current view of consumer group members across all nodes, optionally for one group
+  getGroupMembers(group?: string): GroupMember[];
+}
+
+// In-process transport for tests and single-process deployments. Deliveries resolve once the
+// receiving node has handled the message.
+export class LocalTransport implements EventTransport {
+  private nodes: Map<string, (message: TransportMessage) => Promise<void>> = new Map();
+  private members: Map<string, GroupMember[]> = new Map();
+
+  async connect(
+    nodeId: string,
+    receive: (message: TransportMessage) => Promise<void>
+  ): Promise<void> {
+    if (this.nodes.has(nodeId)) {
+      throw new Error(`Node '${nodeId}' is already connected`);
+    }
+    this.nodes.set(nodeId, receive);
+  }
+
+  async disconnect(nodeId: string): Promise<void> {
+    this.nodes.delete(nodeId);
+    this.members.delete(nodeId);
+  }
+
+  async broadcast(message: TransportMessage): Promise<void> {
+    const receivers = Array.from(this.nodes.entries()).filter(
+      ([nodeId]) => nodeId !== message.origin
+    );
+    await Promise.all(receivers.map(([, receive]) => receive(message)));
+  }
+
+  async send(nodeId: string, message: TransportMessage): Promise<void> {
+    const receive = this.nodes.get(nodeId);
+    if (!receive) {
+      throw new Error(`Node '${nodeId}' is not connected`);
+    }
+    await receive(message);
+  }
+
+  async updateGroupMembers(nodeId: string, members: GroupMember[]): Promise<void> {
+    if (!this.nodes.has(nodeId)) {
+      throw new Error(`Node '${nodeId}' is not connected`);
+    }
+    this.members.set(nodeId, [...members]);
+  }
+
+  getGroupMembers(group?: string): GroupMember[] {
+    return Array.from(this.members.values())
+      .flat()
+      .filter(member => group === undefined || member.group === group);
+  }
+
+  getConnectedNodes(): string[] {
+    return Array.from(this.nodes.keys());
+  }
+}
+
+export const createLocalTransport = (): LocalTransport => {
+  return new LocalTransport();
+};
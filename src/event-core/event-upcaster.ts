@@ -0,0 +1,179 @@
+/**
+ * Event Upcaster
+ * Versioned payload migrations chained automatically when events are read back from history
+ */
+
+import type { BaseEvent } from './index';
+import type { EventCatalog } from './event-catalog';
+
+export interface UpcastFunction<From extends BaseEvent = any, To extends BaseEvent = BaseEvent> {
+  (event: From): To | Omit<To, 'version'>;
+}
+
+export interface UpcasterStep {
+  eventType: string;
+  fromVersion: string;
+  toVersion: string;
+  upcast: UpcastFunction;
+}
+
+export interface UpcastDiagnostic {
+  eventType: string;
+  fromVersion: string;
+  currentVersion?: string;
+  reason: 'no-upcast-path' | 'not-in-catalog';
+}
+
+export class UpcasterRegistry {
+  private steps: Map<string, UpcasterStep[]> = new Map();
+
+  // Register a migration from one version of an event type to the next
+  register(
+    eventType: string,
+    fromVersion: string,
+    toVersion: string,
+    upcast: UpcastFunction
+  ): void {
+    if (fromVersion === toVersion) {
+      throw new Error(`Upcaster for '${eventType}' must change the version (${fromVersion})`);
+    }
+
+    const steps = this.steps.get(eventType) || [];
+    const existing = steps.findIndex(
+      step => step.fromVersion === fromVersion && step.toVersion === toVersion
+    );
+    const step: UpcasterStep = { eventType, fromVersion, toVersion, upcast };
+
+    if (existing !== -1) {
+      steps[existing] = step;
+    } else {
+      steps.push(step);
+    }
+    this.steps.set(eventType, steps);
+  }
+
+  // Find the shortest chain of upcasters between two versions
+  findPath(eventType: string, fromVersion: string, toVersion: string): UpcasterStep[] | undefined {
+    if (fromVersion === toVersion) return [];
+
+    const steps = this.steps.get(eventType) || [];
+    const visited = new Set<string>([fromVersion]);
+    const queue: Array<{ version: string; path: UpcasterStep[] }> = [
+      { version: fromVersion, path: [] },
+    ];
+
+    while (queue.length > 0) {
+      const current = queue.shift();
+      if (!current) break;
+
+      for (const step of steps.filter(s => s.fromVersion === current.version)) {
+        if (visited.has(step.toVersion)) continue;
+
+        const path = [...current.path, step];
+        if (step.toVersion === toVersion) return path;
+
+        visited.add(step.toVersion);
+        queue.push({ version: step.toVersion, path });
+      }
+    }
+
+    return undefined;
+  }
+
+  // Upcast an event to the target version, applying each step in order
+  upcast<T extends BaseEvent = BaseEvent>(event: BaseEvent, targetVersion: string): T {
+    const path = this.findPath(event.type, event.version, targetVersion);
+    if (!path) {
+      throw new Error(
+        `No upcast path for '${event.type}' from version ${event.version} to ${targetVersion}`
+      );
+    }
+
+    return path.reduce<BaseEvent>(
+      (current, step) => ({ ...step.upcast(current), version: step.toVersion }) as BaseEvent,
+      event
+    ) as T;
+  }
+
+  // Bring an event to the version currently defined in the catalog
+  upcastToCurrent<T extends BaseEvent = BaseEvent>(event: BaseEvent, catalog: EventCatalog): T {
+    const definition = catalog.get(event.type);
+    if (!definition || definition.version === event.version) {
+      return event as T;
+    }
+    return this.upcast<T>(event, definition.version);
+  }
+
+  // List event types and versions that cannot reach the catalog's current version
+  diagnose(
+    catalog: EventCatalog,
+    observed: Array<{ eventType: string; version: string }> = []
+  ): UpcastDiagnostic[] {
+    const versions = new Map<string, Set<string>>();
+    const track = (eventType: string, version: string) => {
+      const known = versions.get(eventType) || new Set<string>();
+      known.add(version);
+      versions.set(eventType, known);
+    };
+
+    for (const [eventType, steps] of this.steps.entries()) {
+      steps.forEach(step => {
+        track(eventType, step.fromVersion);
+        track(eventType, step.toVersion);
+      });
+    }
+    // Uncataloged types without upcasters are never migrated, so they are not reported
+    observed
+      .filter(entry => catalog.has(entry.eventType) || this.steps.has(entry.eventType))
+      .forEach(entry => track(entry.eventType, entry.version));
+
+    const diagnostics: UpcastDiagnostic[] = [];
+    for (const [eventType, known] of versions.entries()) {
+      const currentVersion = catalog.get(eventType)?.version;
+
+      for (const fromVersion of Array.from(known).sort()) {
+        if (!currentVersion) {
+          diagnostics.push({ eventType, fromVersion, reason: 'not-in-catalog' });
+        } else if (!this.findPath(eventType, fromVersion, currentVersion)) {
+          diagnostics.push({ eventType, fromVersion, currentVersion, reason: 'no-upcast-path' });
+        }
+      }
+    }
+
+    return diagnostics;
+  }
+
+  getSteps(eventType?: string): UpcasterStep[] {
+    if (eventType) {
+      return [...(this.steps.get(eventType) || [])];
+    }
+    return Array.from(this.steps.values()).flat();
+  }
+
+  clear(): void {
+    this.steps.clear();
+  }
+}
+
+// Default upcaster registry
+let defaultRegistry: UpcasterRegistry;
+
+export const getUpcasterRegistry = (): UpcasterRegistry => {
+  if (!defaultRegistry) {
+    defaultRegistry = new UpcasterRegistry();
+  }
+  return defaultRegistry;
+};
+
+export const createUpcasterRegistry = (): UpcasterRegistry => {
+  return new UpcasterRegistry();
+};
+
+export const registerUpcaster = (
+  eventType: string,
+  fromVersion: string,
+  toVersion: string,
+  upcast: UpcastFunction
+): void => {
+  getUpcasterRegistry().register(eventType, fromVersion, toVersion, upcast);
+};
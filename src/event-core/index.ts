@@ -3,6 +3,40 @@
  * Foundation event system with type safety and Norwegian compliance support
  */
 
+import { ErrorReport, FoundationErrorHandler, getErrorHandler } from '../error-handler';
+import { isBatchEnvelope, unpackBatch } from './batch-envelope';
+import { createEvent } from './event-factory';
+import {
+  EVENT_DEAD_LETTER_TYPE,
+  EventCatalog,
+  EventDefinition,
+  EventDefinitionOptions,
+  EventSchema,
+  EventValidationError,
+  InferSchema,
+  InvalidEventPolicy,
+  getEventCatalog,
+  getEventPayload,
+  validateSchema,
+} from './event-catalog';
+import { ConsumerGroupOptions, ConsumerGroupRouter, GroupMember } from './consumer-groups';
+import { EventTransport, TransportMessage } from './event-transport';
+import { PartitionedDispatcher } from './partitioned-dispatcher';
+import { EventStore, EventStoreQuery, InMemoryEventStore, StoredEvent } from './event-store';
+import { UpcastDiagnostic, UpcasterRegistry, getUpcasterRegistry } from './event-upcaster';
+import { TopicTrie, isTopicPattern, matchTopic } from './topic-router';
+
+export * from './batch-envelope';
+export * from './consumer-groups';
+export * from './event-catalog';
+export * from './event-factory';
+export * from './event-store';
+export * from './event-transport';
+export * from './event-upcaster';
+export * from './partitioned-dispatcher';
+export * from './persistence';
+export { isTopicPattern, matchTopic } from './topic-router';
+
 export interface BaseEvent {
   id: string;
   type: string;
@@ -13,8 +47,13 @@ export interface BaseEvent {
   nsmClassification?: 'ÅPEN' | 'BEGRENSET' | 'KONFIDENSIELT' | 'HEMMELIG';
 }
 
+// Returned by a handler to keep the event from lower-priority subscriptions
+export const STOP_PROPAGATION = Symbol('stopPropagation');
+
+export type EventHandlerResult = void | typeof STOP_PROPAGATION;
+
 export interface EventHandler<T extends BaseEvent = BaseEvent> {
-  (event: T): Promise<void> | void;
+  (event: T): Promise<EventHandlerResult> | EventHandlerResult;
 }
 
 export interface EventSubscription {
@@ -22,19 +61,101 @@ export interface EventSubscription {
   eventType: string;
   handler: EventHandler;
   active: boolean;
+  priority: number;
+  group?: string;
+  retryPolicy?: Partial<HandlerRetryPolicy>;
+  delivery?: DeliveryMode;
+  onError?: HandlerErrorHook;
 }
 
+export interface HandlerRetryPolicy {
+  maxRetries: number;
+  backoffStrategy: 'fixed' | 'exponential' | 'linear';
+  baseDelay: number;
+  maxDelay?: number;
+  jitter?: boolean | number; // true or 0..1 ratio of the delay to randomise
+}
+
+// await-all: publish waits for handlers, failures are isolated and reported
+// fire-and-forget: publish returns once the event is stored, handlers run in the background
+// at-least-once: publish waits and rejects if a handler still fails after retries, so the
+// publisher (or an outbox relay) can redeliver
+export type DeliveryMode = 'await-all' | 'fire-and-forget' | 'at-least-once';
+
+export interface SubscribeOptions {
+  // Higher priorities run first; subscriptions with equal priority run concurrently. Default 0.
+  priority?: number;
+  // Competing consumers: each event reaches one member of the group
+  group?: string;
+  retryPolicy?: Partial<HandlerRetryPolicy>;
+  delivery?: DeliveryMode;
+  // Called once the handler has failed its final attempt, before the bus-wide onHandlerError
+  onError?: HandlerErrorHook;
+}
+
+export interface HandlerErrorContext {
+  subscriptionId: string;
+  eventType: string;
+  event: BaseEvent;
+  attempts: number;
+  delivery: DeliveryMode;
+}
+
+export type HandlerErrorHook = (error: Error, context: HandlerErrorContext) => Promise<void> | void;
+
 export interface EventBusOptions {
   enableCompliance?: boolean;
   maxRetries?: number;
   retryDelay?: number;
   enableMetrics?: boolean;
+  eventStore?: EventStore;
+  resolveStreamId?: (event: BaseEvent) => string;
+  catalog?: EventCatalog;
+  invalidEventPolicy?: InvalidEventPolicy;
+  upcasters?: UpcasterRegistry;
+  partitionKey?: (event: BaseEvent) => string | undefined;
+  partitionConcurrency?: number;
+  maxPartitionQueueDepth?: number;
+  delivery?: DeliveryMode;
+  retryPolicy?: Partial<HandlerRetryPolicy>;
+  onHandlerError?: HandlerErrorHook;
+  consumerGroups?: Record<string, ConsumerGroupOptions>;
+  // Receives failures outside handlers, e.g. transport errors; defaults to the shared handler
+  errorHandler?: FoundationErrorHandler;
+}
+
+export interface ConnectOptions {
+  // Defaults to a generated id
+  nodeId?: string;
+}
+
+// Which subscriptions a delivery reaches: all (routing consumer groups), only subscriptions
+// outside groups (events broadcast by other nodes), or one group member routed to this node
+type DeliveryScope = 'all' | 'ungrouped' | { subscriptionId: string };
+
+export interface ReplayOptions {
+  from?: Date;
+  to?: Date;
+  types?: string[];
+  streamId?: string;
+  fromSequence?: number;
 }
 
 export class EventBus {
   private subscriptions: Map<string, EventSubscription[]> = new Map();
-  private eventHistory: BaseEvent[] = [];
+  private patternSubscriptions: TopicTrie<EventSubscription> = new TopicTrie();
+  private eventStore: EventStore;
+  private ownsEventStore: boolean;
+  private dispatcher?: PartitionedDispatcher;
+  private groupRouter: ConsumerGroupRouter;
+  private transport?: EventTransport;
+  private nodeId?: string;
+  private totalEvents = 0;
+  private failedDeliveries = 0;
+  private skippedEvents = 0;
+  private lastEvent?: BaseEvent;
   private options: EventBusOptions;
+  private errorHandler: FoundationErrorHandler;
   private timeouts: Set<NodeJS.Timeout> = new Set(); // Track timeouts for cleanup
 
   constructor(options: EventBusOptions = {}) {
@@ -43,18 +164,42 @@ export class EventBus {
       maxRetries: 3,
       retryDelay: 1000,
       enableMetrics: true,
+      delivery: 'await-all',
       ...options,
     };
+
+    this.errorHandler = options.errorHandler || getErrorHandler();
+    this.ownsEventStore = !options.eventStore;
+    this.eventStore = options.eventStore || new InMemoryEventStore();
+
+    if (this.options.partitionKey) {
+      this.dispatcher = new PartitionedDispatcher({
+        concurrency: this.options.partitionConcurrency,
+        maxQueueDepth: this.options.maxPartitionQueueDepth,
+      });
+    }
+
+    this.groupRouter = new ConsumerGroupRouter(this.options.consumerGroups);
   }
 
-  // Subscribe to events
-  subscribe<T extends BaseEvent>(eventType: string, handler: EventHandler<T>): string {
+  // Subscribe to events. Event types may be topic patterns: `*` matches every event,
+  // `case.*.approved` matches exactly one segment and `case.#` matches any number of segments.
+  subscribe<T extends BaseEvent>(
+    eventType: string,
+    handler: EventHandler<T>,
+    options: SubscribeOptions = {}
+  ): string {
     const subscriptionId = this.generateSubscriptionId();
     const subscription: EventSubscription = {
       id: subscriptionId,
       eventType,
       handler: handler as EventHandler,
       active: true,
+      priority: options.priority ?? 0,
+      group: options.group,
+      retryPolicy: options.retryPolicy,
+      delivery: options.delivery,
+      onError: options.onError,
     };
 
     if (!this.subscriptions.has(eventType)) {
@@ -65,6 +210,13 @@ export class EventBus {
     if (eventSubscriptions) {
       eventSubscriptions.push(subscription);
     }
+
+    if (isTopicPattern(eventType)) {
+      this.patternSubscriptions.add(eventType, subscription);
+    }
+    if (subscription.group) {
+      this.syncGroupMembers();
+    }
     return subscriptionId;
   }
 
@@ -73,10 +225,16 @@ export class EventBus {
     for (const [eventType, subscriptions] of Array.from(this.subscriptions.entries())) {
       const index = subscriptions.findIndex(sub => sub.id === subscriptionId);
       if (index !== -1) {
-        subscriptions.splice(index, 1);
+        const [removed] = subscriptions.splice(index, 1);
+        if (isTopicPattern(eventType)) {
+          this.patternSubscriptions.remove(eventType, sub => sub.id === subscriptionId);
+        }
         if (subscriptions.length === 0) {
           this.subscriptions.delete(eventType);
         }
+        if (removed.group) {
+          this.syncGroupMembers();
+        }
         return true;
       }
     }
@@ -85,42 +243,468 @@ export class EventBus {
 
   // Publish events
   async publish<T extends BaseEvent>(event: T): Promise<void> {
+    // Validate payloads of cataloged event types
+    const issues = this.getCatalog().validate(event);
+    if (issues.length > 0) {
+      const error = new EventValidationError(event.type, issues);
+      if (this.options.invalidEventPolicy !== 'dead-letter') {
+        throw error;
+      }
+
+      await this.publish(
+        createEvent(
+          EVENT_DEAD_LETTER_TYPE,
+          { originalEvent: event, reason: error.message, issues },
+          { source: event.source, nsmClassification: event.nsmClassification }
+        )
+      );
+      return;
+    }
+
     // Add compliance metadata if enabled
     if (this.options.enableCompliance) {
       this.addComplianceMetadata(event);
     }
 
     // Store in history
-    this.eventHistory.push(event);
+    const stored = this.eventStore.append(event, this.resolveStreamId(event)).then(() => {
+      this.totalEvents++;
+      this.lastEvent = event;
+    });
+
+    // Delivery is queued before awaiting the store so publish order is kept per partition key
+    await Promise.all([stored, this.deliver(event, stored), this.forward(event, stored)]);
+  }
+
+  // Bridge this bus to other nodes. Published events are broadcast to every node, and each
+  // consumer group event is routed to one member across all nodes.
+  async connect(transport: EventTransport, options: ConnectOptions = {}): Promise<void> {
+    if (this.transport) {
+      throw new Error(`Event bus is already connected as node '${this.nodeId}'`);
+    }
+
+    const nodeId =
+      options.nodeId || `node_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    await transport.connect(nodeId, message => this.receive(message));
+    this.transport = transport;
+    this.nodeId = nodeId;
+    await transport.updateGroupMembers(nodeId, this.getLocalGroupMembers());
+  }
 
-    // Get subscribers for this event type
-    const subscribers = this.subscriptions.get(event.type) || [];
+  async disconnect(): Promise<void> {
+    const transport = this.transport;
+    const nodeId = this.nodeId;
+    this.transport = undefined;
+    this.nodeId = undefined;
+    if (transport && nodeId) {
+      await transport.disconnect(nodeId);
+    }
+  }
 
-    // Execute handlers
-    await Promise.all(
-      subscribers.filter(sub => sub.active).map(sub => this.executeHandler(sub.handler, event))
+  // Set how a consumer group assigns events to its members
+  configureConsumerGroup(group: string, options: ConsumerGroupOptions): void {
+    this.groupRouter.configure(group, options);
+  }
+
+  // Consumer group members on this bus, or across all nodes when connected
+  getGroupMembers(group?: string): GroupMember[] {
+    if (this.transport) {
+      return this.transport.getGroupMembers(group);
+    }
+    return this.getLocalGroupMembers().filter(
+      member => group === undefined || member.group === group
     );
   }
 
-  // Execute handler with retry logic
-  private async executeHandler(handler: EventHandler, event: BaseEvent): Promise<void> {
+  // Re-deliver stored events to current subscribers, in stored order
+  async replay(options: ReplayOptions = {}): Promise<number> {
+    const storedEvents = await this.readHistory({
+      from: options.from,
+      to: options.to,
+      types: options.types,
+      streamId: options.streamId,
+      fromSequence: options.fromSequence,
+    });
+
+    for (const stored of storedEvents) {
+      await this.deliver(this.markReplayed(stored));
+    }
+
+    return storedEvents.length;
+  }
+
+  // Read stored events, upcast to the versions currently defined in the catalog. Events without
+  // an upcast path are skipped and reported, so one stale event does not block the history.
+  async readHistory(query: EventStoreQuery = {}): Promise<StoredEvent[]> {
+    const storedEvents = await this.eventStore.read(query);
+    const catalog = this.getCatalog();
+    const upcasters = this.getUpcasters();
+
+    const history: StoredEvent[] = [];
+    for (const stored of storedEvents) {
+      try {
+        history.push({ ...stored, event: upcasters.upcastToCurrent(stored.event, catalog) });
+      } catch (error) {
+        this.skippedEvents++;
+        await this.reportError(error, 'history_upcast', 'high');
+      }
+    }
+    return history;
+  }
+
+  // List stored event types and versions without an upcast path to the current version
+  async diagnoseUpcasting(): Promise<UpcastDiagnostic[]> {
+    const observed = new Map<string, { eventType: string; version: string }>();
+    for (const stored of await this.eventStore.read()) {
+      const { type, version } = stored.event;
+      observed.set(`${type}@${version}`, { eventType: type, version });
+    }
+
+    return this.getUpcasters().diagnose(this.getCatalog(), Array.from(observed.values()));
+  }
+
+  // Get the upcaster registry applied when reading history
+  getUpcasters(): UpcasterRegistry {
+    return this.options.upcasters || getUpcasterRegistry();
+  }
+
+  // Get the catalog used for publish-time validation
+  getCatalog(): EventCatalog {
+    return this.options.catalog || getEventCatalog();
+  }
+
+  // Get the store backing event history
+  getEventStore(): EventStore {
+    return this.eventStore;
+  }
+
+  // Deliver an event to all matching active subscribers according to their delivery mode.
+  // Priority groups run in turn, highest first, until a handler stops propagation.
+  // With a partition key, delivery is ordered per subscriber and key; other keys run concurrently.
+  // Consumer group members on other nodes receive the event alongside the local priority groups.
+  // Batch envelopes go to batch.published subscriptions; the events inside are then delivered one
+  // by one, so groups, retries and delivery modes apply to them as to any published event.
+  private async deliver(
+    event: BaseEvent,
+    ready: Promise<void> = Promise.resolve(),
+    scope: DeliveryScope = 'all'
+  ): Promise<void> {
+    const partition = this.options.partitionKey?.(event);
+    const { subscribers, remote } = this.resolveSubscribers(event, scope);
+    const failures: Error[] = [];
+    const remoteDeliveries = remote.map(async member => {
+      try {
+        await ready;
+      } catch {
+        return; // Store failures surface through publish()
+      }
+      try {
+        await this.transport?.send(member.nodeId, {
+          event,
+          origin: this.nodeId as string,
+          subscriptionId: member.subscriptionId,
+        });
+      } catch (error) {
+        failures.push(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+
+    const deliverTo = async (sub: EventSubscription): Promise<boolean> => {
+      const delivery = this.resolveDeliveryMode(sub);
+      const run = async (): Promise<HandlerOutcome> => {
+        try {
+          await ready;
+        } catch {
+          return {}; // Store failures surface through publish()
+        }
+        return this.executeHandler(sub, event);
+      };
+
+      const outcome =
+        partition !== undefined && this.dispatcher
+          ? this.dispatcher.dispatch(`${sub.id}:${partition}`, run)
+          : run();
+
+      // Fire-and-forget handlers are not awaited, so they cannot stop propagation
+      if (delivery === 'fire-and-forget') {
+        outcome.catch(error => this.reportHandlerError(sub, event, error, 0));
+        return false;
+      }
+
+      const { failure, stopped } = await outcome;
+      if (failure && delivery === 'at-least-once') {
+        failures.push(failure);
+      }
+      return stopped === true;
+    };
+
+    for (const group of groupByPriority(subscribers)) {
+      const stopped = await Promise.all(group.map(deliverTo));
+      if (stopped.includes(true)) break;
+    }
+    await Promise.all(remoteDeliveries);
+
+    if (isBatchEnvelope(event) && typeof scope !== 'object') {
+      try {
+        await ready;
+      } catch {
+        return; // Store failures surface through publish()
+      }
+      const { replayed, replaySequence } = event.metadata || {};
+      for (const batched of await unpackBatch(event)) {
+        const inner = replayed
+          ? { ...batched, metadata: { ...batched.metadata, replayed, replaySequence } }
+          : batched;
+        try {
+          await this.deliver(inner, Promise.resolve(), scope);
+        } catch (error) {
+          failures.push(error instanceof Error ? error : new Error(String(error)));
+        }
+      }
+    }
+
+    if (failures.length > 0) {
+      throw failures[0];
+    }
+  }
+
+  // Pick the local subscriptions and remote group members that receive an event
+  private resolveSubscribers(
+    event: BaseEvent,
+    scope: DeliveryScope
+  ): { subscribers: EventSubscription[]; remote: GroupMember[] } {
+    // Only explicit subscriptions receive the envelope itself, not wildcard patterns
+    const envelope = isBatchEnvelope(event);
+    const matching = this.getMatchingSubscriptions(event.type).filter(
+      sub => sub.active && (!envelope || sub.eventType === event.type)
+    );
+
+    if (typeof scope === 'object') {
+      return { subscribers: matching.filter(sub => sub.id === scope.subscriptionId), remote: [] };
+    }
+
+    const subscribers = matching.filter(sub => !sub.group);
+    const remote: GroupMember[] = [];
+    if (scope === 'ungrouped') {
+      return { subscribers, remote };
+    }
+
+    const membersByGroup = new Map<string, GroupMember[]>();
+    for (const member of this.getGroupMembers()) {
+      if (envelope ? member.eventType !== event.type : !matchTopic(member.eventType, event.type)) {
+        continue;
+      }
+      membersByGroup.set(member.group, [...(membersByGroup.get(member.group) || []), member]);
+    }
+
+    for (const [group, members] of membersByGroup) {
+      const selected = this.groupRouter.select(
+        group,
+        members,
+        event,
+        () => this.options.partitionKey?.(event) ?? this.resolveStreamId(event)
+      );
+      if (!selected) continue;
+
+      if (this.transport && selected.nodeId !== this.nodeId) {
+        remote.push(selected);
+      } else {
+        const local = matching.find(sub => sub.id === selected.subscriptionId);
+        if (local) subscribers.push(local);
+      }
+    }
+
+    return { subscribers, remote };
+  }
+
+  // Forward a published event to the other nodes once it is stored
+  private async forward(event: BaseEvent, ready: Promise<void>): Promise<void> {
+    if (!this.transport) return;
+
+    const transport = this.transport;
+    const origin = this.nodeId as string;
+    await ready;
+    await transport.broadcast({ event, origin });
+  }
+
+  // Events from other nodes: broadcasts skip consumer groups, which the origin routes itself
+  private async receive(message: TransportMessage): Promise<void> {
+    const event = { ...message.event, timestamp: new Date(message.event.timestamp) };
+    await this.deliver(
+      event,
+      Promise.resolve(),
+      message.subscriptionId ? { subscriptionId: message.subscriptionId } : 'ungrouped'
+    );
+  }
+
+  private getLocalGroupMembers(): GroupMember[] {
+    const nodeId = this.nodeId || 'local';
+    return Array.from(this.subscriptions.values())
+      .flat()
+      .filter(sub => sub.group !== undefined)
+      .map(sub => ({
+        group: sub.group as string,
+        nodeId,
+        subscriptionId: sub.id,
+        eventType: sub.eventType,
+      }));
+  }
+
+  // Publish this node's group members to the transport
+  private syncGroupMembers(): void {
+    if (!this.transport || !this.nodeId) return;
+
+    this.transport
+      .updateGroupMembers(this.nodeId, this.getLocalGroupMembers())
+      .catch(error => this.reportError(error, 'consumer_group_sync', 'medium'));
+  }
+
+  // Report a bus failure outside handlers; a failing error handler is ignored
+  private async reportError(
+    error: unknown,
+    operation: string,
+    severity: ErrorReport['severity']
+  ): Promise<void> {
+    await this.errorHandler
+      .handleError(
+        error instanceof Error ? error : new Error(String(error)),
+        { operation, component: 'event-core' },
+        severity
+      )
+      .catch(() => undefined);
+  }
+
+  private markReplayed(stored: StoredEvent): BaseEvent {
+    return {
+      ...stored.event,
+      metadata: {
+        ...stored.event.metadata,
+        replayed: true,
+        replaySequence: stored.sequence,
+      },
+    };
+  }
+
+  private resolveStreamId(event: BaseEvent): string {
+    if (this.options.resolveStreamId) {
+      return this.options.resolveStreamId(event);
+    }
+    return event.metadata?.streamId || event.source;
+  }
+
+  // Resolve exact and pattern subscriptions for an event type
+  private getMatchingSubscriptions(eventType: string): EventSubscription[] {
+    const exact = this.subscriptions.get(eventType) || [];
+    if (this.patternSubscriptions.count() === 0) {
+      return exact;
+    }
+
+    return Array.from(new Set([...exact, ...this.patternSubscriptions.match(eventType)]));
+  }
+
+  // Execute handler with its retry policy; returns the final error instead of throwing
+  private async executeHandler(
+    subscription: EventSubscription,
+    event: BaseEvent
+  ): Promise<HandlerOutcome> {
+    const retryPolicy = this.resolveRetryPolicy(subscription);
     let attempts = 0;
 
-    while (attempts <= (this.options.maxRetries ?? 3)) {
+    for (;;) {
       try {
-        await handler(event);
-        return;
+        const result = await subscription.handler(event);
+        return { stopped: result === STOP_PROPAGATION };
       } catch (error) {
         attempts++;
-        if (attempts > (this.options.maxRetries ?? 3)) {
-          console.error(`Handler failed after ${this.options.maxRetries} retries:`, error);
-          throw error;
+        if (attempts > retryPolicy.maxRetries) {
+          const failure = error instanceof Error ? error : new Error(String(error));
+          await this.reportHandlerError(subscription, event, failure, attempts);
+          return { failure };
         }
-        await this.delay(this.options.retryDelay ?? 1000);
+        await this.delay(this.calculateRetryDelay(retryPolicy, attempts - 1));
+      }
+    }
+  }
+
+  // Report a failed delivery through the subscription and bus error hooks
+  private async reportHandlerError(
+    subscription: EventSubscription,
+    event: BaseEvent,
+    error: Error,
+    attempts: number
+  ): Promise<void> {
+    this.failedDeliveries++;
+
+    const context: HandlerErrorContext = {
+      subscriptionId: subscription.id,
+      eventType: subscription.eventType,
+      event,
+      attempts,
+      delivery: this.resolveDeliveryMode(subscription),
+    };
+
+    const hooks = [subscription.onError, this.options.onHandlerError].filter(
+      (hook): hook is HandlerErrorHook => hook !== undefined
+    );
+
+    if (hooks.length === 0) {
+      await this.reportError(error, `handler:${subscription.eventType}`, 'medium');
+      return;
+    }
+
+    for (const hook of hooks) {
+      try {
+        await hook(error, context);
+      } catch {
+        // A failing error hook must not break delivery to other subscribers
       }
     }
   }
 
+  private resolveDeliveryMode(subscription: EventSubscription): DeliveryMode {
+    return subscription.delivery || this.options.delivery || 'await-all';
+  }
+
+  // Subscription policy overrides the bus policy, which defaults to maxRetries/retryDelay
+  private resolveRetryPolicy(subscription: EventSubscription): HandlerRetryPolicy {
+    return {
+      maxRetries: this.options.maxRetries ?? 3,
+      backoffStrategy: 'fixed',
+      baseDelay: this.options.retryDelay ?? 1000,
+      ...this.options.retryPolicy,
+      ...subscription.retryPolicy,
+    };
+  }
+
+  // Calculate retry delay
+  private calculateRetryDelay(retryPolicy: HandlerRetryPolicy, attempt: number): number {
+    let delay = retryPolicy.baseDelay;
+
+    switch (retryPolicy.backoffStrategy) {
+      case 'exponential':
+        delay = retryPolicy.baseDelay * Math.pow(2, attempt);
+        break;
+      case 'linear':
+        delay = retryPolicy.baseDelay * (attempt + 1);
+        break;
+      case 'fixed':
+      default:
+        delay = retryPolicy.baseDelay;
+        break;
+    }
+
+    if (retryPolicy.maxDelay) {
+      delay = Math.min(delay, retryPolicy.maxDelay);
+    }
+
+    if (retryPolicy.jitter) {
+      const ratio = retryPolicy.jitter === true ? 1 : Math.min(Math.max(retryPolicy.jitter, 0), 1);
+      delay = delay * (1 - ratio) + Math.random() * delay * ratio;
+    }
+
+    return Math.round(delay);
+  }
+
   // Add Norwegian compliance metadata
   private addComplianceMetadata(event: BaseEvent): void {
     if (!event.metadata) {
@@ -161,19 +745,24 @@ export class EventBus {
   // Get event statistics
   getStats() {
     return {
-      totalEvents: this.eventHistory.length,
+      totalEvents: this.totalEvents,
       totalSubscriptions: Array.from(this.subscriptions.values()).reduce(
         (total, subs) => total + subs.length,
         0
       ),
       eventTypes: Array.from(this.subscriptions.keys()),
-      lastEvent: this.eventHistory[this.eventHistory.length - 1],
+      lastEvent: this.lastEvent,
+      failedDeliveries: this.failedDeliveries,
+      skippedEvents: this.skippedEvents,
+      partitions: this.dispatcher?.getStats(),
     };
   }
 
   // Clear event history (for compliance/privacy)
-  clearHistory(): void {
-    this.eventHistory = [];
+  async clearHistory(): Promise<void> {
+    this.totalEvents = 0;
+    this.lastEvent = undefined;
+    await this.eventStore.clear();
   }
 
   /**
@@ -187,47 +776,82 @@ export class EventBus {
     }
     this.timeouts.clear();
 
+    // Drop queued partitioned deliveries
+    this.dispatcher?.clear();
+
+    // Leave the transport; other nodes stop routing group events here
+    void this.disconnect();
+
     // Clear all subscriptions
     this.subscriptions.clear();
+    this.patternSubscriptions.clear();
 
-    // Clear event history
-    this.eventHistory = [];
+    // Clear event history; externally provided stores are durable and left intact
+    this.totalEvents = 0;
+    this.lastEvent = undefined;
+    if (this.ownsEventStore) {
+      void this.eventStore.clear();
+    }
   }
 }
 
-// Event factory functions
-export const createEvent = <T extends Record<string, any>>(
+// Define a cataloged event type with a typed factory, subscription helper and payload validation
+export const defineEvent = <S extends EventSchema, P = InferSchema<S>>(
   type: string,
-  data?: T,
-  options: {
-    source?: string;
-    nsmClassification?: BaseEvent['nsmClassification'];
-  } = {}
-): BaseEvent & T => {
-  return {
-    id: generateEventId(),
+  schema: S,
+  options: EventDefinitionOptions & { catalog?: EventCatalog } = {}
+): EventDefinition<P> => {
+  const { catalog = getEventCatalog(), ...definitionOptions } = options;
+  const version = definitionOptions.version || '1.0.0';
+
+  const definition: EventDefinition<P> = {
     type,
-    timestamp: new Date(),
-    source: options.source || 'foundation',
-    version: '2.0.0',
-    nsmClassification: options.nsmClassification,
-    ...data,
-  } as BaseEvent & T;
+    version,
+    schema,
+    nsmClassification: definitionOptions.nsmClassification,
+    source: definitionOptions.source,
+    description: definitionOptions.description,
+    create: (payload, createOptions = {}) => {
+      const event = createEvent(type, payload as P & Record<string, any>, {
+        source: createOptions.source || definitionOptions.source,
+        nsmClassification: createOptions.nsmClassification || definitionOptions.nsmClassification,
+        version,
+      });
+      const issues = definition.validate(event);
+      if (issues.length > 0) {
+        throw new EventValidationError(type, issues);
+      }
+      return event;
+    },
+    subscribe: (handler, eventBus = getEventBus()) => {
+      return eventBus.subscribe(type, handler as EventHandler);
+    },
+    validate: event => validateSchema(schema, getEventPayload(event)),
+    is: (event): event is BaseEvent & P => {
+      return event.type === type && definition.validate(event).length === 0;
+    },
+  };
+
+  return catalog.register(definition);
 };
 
-export const createComplianceEvent = (
-  type: string,
-  data: any,
-  classification: BaseEvent['nsmClassification'] = 'BEGRENSET'
-): BaseEvent => {
-  return createEvent(type, data, {
-    source: 'compliance-system',
-    nsmClassification: classification,
-  });
-};
+interface HandlerOutcome {
+  failure?: Error;
+  stopped?: boolean;
+}
+
+// Split subscriptions into groups of equal priority, highest first, keeping subscription order
+function groupByPriority(subscriptions: EventSubscription[]): EventSubscription[][] {
+  const groups = new Map<number, EventSubscription[]>();
+  for (const subscription of subscriptions) {
+    const group = groups.get(subscription.priority) || [];
+    group.push(subscription);
+    groups.set(subscription.priority, group);
+  }
 
-function generateEventId(): string {
-  return `evt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => b - a)
+    .map(([, group]) => group);
 }
 
 // Default event bus instance
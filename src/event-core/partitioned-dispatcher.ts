@@ -0,0 +1,118 @@
+/**
+ * Partitioned Dispatcher
+ * Runs tasks strictly in order within a partition while different partitions run concurrently
+ */
+
+export interface PartitionedDispatcherOptions {
+  concurrency?: number;
+  maxQueueDepth?: number;
+}
+
+interface PartitionTask {
+  run: () => Promise<any>;
+  resolve: (value: any) => void;
+  reject: (error: unknown) => void;
+}
+
+export class PartitionedDispatcher {
+  private options: Required<PartitionedDispatcherOptions>;
+  private queues: Map<string, PartitionTask[]> = new Map();
+  private active: Set<string> = new Set();
+  private ready: string[] = [];
+  private readySet: Set<string> = new Set();
+  private running = 0;
+
+  constructor(options: PartitionedDispatcherOptions = {}) {
+    this.options = {
+      concurrency: 10,
+      maxQueueDepth: 1000,
+      ...options,
+    };
+  }
+
+  // Queue a task behind earlier tasks of the same partition
+  dispatch<R = void>(partition: string, run: () => Promise<R>): Promise<R> {
+    const queue = this.queues.get(partition) || [];
+    if (queue.length >= this.options.maxQueueDepth) {
+      return Promise.reject(
+        new Error(
+          `Partition queue depth exceeded for '${partition}' (max ${this.options.maxQueueDepth})`
+        )
+      );
+    }
+
+    return new Promise<R>((resolve, reject) => {
+      queue.push({ run, resolve, reject });
+      this.queues.set(partition, queue);
+
+      if (!this.active.has(partition)) {
+        this.markReady(partition);
+      }
+      this.pump();
+    });
+  }
+
+  getStats() {
+    return {
+      runningTasks: this.running,
+      activePartitions: this.active.size,
+      waitingPartitions: this.ready.length,
+      queuedTasks: Array.from(this.queues.values()).reduce(
+        (total, queue) => total + queue.length,
+        0
+      ),
+    };
+  }
+
+  // Reject everything still queued (used on shutdown)
+  clear(): void {
+    for (const queue of this.queues.values()) {
+      queue.splice(0).forEach(task => task.reject(new Error('Dispatcher cleared')));
+    }
+    this.queues.clear();
+    this.ready = [];
+    this.readySet.clear();
+  }
+
+  private markReady(partition: string): void {
+    if (this.readySet.has(partition)) return;
+    this.ready.push(partition);
+    this.readySet.add(partition);
+  }
+
+  // Start ready partitions while concurrency slots are free
+  private pump(): void {
+    while (this.running < this.options.concurrency && this.ready.length > 0) {
+      const partition = this.ready.shift() as string;
+      this.readySet.delete(partition);
+      this.runNext(partition);
+    }
+  }
+
+  private runNext(partition: string): void {
+    const queue = this.queues.get(partition);
+    const task = queue?.shift();
+    if (!task) {
+      this.queues.delete(partition);
+      return;
+    }
+
+    this.active.add(partition);
+    this.running++;
+
+    task
+      .run()
+      .then(task.resolve, task.reject)
+      .finally(() => {
+        this.running--;
+        this.active.delete(partition);
+
+        if (queue && queue.length > 0) {
+          this.markReady(partition);
+        } else {
+          this.queues.delete(partition);
+        }
+        this.pump();
+      });
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * File Persistence
+ * Shared helpers for the file-backed stores
+ */
+
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+
+import type { BaseEvent } from './index';
+
+// Replaces a file through a temporary file and a rename, so readers never see a partial write.
+// Writes are serialised in call order, so the latest state wins.
+export class AtomicFileWriter {
+  private filename: string;
+  private chain: Promise<unknown> = Promise.resolve();
+
+  constructor(filename: string) {
+    this.filename = filename;
+  }
+
+  // The content is rendered when the write starts, so queued writes pick up the latest state
+  write(render: () => string | Uint8Array): Promise<void> {
+    const write = this.chain.then(async () => {
+      const data = render();
+      const temporary = `${this.filename}.tmp`;
+      await fs.mkdir(dirname(this.filename), { recursive: true });
+      await fs.writeFile(temporary, data);
+      await fs.rename(temporary, this.filename);
+    });
+
+    this.chain = write.catch(() => undefined);
+    return write;
+  }
+
+  // Append to the file in the same order as writes
+  append(data: string): Promise<void> {
+    const append = this.chain.then(async () => {
+      await fs.mkdir(dirname(this.filename), { recursive: true });
+      await fs.appendFile(this.filename, data);
+    });
+
+    this.chain = append.catch(() => undefined);
+    return append;
+  }
+
+  // Resolves once every queued write has settled
+  async flush(): Promise<void> {
+    await this.chain;
+  }
+}
+
+// A JSON lines file that records are appended to. Once it holds twice as many lines as live
+// records, and at least minCompactLines, it is rewritten with only the live records.
+export class JsonLinesLog<T> {
+  private filename: string;
+  private minCompactLines: number;
+  private writer: AtomicFileWriter;
+  private lines = 0;
+
+  constructor(filename: string, minCompactLines = 1000) {
+    this.filename = filename;
+    this.minCompactLines = minCompactLines;
+    this.writer = new AtomicFileWriter(filename);
+  }
+
+  // Records in file order, or none when the file does not exist. A torn last line left by an
+  // interrupted append is cut off, so later appends start on a new line.
+  async read(): Promise<T[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filename, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const end = content.lastIndexOf('\n') + 1;
+    if (end < content.length) {
+      content = content.slice(0, end);
+      await fs.truncate(this.filename, Buffer.byteLength(content));
+    }
+
+    const records = content
+      .split('\n')
+      .filter(line => line.trim().length > 0)
+      .map(line => JSON.parse(line) as T);
+    this.lines = records.length;
+    return records;
+  }
+
+  append(record: T, liveCount: number, live: () => Iterable<T>): Promise<void> {
+    this.lines++;
+    if (this.lines >= Math.max(2 * liveCount, this.minCompactLines)) {
+      return this.rewrite(live, liveCount);
+    }
+    return this.writer.append(`${JSON.stringify(record)}\n`);
+  }
+
+  rewrite(live: () => Iterable<T>, liveCount = 0): Promise<void> {
+    this.lines = liveCount;
+    return this.writer.write(() =>
+      Array.from(live(), record => `${JSON.stringify(record)}\n`).join('')
+    );
+  }
+
+  // Resolves once every queued write has settled
+  flush(): Promise<void> {
+    return this.writer.flush();
+  }
+}
+
+// JSON turns dates into strings; restore the event timestamp after parsing
+export const reviveEvent = <T extends BaseEvent>(raw: any): T => ({
+  ...raw,
+  timestamp: new Date(raw.timestamp),
+});
@@ -0,0 +1,166 @@
+/**
+ * Topic Router
+ * Indexed trie for dotted event topics with `*` (single segment) and `#` (multi-segment) wildcards
+ */
+
+export const TOPIC_SEPARATOR = '.';
+export const SINGLE_SEGMENT_WILDCARD = '*';
+export const MULTI_SEGMENT_WILDCARD = '#';
+
+interface TopicNode<T> {
+  children: Map<string, TopicNode<T>>;
+  single?: TopicNode<T>;
+  multi?: TopicNode<T>;
+  entries: T[];
+}
+
+// Check whether a subscription topic contains wildcards
+export const isTopicPattern = (topic: string): boolean => {
+  return topic
+    .split(TOPIC_SEPARATOR)
+    .some(segment => segment === SINGLE_SEGMENT_WILDCARD || segment === MULTI_SEGMENT_WILDCARD);
+};
+
+// Match a single event type against a topic pattern without building a trie
+export const matchTopic = (pattern: string, eventType: string): boolean => {
+  if (pattern === SINGLE_SEGMENT_WILDCARD) return true;
+  return matchSegments(pattern.split(TOPIC_SEPARATOR), 0, eventType.split(TOPIC_SEPARATOR), 0);
+};
+
+function matchSegments(pattern: string[], p: number, type: string[], t: number): boolean {
+  if (p === pattern.length) return t === type.length;
+
+  const segment = pattern[p];
+  if (segment === MULTI_SEGMENT_WILDCARD) {
+    for (let k = t; k <= type.length; k++) {
+      if (matchSegments(pattern, p + 1, type, k)) return true;
+    }
+    return false;
+  }
+
+  if (t === type.length) return false;
+  if (segment !== SINGLE_SEGMENT_WILDCARD && segment !== type[t]) return false;
+  return matchSegments(pattern, p + 1, type, t + 1);
+}
+
+export class TopicTrie<T> {
+  private root: TopicNode<T> = TopicTrie.createNode();
+  private size = 0;
+
+  // Add an entry under a topic pattern. A bare `*` is treated as `#` (match everything).
+  add(pattern: string, entry: T): void {
+    let node = this.root;
+    for (const segment of this.normalize(pattern)) {
+      node = this.child(node, segment);
+    }
+    node.entries.push(entry);
+    this.size++;
+  }
+
+  // Remove the first entry under a pattern satisfying the predicate
+  remove(pattern: string, predicate: (entry: T) => boolean): boolean {
+    const path: Array<{ node: TopicNode<T>; segment: string }> = [];
+    let node: TopicNode<T> | undefined = this.root;
+
+    for (const segment of this.normalize(pattern)) {
+      path.push({ node, segment });
+      node = this.lookup(node, segment);
+      if (!node) return false;
+    }
+
+    const index = node.entries.findIndex(predicate);
+    if (index === -1) return false;
+
+    node.entries.splice(index, 1);
+    this.size--;
+    this.prune(path, node);
+    return true;
+  }
+
+  // Collect all entries whose pattern matches the event type
+  match(eventType: string): T[] {
+    const matches = new Set<T>();
+    this.collect(this.root, eventType.split(TOPIC_SEPARATOR), 0, matches);
+    return Array.from(matches);
+  }
+
+  count(): number {
+    return this.size;
+  }
+
+  clear(): void {
+    this.root = TopicTrie.createNode();
+    this.size = 0;
+  }
+
+  private collect(node: TopicNode<T>, segments: string[], index: number, out: Set<T>): void {
+    if (node.multi) {
+      // `#` consumes zero or more segments
+      for (let k = index; k <= segments.length; k++) {
+        this.collect(node.multi, segments, k, out);
+      }
+    }
+
+    if (index === segments.length) {
+      node.entries.forEach(entry => out.add(entry));
+      return;
+    }
+
+    const exact = node.children.get(segments[index]);
+    if (exact) {
+      this.collect(exact, segments, index + 1, out);
+    }
+
+    if (node.single) {
+      this.collect(node.single, segments, index + 1, out);
+    }
+  }
+
+  private normalize(pattern: string): string[] {
+    if (pattern === SINGLE_SEGMENT_WILDCARD) return [MULTI_SEGMENT_WILDCARD];
+    return pattern.split(TOPIC_SEPARATOR);
+  }
+
+  private child(node: TopicNode<T>, segment: string): TopicNode<T> {
+    if (segment === SINGLE_SEGMENT_WILDCARD) {
+      node.single = node.single || TopicTrie.createNode();
+      return node.single;
+    }
+    if (segment === MULTI_SEGMENT_WILDCARD) {
+      node.multi = node.multi || TopicTrie.createNode();
+      return node.multi;
+    }
+
+    let next = node.children.get(segment);
+    if (!next) {
+      next = TopicTrie.createNode();
+      node.children.set(segment, next);
+    }
+    return next;
+  }
+
+  private lookup(node: TopicNode<T>, segment: string): TopicNode<T> | undefined {
+    if (segment === SINGLE_SEGMENT_WILDCARD) return node.single;
+    if (segment === MULTI_SEGMENT_WILDCARD) return node.multi;
+    return node.children.get(segment);
+  }
+
+  // Drop empty branches left behind after a removal
+  private prune(path: Array<{ node: TopicNode<T>; segment: string }>, leaf: TopicNode<T>): void {
+    let current = leaf;
+    for (let i = path.length - 1; i >= 0; i--) {
+      if (current.entries.length > 0 || current.children.size > 0) return;
+      if (current.single || current.multi) return;
+
+      const { node, segment } = path[i];
+      if (segment === SINGLE_SEGMENT_WILDCARD) node.single = undefined;
+      else if (segment === MULTI_SEGMENT_WILDCARD) node.multi = undefined;
+      else node.children.delete(segment);
+      current = node;
+    }
+  }
+
+  private static createNode<T>(): TopicNode<T> {
+    return { children: new Map(), entries: [] };
+  }
+}
@@ -3,13 +3,31 @@
  * Tests real-world scenarios for Norwegian government-compliant event publishing
  */
 
-import { createEvent, createEventBus, EventBus } from '../../event-core';
+import { mkdtempSync, promises as fsPromises, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import {
+  BaseEvent,
+  BATCH_PUBLISHED_EVENT_TYPE,
+  createEvent,
+  createEventBus,
+  EventBus,
+} from '../../event-core';
+import { createEventSubscriber } from '../../event-subscriber';
+import { createMetricsCollector } from '../../metrics-sdk';
 import {
   createEventPublisher,
   EventPublisher,
+  FileScheduleStore,
   getEventPublisher,
+  InMemoryOutboxStore,
+  OutboxRelay,
+  parseRecurrence,
   publishEvent,
+  QueueOverflowError,
   scheduleEvent,
+  SqliteOutboxStore,
 } from '../index';
 
 describe('Event Publisher User Stories', () => {
@@ -226,4 +244,427 @@ describe('Event Publisher User Stories', () => {
     // Then: Maintenance event should be scheduled
     expect(eventId).toBe(maintenanceEvent.id);
   });
+
+  // User Story 9: Outbox keeps events that could not be delivered yet
+  it('Outbox Story: should record events first and relay them with retries and idempotency keys', async () => {
+    // Given: A case service records events in an outbox before they reach the bus
+    const store = new InMemoryOutboxStore();
+    eventPublisher.withOutbox(store, { baseDelay: 0, maxAttempts: 3 });
+
+    const received: BaseEvent[] = [];
+    let failures = 1;
+    eventBus.subscribe(
+      'case.registered',
+      async event => {
+        if (failures-- > 0) throw new Error('Archive unavailable');
+        received.push(event);
+      },
+      { delivery: 'at-least-once', retryPolicy: { maxRetries: 0 } }
+    );
+
+    // When: The same registration is published twice with one idempotency key
+    const caseEvent = createEvent('case.registered', { caseId: 'case_001' });
+    await eventPublisher.publish(caseEvent, { idempotencyKey: 'case_001:registered' });
+    await eventPublisher.publish(caseEvent, { idempotencyKey: 'case_001:registered' });
+    await eventPublisher.flushOutbox();
+
+    // Then: The entry is retried after the first failure and delivered exactly once
+    const entries = await store.list();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].status).toBe('delivered');
+    expect(entries[0].attempts).toBe(2);
+    expect(received).toHaveLength(1);
+    expect(received[0].metadata?.idempotencyKey).toBe('case_001:registered');
+    expect(eventPublisher.getStats().outbox).toMatchObject({ delivered: 1, retried: 1 });
+
+    // And: A relay without retention purges delivered entries after its run
+    const relay = new OutboxRelay(store, async () => undefined, { retainDelivered: 0 });
+    await relay.trigger();
+    expect(await store.list()).toHaveLength(0);
+  });
+
+  // User Story 10: Outbox entries survive a restart in a SQLite file
+  it('Outbox Story: should persist pending entries in SQLite and relay them after a restart', async () => {
+    const directory = mkdtempSync(join(tmpdir(), 'foundation-outbox-'));
+    const filename = join(directory, 'outbox.sqlite');
+
+    try {
+      // Given: The process records payments but crashes before relaying them
+      const beforeCrash = new SqliteOutboxStore({ filename });
+      for (const paymentId of ['pay_001', 'pay_002', 'pay_003']) {
+        await beforeCrash.add(
+          createEvent('payment.received', { paymentId, amount: 1250 }),
+          paymentId
+        );
+      }
+      await beforeCrash.close();
+
+      // When: A new process opens the same outbox file
+      const store = new SqliteOutboxStore({ filename, flushDelay: 60000 });
+      const received: BaseEvent[] = [];
+      eventBus.subscribe('payment.received', async event => {
+        received.push(event);
+      });
+      const writeFile = jest.spyOn(fsPromises, 'writeFile');
+      eventPublisher.withOutbox(store);
+      const delivered = await eventPublisher.flushOutbox();
+      await store.close();
+
+      // Then: The recorded events are delivered and marked in one write of the file
+      expect(delivered).toBe(3);
+      expect(received[0].timestamp).toBeInstanceOf(Date);
+      expect((received[0] as any).amount).toBe(1250);
+      expect(writeFile).toHaveBeenCalledTimes(1);
+      writeFile.mockRestore();
+
+      const reopened = new SqliteOutboxStore({ filename });
+      expect(await reopened.list('pending')).toHaveLength(0);
+
+      const [entry] = await reopened.list('delivered');
+      expect(entry.idempotencyKey).toBe('pay_001');
+      expect(await reopened.purgeDelivered()).toBe(3);
+      await reopened.close();
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  // User Story 11: Recurring reminders by cron expression and ISO 8601 interval
+  it('Recurring Schedule Story: should calculate cron and repeating interval occurrences', () => {
+    // Given: Reminders every weekday at 08:30 and on the first of the month three times
+    const weekdays = parseRecurrence('30 8 * * MON-FRI');
+    const monthly = parseRecurrence('R3/2025-01-31T09:00:00/P1M');
+
+    // When: Occurrences are calculated from a Friday afternoon
+    const friday = new Date(2025, 0, 3, 15, 0);
+    const nextWeekday = weekdays.next(friday);
+
+    // Then: The weekend is skipped and the monthly interval clamps to month end and stops after three
+    expect(nextWeekday).toEqual(new Date(2025, 0, 6, 8, 30));
+    expect(weekdays.next(nextWeekday as Date)).toEqual(new Date(2025, 0, 7, 8, 30));
+
+    const first = monthly.next(new Date(2025, 0, 1)) as Date;
+    const second = monthly.next(first) as Date;
+    const third = monthly.next(second) as Date;
+    expect([first, second, third]).toEqual([
+      new Date(2025, 0, 31, 9, 0),
+      new Date(2025, 1, 28, 9, 0),
+      new Date(2025, 2, 31, 9, 0),
+    ]);
+    expect(monthly.next(third)).toBeUndefined();
+    expect(() => parseRecurrence('61 * * * *')).toThrow('Invalid cron expression');
+  });
+
+  // User Story 12: Persisted schedules catch up on runs missed during downtime
+  it('Recurring Schedule Story: should restore persisted schedules and catch up missed runs', async () => {
+    const directory = mkdtempSync(join(tmpdir(), 'foundation-schedules-'));
+    const filename = join(directory, 'schedules.json');
+
+    try {
+      // Given: Two hourly schedules were persisted before a restart five and a half hours ago
+      const start = new Date(Date.now() - 5.5 * 60 * 60 * 1000);
+      const recurrence = `R/${start.toISOString()}/PT1H`;
+      const reminder = createEvent('service.reminder', { serviceType: 'license_renewal' });
+      const store = new FileScheduleStore({ filename });
+      for (const [id, catchUp] of [
+        ['hourly-all', 'all'],
+        ['hourly-latest', 'latest'],
+      ] as const) {
+        await store.save({
+          id,
+          event: reminder,
+          publishAt: start,
+          recurrence,
+          startAt: start,
+          catchUp,
+          occurrences: 0,
+          createdAt: start,
+          options: id === 'hourly-all' ? { idempotencyKey: 'license-renewal' } : undefined,
+        });
+      }
+      const outbox = new InMemoryOutboxStore();
+
+      const received: BaseEvent[] = [];
+      eventBus.subscribe('service.reminder', async event => {
+        received.push(event);
+      });
+
+      // When: The publisher starts again with the same schedule file
+      eventPublisher.withScheduleStore(new FileScheduleStore({ filename }));
+      eventPublisher.withOutbox(outbox, { baseDelay: 0 });
+      await eventPublisher.initialize();
+      await eventPublisher.flushOutbox();
+
+      // Then: 'all' publishes each of the six missed runs and 'latest' only the last one
+      const bySchedule = (id: string) =>
+        received.filter(event => event.metadata?.scheduleId === id);
+      expect(bySchedule('hourly-all')).toHaveLength(6);
+      expect(bySchedule('hourly-latest')).toHaveLength(1);
+      expect(new Set(received.map(event => event.id)).size).toBe(received.length);
+
+      // And: The schedule's idempotency key is made unique per occurrence
+      const keys = (await outbox.list())
+        .map(entry => entry.idempotencyKey)
+        .filter(key => key.startsWith('license-renewal:'));
+      expect(new Set(keys).size).toBe(6);
+
+      // And: Both schedules continue from the next future occurrence
+      const scheduled = eventPublisher.listScheduled();
+      expect(scheduled).toHaveLength(2);
+      scheduled.forEach(schedule =>
+        expect(schedule.publishAt.getTime()).toBeGreaterThan(Date.now())
+      );
+
+      const persisted = JSON.parse(readFileSync(filename, 'utf-8'));
+      expect(persisted.find((entry: any) => entry.id === 'hourly-all').occurrences).toBe(6);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  // User Story 13: Cancelling and listing scheduled events
+  it('Scheduled Publishing Story: should list, cancel and publish scheduled events with one timer', async () => {
+    // Given: A reminder far beyond the 24.8 day timer limit and one due shortly
+    const received: BaseEvent[] = [];
+    eventBus.subscribe('service.#', async event => {
+      received.push(event);
+    });
+
+    const farReminder = createEvent('service.renewal_notice', { citizenId: 'citizen_001' });
+    const soonReminder = createEvent('service.reminder', { citizenId: 'citizen_002' });
+    eventPublisher.scheduleEvent(farReminder, new Date(Date.now() + 60 * 24 * 60 * 60 * 1000));
+    eventPublisher.scheduleEvent(soonReminder, new Date(Date.now() + 20));
+    const dailyId = eventPublisher.scheduleRecurring(
+      createEvent('service.digest', { digest: 'daily' }),
+      '0 6 * * *',
+      { scheduleId: 'daily-digest' }
+    );
+
+    // When: The daily digest is cancelled and the near reminder comes due
+    expect(eventPublisher.listScheduled().map(schedule => schedule.id)).toEqual([
+      soonReminder.id,
+      dailyId,
+      farReminder.id,
+    ]);
+    expect(eventPublisher.cancelScheduled('daily-digest')).toBe(true);
+    expect(eventPublisher.cancelScheduled('daily-digest')).toBe(false);
+    await new Promise(resolve => setTimeout(resolve, 80));
+
+    // Then: Only the due reminder is published and the far one stays scheduled
+    expect(received.map(event => event.id)).toEqual([soonReminder.id]);
+    expect(eventPublisher.listScheduled().map(schedule => schedule.id)).toEqual([farReminder.id]);
+    expect(eventPublisher.getStats().scheduledEvents).toBe(1);
+
+    // And: A delayed publish is a schedule too, so it is listed and can be cancelled
+    const delayed = createEvent('service.reminder', { citizenId: 'citizen_003' });
+    await eventPublisher.publish(delayed, { delay: 40 * 24 * 60 * 60 * 1000 });
+    expect(eventPublisher.listScheduled().map(schedule => schedule.id)).toEqual([
+      delayed.id,
+      farReminder.id,
+    ]);
+    expect(eventPublisher.cancelScheduled(delayed.id)).toBe(true);
+  });
+
+  // User Story 14: Bulk imports are bounded and urgent events overtake them
+  it('Backpressure Story: should publish by priority and drop low priority events when the queue is full', async () => {
+    // Given: A publisher that handles one event at a time and queues at most two
+    const metrics = createMetricsCollector({ flushInterval: 0 });
+    const importPublisher = createEventPublisher(eventBus, {
+      queue: { maxInFlight: 1, maxQueued: 2, overflowPolicy: 'drop-low-priority', metrics },
+    });
+    const setGauge = jest.spyOn(metrics, 'setGauge');
+
+    const order: string[] = [];
+    let release: () => void = () => undefined;
+    eventBus.subscribe('import.#', async event => {
+      if (event.type === 'import.started') {
+        await new Promise<void>(resolve => (release = resolve));
+      }
+      order.push(event.type);
+    });
+
+    // When: A bulk import fills the queue and an urgent event arrives
+    const started = importPublisher.publish(createEvent('import.started', {}));
+    const first = importPublisher.publish(createEvent('import.row', { row: 1 }), {
+      priority: 'low',
+    });
+    const second = importPublisher.publish(createEvent('import.row', { row: 2 }), {
+      priority: 'low',
+    });
+    const urgent = importPublisher.publish(createEvent('import.failed_validation', {}), {
+      priority: 'high',
+    });
+
+    // Then: The newest low priority row is dropped and the queue depth is reported
+    await expect(second).rejects.toBeInstanceOf(QueueOverflowError);
+    expect(importPublisher.getStats().queue).toMatchObject({ inFlight: 1, queued: 2, dropped: 1 });
+    expect(metrics.getMetricsSummary().gauges).toMatchObject({
+      'event_publisher_queue_depth{priority="high",queue="event_publisher"}': 1,
+      'event_publisher_queue_depth{priority="low",queue="event_publisher"}': 1,
+    });
+
+    // And: The high priority event is published before the remaining row
+    release();
+    await Promise.all([started, first, urgent]);
+    expect(order).toEqual(['import.started', 'import.failed_validation', 'import.row']);
+
+    // And: Gauges are only recorded when their value changes
+    const recorded = setGauge.mock.calls.map(([name, value, labels]) => [
+      `${name}:${labels?.priority}`,
+      value,
+    ]);
+    recorded.forEach(([key, value], index) => {
+      const previous = recorded
+        .slice(0, index)
+        .filter(([other]) => other === key)
+        .pop();
+      expect(previous?.[1]).not.toBe(value);
+    });
+
+    importPublisher.cleanup();
+    metrics.stop();
+  });
+
+  // User Story 15: Blocking and rejecting overflow policies
+  it('Backpressure Story: should make producers wait or reject them when the queue is full', async () => {
+    // Given: One publisher that blocks and one that rejects when full
+    const metrics = createMetricsCollector({ flushInterval: 0 });
+    const blocking = createEventPublisher(eventBus, {
+      queue: { maxInFlight: 1, maxQueued: 1, overflowPolicy: 'block', metrics },
+    });
+    const rejecting = createEventPublisher(eventBus, {
+      queue: { maxInFlight: 1, maxQueued: 1, overflowPolicy: 'reject', metrics, name: 'strict' },
+    });
+
+    const published: number[] = [];
+    eventBus.subscribe('tax.assessment', async event => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      published.push((event as any).index);
+    });
+
+    // When: Three events are published at once through each publisher
+    const blocked = [1, 2, 3].map(index =>
+      blocking.publish(createEvent('tax.assessment', { index }))
+    );
+    const rejected = Promise.allSettled(
+      [4, 5, 6].map(index => rejecting.publish(createEvent('tax.assessment', { index })))
+    );
+
+    // Then: The blocking publisher delivers all three, the rejecting one refuses the third
+    expect(blocking.getStats().queue.blocked).toBe(1);
+    await Promise.all(blocked);
+    const results = await rejected;
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'fulfilled', 'rejected']);
+    expect((results[2] as PromiseRejectedResult).reason.message).toBe(
+      'Publish queue is full (max 1 queued events)'
+    );
+
+    expect(published.filter(index => index <= 3).sort()).toEqual([1, 2, 3]);
+    expect(published.filter(index => index > 3).sort()).toEqual([4, 5]);
+    expect(metrics.getMetricsSummary().counters).toMatchObject({
+      'event_publisher_rejected_total{priority="normal",queue="strict"}': 1,
+    });
+
+    blocking.cleanup();
+    rejecting.cleanup();
+    metrics.stop();
+  });
+
+  // User Story 16: Batches flush on their own size, byte and time limits
+  it('Batch Publishing Story: should flush each batch independently and report per-event results', async () => {
+    // Given: Two batches with different limits and a consumer that rejects one record
+    const received: string[] = [];
+    eventBus.subscribe(
+      'register.#',
+      async event => {
+        if ((event as any).recordId === 'bad') throw new Error('Invalid record');
+        received.push((event as any).recordId);
+      },
+      { delivery: 'at-least-once', retryPolicy: { maxRetries: 0 } }
+    );
+    eventPublisher.startBatch('small', { maxBatchSize: 2, flushInterval: 60000 });
+    eventPublisher.startBatch('bytes', { maxBatchBytes: 1, flushInterval: 20 });
+
+    // When: The size-limited batch fills up and the other batch is left to its own timer
+    await eventPublisher.publish(createEvent('register.updated', { recordId: 'a' }), {
+      batchId: 'small',
+    });
+    expect(eventPublisher.getStats().batchSizes.small).toBe(1);
+    await eventPublisher.publish(createEvent('register.updated', { recordId: 'b' }), {
+      batchId: 'small',
+    });
+    await eventPublisher.publish(createEvent('register.updated', { recordId: 'c' }), {
+      batchId: 'bytes',
+    });
+
+    // Then: Both batches were flushed as soon as they hit their limits
+    expect(eventPublisher.getStats().batchSizes).toEqual({ small: 0, bytes: 0 });
+    expect(received).toEqual(['a', 'b', 'c']);
+
+    // And: A manual flush reports the outcome of every event
+    await eventPublisher.publish(createEvent('register.updated', { recordId: 'bad' }), {
+      batchId: 'small',
+    });
+    const result = await eventPublisher.stopBatch('small');
+    expect(result).toMatchObject({ batchId: 'small', total: 1, succeeded: 0, failed: 1 });
+    expect(result.results[0]).toMatchObject({ success: false, error: 'Invalid record' });
+    expect(eventPublisher.getStats().batchSizes).toEqual({ bytes: 0 });
+  });
+
+  // User Story 17: Compressed batches are unpacked for subscribers
+  it('Batch Publishing Story: should publish a compressed envelope that subscribers receive unpacked', async () => {
+    // Given: A permit import batch published as one compressed event
+    const subscriber = createEventSubscriber(eventBus);
+    const permits: BaseEvent[] = [];
+    subscriber.subscribe('permit.#', async event => {
+      permits.push(event);
+    });
+    const archived: string[] = [];
+    for (let worker = 0; worker < 2; worker++) {
+      eventBus.subscribe(
+        'permit.granted',
+        async event => {
+          archived.push(event.id);
+        },
+        { group: 'archivers' }
+      );
+    }
+    const envelopes: BaseEvent[] = [];
+    eventBus.subscribe(BATCH_PUBLISHED_EVENT_TYPE, async event => {
+      envelopes.push(event);
+    });
+    eventPublisher.startBatch('permits', { enableCompression: 'deflate' });
+
+    // When: Forty similar permits are batched and flushed
+    for (let i = 0; i < 40; i++) {
+      await eventPublisher.publish(
+        createEvent(
+          'permit.granted',
+          { permitId: `permit_${i}`, municipality: '0301' },
+          { nsmClassification: i === 7 ? 'BEGRENSET' : 'ÅPEN' }
+        ),
+        { batchId: 'permits' }
+      );
+    }
+    const result = await eventPublisher.flushBatch('permits');
+
+    // Then: One smaller envelope is published, classified like its most sensitive event
+    expect(envelopes).toHaveLength(1);
+    expect(envelopes[0].nsmClassification).toBe('BEGRENSET');
+    expect(result.succeeded).toBe(40);
+    expect(result.envelope?.encoding).toBe('deflate');
+    expect(result.envelope?.compressedBytes).toBeLessThan(result.envelope?.originalBytes as number);
+
+    // And: The subscriber receives every permit as a normal event
+    expect(permits).toHaveLength(40);
+    expect(permits[0].type).toBe('permit.granted');
+    expect(permits[0].timestamp).toBeInstanceOf(Date);
+    expect((permits[39] as any).permitId).toBe('permit_39');
+
+    // And: The consumer group handles each permit once
+    expect(archived).toHaveLength(40);
+    expect(new Set(archived).size).toBe(40);
+
+    subscriber.unsubscribeAll();
+  });
 });
@@ -0,0 +1,242 @@
+/**
+ * Dispatch Queue
+ * Priority-ordered publishing with bounded in-flight and queued work and configurable overflow handling
+ */
+
+import { getMetricsCollector, MetricsCollector } from '../metrics-sdk';
+
+export type PublishPriority = 'low' | 'normal' | 'high';
+
+export type OverflowPolicy = 'block' | 'drop-oldest' | 'drop-low-priority' | 'reject';
+
+export interface DispatchQueueOptions {
+  maxInFlight?: number;
+  maxQueued?: number;
+  overflowPolicy?: OverflowPolicy;
+  metrics?: MetricsCollector;
+  // Value of the `queue` label on every metric
+  name?: string;
+}
+
+export class QueueOverflowError extends Error {
+  readonly policy: OverflowPolicy;
+  readonly priority: PublishPriority;
+
+  constructor(message: string, policy: OverflowPolicy, priority: PublishPriority) {
+    super(message);
+    this.name = 'QueueOverflowError';
+    this.policy = policy;
+    this.priority = priority;
+  }
+}
+
+interface QueuedTask {
+  sequence: number;
+  priority: PublishPriority;
+  run: () => Promise<any>;
+  resolve: (value: any) => void;
+  reject: (error: unknown) => void;
+}
+
+const PRIORITIES: PublishPriority[] = ['high', 'normal', 'low'];
+
+export class DispatchQueue {
+  private options: Required<Omit<DispatchQueueOptions, 'metrics'>>;
+  private metrics: MetricsCollector;
+  private queues: Record<PublishPriority, QueuedTask[]> = { high: [], normal: [], low: [] };
+  private blocked: QueuedTask[] = [];
+  private inFlight = 0;
+  private sequence = 0;
+  private stats = { published: 0, dropped: 0, rejected: 0 };
+  private reportedGauges = new Map<string, number>();
+
+  constructor(options: DispatchQueueOptions = {}) {
+    this.options = {
+      maxInFlight: 100,
+      maxQueued: 10000,
+      overflowPolicy: 'block',
+      name: 'event_publisher',
+      ...options,
+    };
+    this.metrics = options.metrics || getMetricsCollector();
+  }
+
+  // Run a task once a slot is free, ahead of queued tasks with lower priority
+  enqueue<R = void>(priority: PublishPriority, run: () => Promise<R>): Promise<R> {
+    return new Promise<R>((resolve, reject) => {
+      const task: QueuedTask = { sequence: ++this.sequence, priority, run, resolve, reject };
+
+      if (this.queuedCount() < this.options.maxQueued || this.inFlight < this.options.maxInFlight) {
+        this.queues[priority].push(task);
+      } else {
+        this.handleOverflow(task);
+      }
+
+      this.pump();
+    });
+  }
+
+  getStats() {
+    return {
+      inFlight: this.inFlight,
+      queued: this.queuedCount(),
+      blocked: this.blocked.length,
+      queuedByPriority: {
+        high: this.queues.high.length,
+        normal: this.queues.normal.length,
+        low: this.queues.low.length,
+      },
+      ...this.stats,
+    };
+  }
+
+  // Reject everything still queued or blocked (used on shutdown)
+  clear(): void {
+    const pending = [
+      ...PRIORITIES.flatMap(priority => this.queues[priority].splice(0)),
+      ...this.blocked.splice(0),
+    ];
+    pending.forEach(task => task.reject(new Error('Publish queue cleared')));
+    this.reportDepth();
+  }
+
+  private handleOverflow(task: QueuedTask): void {
+    const policy = this.options.overflowPolicy;
+
+    switch (policy) {
+      case 'block':
+        // The caller's promise stays pending until queue space frees up
+        this.insertByPriority(this.blocked, task);
+        break;
+
+      case 'drop-oldest': {
+        const oldest = PRIORITIES.map(priority => this.queues[priority][0])
+          .filter(Boolean)
+          .sort((a, b) => a.sequence - b.sequence)[0];
+        if (!oldest) {
+          this.drop(task, 'Publish queue does not accept queued events');
+          break;
+        }
+        this.queues[oldest.priority].shift();
+        this.drop(oldest, 'Dropped oldest queued event because the publish queue is full');
+        this.queues[task.priority].push(task);
+        break;
+      }
+
+      case 'drop-low-priority': {
+        // Evict the most recently queued event of the lowest priority below the new one
+        const lower = PRIORITIES.slice(PRIORITIES.indexOf(task.priority) + 1)
+          .reverse()
+          .find(priority => this.queues[priority].length > 0);
+        if (lower) {
+          this.drop(
+            this.queues[lower].pop() as QueuedTask,
+            `Dropped ${lower} priority event for a ${task.priority} priority event`
+          );
+          this.queues[task.priority].push(task);
+        } else {
+          this.drop(task, 'Publish queue is full of events with the same or higher priority');
+        }
+        break;
+      }
+
+      default:
+        this.stats.rejected++;
+        this.metrics.incrementCounter('event_publisher_rejected_total', 1, {
+          queue: this.options.name,
+          priority: task.priority,
+        });
+        task.reject(
+          new QueueOverflowError(
+            `Publish queue is full (max ${this.options.maxQueued} queued events)`,
+            policy,
+            task.priority
+          )
+        );
+    }
+  }
+
+  private drop(task: QueuedTask, message: string): void {
+    this.stats.dropped++;
+    this.metrics.incrementCounter('event_publisher_dropped_total', 1, {
+      queue: this.options.name,
+      priority: task.priority,
+      policy: this.options.overflowPolicy,
+    });
+    task.reject(new QueueOverflowError(message, this.options.overflowPolicy, task.priority));
+  }
+
+  // Start queued tasks while in-flight slots are free, highest priority first
+  private pump(): void {
+    while (this.inFlight < this.options.maxInFlight) {
+      const task = this.takeNext() || this.blocked.shift();
+      if (!task) break;
+      this.start(task);
+    }
+    this.admitBlocked();
+    this.reportDepth();
+  }
+
+  private takeNext(): QueuedTask | undefined {
+    for (const priority of PRIORITIES) {
+      const task = this.queues[priority].shift();
+      if (task) return task;
+    }
+    return undefined;
+  }
+
+  private start(task: QueuedTask): void {
+    this.inFlight++;
+
+    task
+      .run()
+      .then(value => {
+        this.stats.published++;
+        task.resolve(value);
+      }, task.reject)
+      .finally(() => {
+        this.inFlight--;
+        this.pump();
+      });
+  }
+
+  // Move blocked callers into the queue as space frees up
+  private admitBlocked(): void {
+    while (this.blocked.length > 0 && this.queuedCount() < this.options.maxQueued) {
+      const task = this.blocked.shift() as QueuedTask;
+      this.queues[task.priority].push(task);
+    }
+  }
+
+  private insertByPriority(list: QueuedTask[], task: QueuedTask): void {
+    const rank = PRIORITIES.indexOf(task.priority);
+    const index = list.findIndex(other => PRIORITIES.indexOf(other.priority) > rank);
+    if (index === -1) {
+      list.push(task);
+    } else {
+      list.splice(index, 0, task);
+    }
+  }
+
+  private queuedCount(): number {
+    return this.queues.high.length + this.queues.normal.length + this.queues.low.length;
+  }
+
+  // Runs on every enqueue and completion, so only gauges whose value changed are recorded
+  private reportDepth(): void {
+    this.reportGauge('event_publisher_in_flight', this.inFlight);
+    this.reportGauge('event_publisher_blocked', this.blocked.length);
+    PRIORITIES.forEach(priority => {
+      this.reportGauge('event_publisher_queue_depth', this.queues[priority].length, priority);
+    });
+  }
+
+  private reportGauge(name: string, value: number, priority?: PublishPriority): void {
+    const key = priority ? `${name}:${priority}` : name;
+    if (this.reportedGauges.get(key) === value) return;
+
+    this.reportedGauges.set(key, value);
+    const labels = { queue: this.options.name };
+    this.metrics.setGauge(name, value, priority ? { ...labels, priority } : labels);
+  }
+}
@@ -3,45 +3,129 @@
  * Advanced event publishing with batching, scheduling, and compliance validation
  */
 
-import { BaseEvent, EventBus, getEventBus } from '../event-core';
+import { BaseEvent, BatchCompression, EventBus, getEventBus, packBatch } from '../event-core';
+import { DispatchQueue, DispatchQueueOptions, PublishPriority } from './dispatch-queue';
+import { OutboxEntry, OutboxRelay, OutboxRelayOptions, OutboxStore } from './outbox';
+import {
+  CatchUpPolicy,
+  EventScheduler,
+  EventSchedulerOptions,
+  ScheduledEvent,
+  ScheduleStore,
+} from './scheduler';
+
+export * from './dispatch-queue';
+export * from './outbox';
+export * from './recurrence';
+export * from './scheduler';
 
 export interface PublishOptions {
   delay?: number;
-  priority?: 'low' | 'normal' | 'high';
+  priority?: PublishPriority;
   retries?: number;
   validateCompliance?: boolean;
   batchId?: string;
+  idempotencyKey?: string;
 }
 
 export interface BatchPublishOptions {
   maxBatchSize?: number;
+  maxBatchBytes?: number;
   flushInterval?: number;
-  enableCompression?: boolean;
+  // Publish the batch as one compressed `batch.published` envelope (true means gzip)
+  enableCompression?: boolean | BatchCompression;
 }
 
-export interface ScheduledEvent {
-  event: BaseEvent;
-  publishAt: Date;
-  options?: PublishOptions;
+export interface BatchEventResult {
+  eventId: string;
+  eventType: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface BatchFlushResult {
+  batchId: string;
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: BatchEventResult[];
+  envelope?: {
+    eventId: string;
+    encoding: BatchCompression;
+    originalBytes: number;
+    compressedBytes: number;
+  };
+}
+
+interface BatchState {
+  events: BaseEvent[];
+  bytes: number;
+  options: BatchPublishOptions;
+  flushTimer?: NodeJS.Timeout;
+}
+
+export interface EventPublisherOptions {
+  queue?: DispatchQueueOptions;
+}
+
+export interface RecurringScheduleOptions extends PublishOptions {
+  scheduleId?: string;
+  startAt?: Date;
+  endAt?: Date;
+  catchUp?: CatchUpPolicy;
 }
 
 export class EventPublisher {
   private eventBus: EventBus;
-  private eventQueue: Array<{ event: BaseEvent; options: PublishOptions }> = [];
-  private scheduledEvents: ScheduledEvent[] = [];
-  private batchBuffer: Map<string, BaseEvent[]> = new Map();
-  private flushTimer?: NodeJS.Timeout;
-  private scheduledTimeouts: Set<NodeJS.Timeout> = new Set(); // Track scheduled timeouts for cleanup
+  private queue: DispatchQueue;
+  private batches: Map<string, BatchState> = new Map();
+  private outboxStore?: OutboxStore;
+  private outboxRelay?: OutboxRelay;
+  private scheduler: EventScheduler;
 
-  constructor(eventBus?: EventBus) {
+  constructor(eventBus?: EventBus, options: EventPublisherOptions = {}) {
     this.eventBus = eventBus || getEventBus();
+    this.queue = new DispatchQueue(options.queue);
+    this.scheduler = new EventScheduler((event, options) => this.publishNow(event, options));
   }
 
   /**
    * Initialize the event publisher
+   * Restores persisted schedules and publishes occurrences missed while the process was down
    */
   async initialize(): Promise<void> {
-    // Initialize any resources if needed
+    await this.scheduler.restore();
+  }
+
+  // Persist schedules in the given store; call initialize() afterwards to restore them
+  withScheduleStore(
+    store: ScheduleStore,
+    options: Omit<EventSchedulerOptions, 'store'> = {}
+  ): this {
+    this.scheduler.setStore(store, options);
+    return this;
+  }
+
+  /**
+   * Record events in an outbox before they reach the event bus.
+   * A background relay delivers them with retries, so an event survives a crash after it is recorded.
+   */
+  withOutbox(store: OutboxStore, options: OutboxRelayOptions = {}): this {
+    this.outboxRelay?.stop();
+
+    this.outboxStore = store;
+    this.outboxRelay = new OutboxRelay(store, entry => this.relayOutboxEntry(entry), options);
+    this.outboxRelay.start();
+    return this;
+  }
+
+  getOutboxStore(): OutboxStore | undefined {
+    return this.outboxStore;
+  }
+
+  // Relay due outbox entries immediately, returning how many were delivered
+  async flushOutbox(): Promise<number> {
+    return this.outboxRelay ? this.outboxRelay.trigger() : 0;
   }
 
   // Publish single event with options
@@ -51,36 +135,31 @@ export class EventPublisher {
       this.validateNorwegianCompliance(event);
     }
 
-    // Handle delayed publishing
+    // Delayed events go through the scheduler, so they are persisted, listed and cancellable
     if (options.delay && options.delay > 0) {
-      const timeoutId = setTimeout(() => {
-        this.publishNow(event);
-        this.scheduledTimeouts.delete(timeoutId);
-      }, options.delay);
-      this.scheduledTimeouts.add(timeoutId);
+      const { delay, ...scheduleOptions } = options;
+      this.scheduleEvent(event, new Date(Date.now() + delay), scheduleOptions);
       return;
     }
 
-    // Handle batch publishing
+    // Handle batch publishing; a full batch is flushed right away
     if (options.batchId) {
-      this.addToBatch(options.batchId, event);
+      if (this.addToBatch(options.batchId, event)) {
+        await this.flushBatch(options.batchId);
+      }
       return;
     }
 
     // Immediate publishing
-    await this.publishNow(event);
+    await this.publishNow(event, options);
   }
 
-  // Publish multiple events
+  // Publish multiple events; they are queued at the given priority
   async publishBatch<T extends BaseEvent>(
     events: T[],
     options: PublishOptions = {}
   ): Promise<void> {
-    // Sort by priority if specified
-    const sortedEvents = this.sortByPriority(events, options.priority);
-
-    // Publish all events
-    await Promise.all(sortedEvents.map(event => this.publishNow(event)));
+    await Promise.all(events.map(event => this.publishNow(event, options)));
   }
 
   // Schedule event for future publishing
@@ -89,53 +168,119 @@ export class EventPublisher {
     publishAt: Date,
     options: PublishOptions = {}
   ): string {
-    const scheduledEvent: ScheduledEvent = {
+    return this.scheduler.schedule({ id: event.id, event, publishAt, options }).id;
+  }
+
+  // Schedule an event by cron expression or ISO 8601 repeating interval (e.g. 'R/P1D')
+  scheduleRecurring<T extends BaseEvent>(
+    event: T,
+    recurrence: string,
+    options: RecurringScheduleOptions = {}
+  ): string {
+    const { scheduleId, startAt, endAt, catchUp, ...publishOptions } = options;
+    return this.scheduler.schedule({
+      id: scheduleId || `schedule_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       event,
-      publishAt,
-      options,
-    };
+      recurrence,
+      options: publishOptions,
+      startAt,
+      endAt,
+      catchUp,
+    }).id;
+  }
 
-    this.scheduledEvents.push(scheduledEvent);
-    this.scheduleEventExecution(scheduledEvent);
+  cancelScheduled(id: string): boolean {
+    return this.scheduler.cancel(id);
+  }
 
-    return event.id;
+  listScheduled(): ScheduledEvent[] {
+    return this.scheduler.list();
   }
 
-  // Start batch publishing with auto-flush
+  // Start batch publishing with its own auto-flush timer
   startBatch(batchId: string, options: BatchPublishOptions = {}): void {
     const {
       flushInterval = 5000, // 5 seconds
     } = options;
 
-    if (!this.batchBuffer.has(batchId)) {
-      this.batchBuffer.set(batchId, []);
-    }
+    const batch = this.getBatch(batchId);
+    batch.options = options;
 
-    // Set up auto-flush timer
-    this.flushTimer = setInterval(() => {
-      this.flushBatch(batchId);
+    if (batch.flushTimer) {
+      clearInterval(batch.flushTimer);
+    }
+    batch.flushTimer = setInterval(() => {
+      this.flushBatch(batchId).catch(error => console.error('Batch flush failed:', error));
     }, flushInterval);
-  }
 
-  // Manually flush a batch
-  async flushBatch(batchId: string): Promise<void> {
-    const events = this.batchBuffer.get(batchId);
-    if (!events || events.length === 0) return;
+    // Unref so it doesn't keep process alive
+    if (typeof batch.flushTimer.unref === 'function') {
+      batch.flushTimer.unref();
+    }
+  }
 
-    await Promise.all(events.map(event => this.publishNow(event)));
+  // Manually flush a batch, reporting the outcome for every event
+  async flushBatch(batchId: string): Promise<BatchFlushResult> {
+    const batch = this.batches.get(batchId);
+    const events = batch ? batch.events.splice(0) : [];
+    if (batch) batch.bytes = 0;
+
+    const result: BatchFlushResult = {
+      batchId,
+      total: events.length,
+      succeeded: 0,
+      failed: 0,
+      results: [],
+    };
+    if (!batch || events.length === 0) return result;
+
+    const compression = batch.options.enableCompression;
+    if (compression) {
+      const envelope = await packBatch(
+        batchId,
+        events,
+        compression === true ? 'gzip' : compression
+      );
+      result.envelope = {
+        eventId: envelope.id,
+        encoding: envelope.encoding,
+        originalBytes: envelope.originalBytes,
+        compressedBytes: envelope.compressedBytes,
+      };
+
+      // The envelope is published as one event, so its outcome applies to every event in it
+      const error = await this.publishNow(envelope).then(
+        () => undefined,
+        (reason: unknown) => reason
+      );
+      result.results = events.map(event => this.toBatchEventResult(event, error));
+    } else {
+      const outcomes = await Promise.allSettled(events.map(event => this.publishNow(event)));
+      result.results = events.map((event, index) => {
+        const outcome = outcomes[index];
+        return this.toBatchEventResult(
+          event,
+          outcome.status === 'rejected' ? outcome.reason : undefined
+        );
+      });
+    }
 
-    this.batchBuffer.set(batchId, []);
+    result.succeeded = result.results.filter(entry => entry.success).length;
+    result.failed = result.total - result.succeeded;
+    return result;
   }
 
   // Stop batch and flush remaining events
-  async stopBatch(batchId: string): Promise<void> {
-    if (this.flushTimer) {
-      clearInterval(this.flushTimer);
-      this.flushTimer = undefined;
+  async stopBatch(batchId: string): Promise<BatchFlushResult> {
+    const batch = this.batches.get(batchId);
+    if (batch?.flushTimer) {
+      clearInterval(batch.flushTimer);
+      batch.flushTimer = undefined;
     }
 
-    await this.flushBatch(batchId);
-    this.batchBuffer.delete(batchId);
+    const result = await this.flushBatch(batchId);
+    this.batches.delete(batchId);
+    return result;
   }
 
   // Validate Norwegian compliance requirements
@@ -174,102 +319,103 @@ export class EventPublisher {
     return personalDataPatterns.some(pattern => pattern.test(eventString));
   }
 
-  // Add event to batch buffer
-  private addToBatch(batchId: string, event: BaseEvent): void {
-    if (!this.batchBuffer.has(batchId)) {
-      this.batchBuffer.set(batchId, []);
-    }
-    const batch = this.batchBuffer.get(batchId);
-    if (batch) {
-      batch.push(event);
+  private getBatch(batchId: string): BatchState {
+    let batch = this.batches.get(batchId);
+    if (!batch) {
+      batch = { events: [], bytes: 0, options: {} };
+      this.batches.set(batchId, batch);
     }
+    return batch;
   }
 
-  // Sort events by priority
-  private sortByPriority<T extends BaseEvent>(
-    events: T[],
-    priority?: PublishOptions['priority']
-  ): T[] {
-    if (!priority) return events;
-
-    const priorityOrder = { high: 3, normal: 2, low: 1 };
-    return [...events].sort(() => {
-      const eventPriority = priorityOrder[priority] || 2;
-      return eventPriority;
-    });
+  // Add event to batch buffer, returning whether the batch reached its size or byte limit
+  private addToBatch(batchId: string, event: BaseEvent): boolean {
+    const batch = this.getBatch(batchId);
+    batch.events.push(event);
+    batch.bytes += Buffer.byteLength(JSON.stringify(event));
+
+    const { maxBatchSize, maxBatchBytes } = batch.options;
+    return (
+      (maxBatchSize !== undefined && batch.events.length >= maxBatchSize) ||
+      (maxBatchBytes !== undefined && batch.bytes >= maxBatchBytes)
+    );
   }
 
-  // Schedule event execution
-  private scheduleEventExecution(scheduledEvent: ScheduledEvent): void {
-    const delay = scheduledEvent.publishAt.getTime() - Date.now();
-
-    if (delay <= 0) {
-      this.publishNow(scheduledEvent.event);
-      return;
+  private toBatchEventResult(event: BaseEvent, error: unknown): BatchEventResult {
+    if (error === undefined) {
+      return { eventId: event.id, eventType: event.type, success: true };
     }
+    return {
+      eventId: event.id,
+      eventType: event.type,
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
 
-    const timeoutId = setTimeout(() => {
-      this.publishNow(scheduledEvent.event);
-      // Remove from scheduled events
-      const index = this.scheduledEvents.indexOf(scheduledEvent);
-      if (index > -1) {
-        this.scheduledEvents.splice(index, 1);
-      }
-      // Remove timeout from tracking
-      this.scheduledTimeouts.delete(timeoutId);
-    }, delay);
+  // Queue event for publishing; resolves once it has been published or recorded
+  private publishNow<T extends BaseEvent>(event: T, options: PublishOptions = {}): Promise<void> {
+    return this.queue.enqueue(options.priority || 'normal', () => this.dispatch(event, options));
+  }
 
-    // Unref so it doesn't keep process alive
-    if (typeof timeoutId.unref === 'function') {
-      timeoutId.unref();
+  // Publish event immediately, or record it for the outbox relay
+  private async dispatch<T extends BaseEvent>(event: T, options: PublishOptions): Promise<void> {
+    if (!this.outboxStore || !this.outboxRelay) {
+      await this.eventBus.publish(event);
+      return;
     }
 
-    // Track timeout for cleanup
-    this.scheduledTimeouts.add(timeoutId);
+    await this.outboxStore.add(event, options.idempotencyKey);
+    this.outboxRelay.trigger().catch(error => console.error('Outbox relay failed:', error));
   }
 
-  // Publish event immediately
-  private async publishNow<T extends BaseEvent>(event: T): Promise<void> {
-    await this.eventBus.publish(event);
+  // Deliver an outbox entry, tagging it so consumers can deduplicate redeliveries
+  private async relayOutboxEntry(entry: OutboxEntry): Promise<void> {
+    await this.eventBus.publish({
+      ...entry.event,
+      metadata: {
+        ...entry.event.metadata,
+        idempotencyKey: entry.idempotencyKey,
+      },
+    });
   }
 
   // Get publishing statistics
   getStats() {
     return {
-      queuedEvents: this.eventQueue.length,
-      scheduledEvents: this.scheduledEvents.length,
-      activeBatches: this.batchBuffer.size,
+      queuedEvents: this.queue.getStats().queued,
+      queue: this.queue.getStats(),
+      scheduledEvents: this.scheduler.getStats().scheduled,
+      scheduler: this.scheduler.getStats(),
+      activeBatches: this.batches.size,
       batchSizes: Object.fromEntries(
-        Array.from(this.batchBuffer.entries()).map(([id, events]) => [id, events.length])
+        Array.from(this.batches.entries()).map(([id, batch]) => [id, batch.events.length])
       ),
+      outbox: this.outboxRelay?.getStats(),
     };
   }
 
   /**
-   * Clean up all scheduled timeouts and queues
+   * Clean up the scheduler timer and queues
    * Should be called in tests or when shutting down
    */
   public cleanup(): void {
-    // Clear all scheduled timeouts
-    for (const timeoutId of this.scheduledTimeouts) {
-      clearTimeout(timeoutId);
-    }
-    this.scheduledTimeouts.clear();
-
-    // Clear all scheduled events
-    this.scheduledEvents = [];
+    // Stop the scheduler; persisted schedules stay in their store
+    this.scheduler.stop();
 
-    // Clear event queue
-    this.eventQueue = [];
+    // Reject events still waiting in the publish queue
+    this.queue.clear();
 
-    // Clear batch buffer
-    this.batchBuffer.clear();
-
-    // Clear flush timer
-    if (this.flushTimer) {
-      clearInterval(this.flushTimer);
-      this.flushTimer = undefined;
+    // Clear batch buffers and their flush timers
+    for (const batch of this.batches.values()) {
+      if (batch.flushTimer) {
+        clearInterval(batch.flushTimer);
+      }
     }
+    this.batches.clear();
+
+    // Stop the outbox relay; recorded entries stay in the store
+    this.outboxRelay?.stop();
   }
 }
 
@@ -283,8 +429,11 @@ export const getEventPublisher = (): EventPublisher => {
   return defaultPublisher;
 };
 
-export const createEventPublisher = (eventBus?: EventBus): EventPublisher => {
-  return new EventPublisher(eventBus);
+export const createEventPublisher = (
+  eventBus?: EventBus,
+  options?: EventPublisherOptions
+): EventPublisher => {
+  return new EventPublisher(eventBus, options);
 };
 
 // Convenience functions
@@ -302,3 +451,11 @@ export const scheduleEvent = <T extends BaseEvent>(
 ): string => {
   return getEventPublisher().scheduleEvent(event, publishAt, options);
 };
+
+export const scheduleRecurringEvent = <T extends BaseEvent>(
+  event: T,
+  recurrence: string,
+  options?: RecurringScheduleOptions
+): string => {
+  return getEventPublisher().scheduleRecurring(event, recurrence, options);
+};
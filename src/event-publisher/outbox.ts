@@ -0,0 +1,492 @@
+/**
+ * Transactional Outbox
+ * Events are recorded in a durable store first and relayed to the event bus in the background
+ */
+
+import { promises as fs } from 'fs';
+
+import { AtomicFileWriter, BaseEvent, reviveEvent } from '../event-core';
+
+export type OutboxEntryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface OutboxEntry<T extends BaseEvent = BaseEvent> {
+  id: string;
+  idempotencyKey: string;
+  event: T;
+  status: OutboxEntryStatus;
+  attempts: number;
+  createdAt: Date;
+  nextAttemptAt: Date;
+  deliveredAt?: Date;
+  lastError?: string;
+}
+
+export interface OutboxStore {
+  // Record an event; an existing entry with the same idempotency key is returned unchanged
+  add(event: BaseEvent, idempotencyKey?: string): Promise<OutboxEntry>;
+  // Pending entries due for delivery, oldest first
+  fetchDue(limit: number, now?: Date): Promise<OutboxEntry[]>;
+  markDelivered(id: string): Promise<void>;
+  // Schedule another attempt, or mark the entry failed when no retry time is given
+  markFailed(id: string, error: string, retryAt?: Date): Promise<void>;
+  get(id: string): Promise<OutboxEntry | undefined>;
+  list(status?: OutboxEntryStatus): Promise<OutboxEntry[]>;
+  purgeDelivered(olderThan?: Date): Promise<number>;
+}
+
+export interface OutboxRelayOptions {
+  pollInterval?: number;
+  batchSize?: number;
+  maxAttempts?: number;
+  baseDelay?: number;
+  maxDelay?: number;
+  // Delivered entries older than this many ms are purged after each run; Infinity keeps them
+  retainDelivered?: number;
+}
+
+export type OutboxDeliver = (entry: OutboxEntry) => Promise<void>;
+
+const generateOutboxId = (): string => {
+  return `outbox_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+};
+
+export class InMemoryOutboxStore implements OutboxStore {
+  private entries: Map<string, OutboxEntry> = new Map();
+  private keys: Map<string, string> = new Map();
+
+  async add(event: BaseEvent, idempotencyKey: string = event.id): Promise<OutboxEntry> {
+    const existingId = this.keys.get(idempotencyKey);
+    const existing = existingId ? this.entries.get(existingId) : undefined;
+    if (existing) return { ...existing };
+
+    const now = new Date();
+    const entry: OutboxEntry = {
+      id: generateOutboxId(),
+      idempotencyKey,
+      event,
+      status: 'pending',
+      attempts: 0,
+      createdAt: now,
+      nextAttemptAt: now,
+    };
+
+    this.entries.set(entry.id, entry);
+    this.keys.set(idempotencyKey, entry.id);
+    return { ...entry };
+  }
+
+  async fetchDue(limit: number, now: Date = new Date()): Promise<OutboxEntry[]> {
+    return Array.from(this.entries.values())
+      .filter(entry => entry.status === 'pending' && entry.nextAttemptAt <= now)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .slice(0, limit)
+      .map(entry => ({ ...entry }));
+  }
+
+  async markDelivered(id: string): Promise<void> {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+
+    entry.status = 'delivered';
+    entry.attempts++;
+    entry.deliveredAt = new Date();
+    entry.lastError = undefined;
+  }
+
+  async markFailed(id: string, error: string, retryAt?: Date): Promise<void> {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+
+    entry.attempts++;
+    entry.lastError = error;
+    if (retryAt) {
+      entry.nextAttemptAt = retryAt;
+    } else {
+      entry.status = 'failed';
+    }
+  }
+
+  async get(id: string): Promise<OutboxEntry | undefined> {
+    const entry = this.entries.get(id);
+    return entry ? { ...entry } : undefined;
+  }
+
+  async list(status?: OutboxEntryStatus): Promise<OutboxEntry[]> {
+    return Array.from(this.entries.values())
+      .filter(entry => !status || entry.status === status)
+      .map(entry => ({ ...entry }));
+  }
+
+  // Delivered entries keep their idempotency key until purged
+  async purgeDelivered(olderThan: Date = new Date()): Promise<number> {
+    let purged = 0;
+    for (const entry of Array.from(this.entries.values())) {
+      if (entry.status === 'delivered' && entry.deliveredAt && entry.deliveredAt <= olderThan) {
+        this.entries.delete(entry.id);
+        this.keys.delete(entry.idempotencyKey);
+        purged++;
+      }
+    }
+    return purged;
+  }
+}
+
+// Minimal structural view of sql.js so it stays an optional dependency
+interface SqlJsStatement {
+  bind(params?: unknown[]): boolean;
+  step(): boolean;
+  getAsObject(): Record<string, unknown>;
+  free(): boolean;
+}
+
+interface SqlJsDatabase {
+  run(sql: string, params?: unknown[]): unknown;
+  prepare(sql: string): SqlJsStatement;
+  getRowsModified(): number;
+  export(): Uint8Array;
+  close(): void;
+}
+
+export interface SqlJsModule {
+  Database: new (data?: ArrayLike<number> | null) => SqlJsDatabase;
+}
+
+export interface SqliteOutboxStoreOptions {
+  // Database file; omit to keep the database in memory
+  filename?: string;
+  // Pre-initialised sql.js module, e.g. when the wasm file is served from a custom location
+  sqlJs?: SqlJsModule;
+  // Delay in ms before delivery status changes are written, so a relay run is written once
+  flushDelay?: number;
+}
+
+const OUTBOX_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS outbox (
+    id TEXT PRIMARY KEY,
+    idempotency_key TEXT NOT NULL UNIQUE,
+    event TEXT NOT NULL,
+    status TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    created_at INTEGER NOT NULL,
+    next_attempt_at INTEGER NOT NULL,
+    delivered_at INTEGER,
+    last_error TEXT
+  );
+  CREATE INDEX IF NOT EXISTS outbox_due ON outbox (status, next_attempt_at);
+`;
+
+const loadSqlJs = async (): Promise<SqlJsModule> => {
+  try {
+    const initSqlJs = (await import('sql.js')).default;
+    return (await initSqlJs()) as unknown as SqlJsModule;
+  } catch (error) {
+    throw new Error(
+      `SqliteOutboxStore requires the optional 'sql.js' package: ${(error as Error).message}`
+    );
+  }
+};
+
+export class SqliteOutboxStore implements OutboxStore {
+  private options: SqliteOutboxStoreOptions;
+  private database?: Promise<SqlJsDatabase>;
+  private writer?: AtomicFileWriter;
+  private queuedWrite?: Promise<void>;
+  private flushTimer?: NodeJS.Timeout;
+
+  constructor(options: SqliteOutboxStoreOptions = {}) {
+    this.options = options;
+    this.writer = options.filename ? new AtomicFileWriter(options.filename) : undefined;
+  }
+
+  async add(event: BaseEvent, idempotencyKey: string = event.id): Promise<OutboxEntry> {
+    const db = await this.open();
+    const now = Date.now();
+
+    db.run(
+      `INSERT OR IGNORE INTO outbox (id, idempotency_key, event, status, attempts, created_at, next_attempt_at)
+       VALUES (?, ?, ?, 'pending', 0, ?, ?)`,
+      [generateOutboxId(), idempotencyKey, JSON.stringify(event), now, now]
+    );
+    if (db.getRowsModified() > 0) {
+      await this.persist(db);
+    }
+
+    const [entry] = this.query(db, 'SELECT * FROM outbox WHERE idempotency_key = ?', [
+      idempotencyKey,
+    ]);
+    return entry;
+  }
+
+  async fetchDue(limit: number, now: Date = new Date()): Promise<OutboxEntry[]> {
+    const db = await this.open();
+    return this.query(
+      db,
+      `SELECT * FROM outbox WHERE status = 'pending' AND next_attempt_at <= ?
+       ORDER BY created_at, rowid LIMIT ?`,
+      [now.getTime(), limit]
+    );
+  }
+
+  async markDelivered(id: string): Promise<void> {
+    const db = await this.open();
+    db.run(
+      `UPDATE outbox SET status = 'delivered', attempts = attempts + 1, delivered_at = ?,
+       last_error = NULL WHERE id = ?`,
+      [Date.now(), id]
+    );
+    this.schedulePersist(db);
+  }
+
+  async markFailed(id: string, error: string, retryAt?: Date): Promise<void> {
+    const db = await this.open();
+    if (retryAt) {
+      db.run(
+        `UPDATE outbox SET attempts = attempts + 1, last_error = ?, next_attempt_at = ?
+         WHERE id = ?`,
+        [error, retryAt.getTime(), id]
+      );
+    } else {
+      db.run(
+        `UPDATE outbox SET status = 'failed', attempts = attempts + 1, last_error = ? WHERE id = ?`,
+        [error, id]
+      );
+    }
+    this.schedulePersist(db);
+  }
+
+  async get(id: string): Promise<OutboxEntry | undefined> {
+    const db = await this.open();
+    return this.query(db, 'SELECT * FROM outbox WHERE id = ?', [id])[0];
+  }
+
+  async list(status?: OutboxEntryStatus): Promise<OutboxEntry[]> {
+    const db = await this.open();
+    return status
+      ? this.query(db, 'SELECT * FROM outbox WHERE status = ? ORDER BY created_at, rowid', [status])
+      : this.query(db, 'SELECT * FROM outbox ORDER BY created_at, rowid');
+  }
+
+  async purgeDelivered(olderThan: Date = new Date()): Promise<number> {
+    const db = await this.open();
+    db.run(`DELETE FROM outbox WHERE status = 'delivered' AND delivered_at <= ?`, [
+      olderThan.getTime(),
+    ]);
+    const purged = db.getRowsModified();
+    if (purged > 0) {
+      this.schedulePersist(db);
+    }
+    return purged;
+  }
+
+  // Flush pending writes and release the database
+  async close(): Promise<void> {
+    if (!this.database) return;
+
+    const db = await this.database;
+    if (this.flushTimer) {
+      await this.persist(db);
+    }
+    await this.writer?.flush();
+    db.close();
+    this.database = undefined;
+  }
+
+  private open(): Promise<SqlJsDatabase> {
+    if (!this.database) {
+      this.database = this.initialize();
+    }
+    return this.database;
+  }
+
+  private async initialize(): Promise<SqlJsDatabase> {
+    const SQL = this.options.sqlJs || (await loadSqlJs());
+
+    let data: Uint8Array | undefined;
+    if (this.options.filename) {
+      try {
+        data = await fs.readFile(this.options.filename);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      }
+    }
+
+    const db = new SQL.Database(data);
+    db.run(OUTBOX_SCHEMA);
+    return db;
+  }
+
+  // Changes made before a queued export starts are written by that export
+  private persist(db: SqlJsDatabase): Promise<void> {
+    if (!this.writer) return Promise.resolve();
+
+    clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+    if (!this.queuedWrite) {
+      this.queuedWrite = this.writer.write(() => {
+        this.queuedWrite = undefined;
+        return db.export();
+      });
+    }
+    return this.queuedWrite;
+  }
+
+  // Status changes lost in a crash only cause a redelivery, so they are written after flushDelay
+  private schedulePersist(db: SqlJsDatabase): void {
+    if (!this.writer || this.flushTimer) return;
+
+    this.flushTimer = setTimeout(() => {
+      this.persist(db).catch(error => console.error('Outbox write failed:', error));
+    }, this.options.flushDelay ?? 100);
+
+    // Unref so it doesn't keep process alive
+    if (typeof this.flushTimer.unref === 'function') {
+      this.flushTimer.unref();
+    }
+  }
+
+  private query(db: SqlJsDatabase, sql: string, params: unknown[] = []): OutboxEntry[] {
+    const statement = db.prepare(sql);
+    const entries: OutboxEntry[] = [];
+    try {
+      statement.bind(params);
+      while (statement.step()) {
+        entries.push(toOutboxEntry(statement.getAsObject()));
+      }
+    } finally {
+      statement.free();
+    }
+    return entries;
+  }
+}
+
+// Map a database row back to an entry, restoring dates lost in serialisation
+function toOutboxEntry(row: Record<string, unknown>): OutboxEntry {
+  const event = JSON.parse(row.event as string);
+  return {
+    id: row.id as string,
+    idempotencyKey: row.idempotency_key as string,
+    event: reviveEvent(event),
+    status: row.status as OutboxEntryStatus,
+    attempts: row.attempts as number,
+    createdAt: new Date(row.created_at as number),
+    nextAttemptAt: new Date(row.next_attempt_at as number),
+    deliveredAt: row.delivered_at !== null ? new Date(row.delivered_at as number) : undefined,
+    lastError: (row.last_error as string | null) ?? undefined,
+  };
+}
+
+export class OutboxRelay {
+  private store: OutboxStore;
+  private deliver: OutboxDeliver;
+  private options: Required<OutboxRelayOptions>;
+  private pollTimer?: NodeJS.Timeout;
+  private running?: Promise<number>;
+  private stats = { delivered: 0, retried: 0, failed: 0 };
+
+  constructor(store: OutboxStore, deliver: OutboxDeliver, options: OutboxRelayOptions = {}) {
+    this.store = store;
+    this.deliver = deliver;
+    this.options = {
+      pollInterval: 1000,
+      batchSize: 50,
+      maxAttempts: 5,
+      baseDelay: 1000,
+      maxDelay: 60000,
+      retainDelivered: 24 * 60 * 60 * 1000,
+      ...options,
+    };
+  }
+
+  // Poll the store in the background
+  start(): void {
+    if (this.pollTimer) return;
+
+    this.pollTimer = setInterval(() => {
+      this.trigger().catch(error => console.error('Outbox relay failed:', error));
+    }, this.options.pollInterval);
+
+    // Unref so it doesn't keep process alive
+    if (typeof this.pollTimer.unref === 'function') {
+      this.pollTimer.unref();
+    }
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.pollTimer !== undefined;
+  }
+
+  // Relay due entries now; joins a run that is already in progress
+  trigger(): Promise<number> {
+    if (!this.running) {
+      this.running = this.relayDue().finally(() => {
+        this.running = undefined;
+      });
+    }
+    return this.running;
+  }
+
+  getStats() {
+    return {
+      running: this.isRunning(),
+      ...this.stats,
+    };
+  }
+
+  // Deliver due entries in creation order until none are due, returning how many were delivered
+  private async relayDue(): Promise<number> {
+    let delivered = 0;
+
+    for (;;) {
+      const entries = await this.store.fetchDue(this.options.batchSize);
+      if (entries.length === 0) break;
+
+      for (const entry of entries) {
+        try {
+          await this.deliver(entry);
+          await this.store.markDelivered(entry.id);
+          this.stats.delivered++;
+          delivered++;
+        } catch (error) {
+          const attempts = entry.attempts + 1;
+          const message = error instanceof Error ? error.message : String(error);
+
+          if (attempts >= this.options.maxAttempts) {
+            await this.store.markFailed(entry.id, message);
+            this.stats.failed++;
+          } else {
+            await this.store.markFailed(entry.id, message, this.calculateRetryAt(attempts));
+            this.stats.retried++;
+          }
+        }
+      }
+    }
+
+    if (Number.isFinite(this.options.retainDelivered)) {
+      await this.store.purgeDelivered(new Date(Date.now() - this.options.retainDelivered));
+    }
+    return delivered;
+  }
+
+  private calculateRetryAt(attempts: number): Date {
+    const delay = Math.min(
+      this.options.baseDelay * Math.pow(2, attempts - 1),
+      this.options.maxDelay
+    );
+    return new Date(Date.now() + delay);
+  }
+}
+
+export const createInMemoryOutboxStore = (): OutboxStore => {
+  return new InMemoryOutboxStore();
+};
+
+export const createSqliteOutboxStore = (options?: SqliteOutboxStoreOptions): SqliteOutboxStore => {
+  return new SqliteOutboxStore(options);
+};
@@ -0,0 +1,254 @@
+/**
+ * Recurrence Expressions
+ * Cron expressions and ISO 8601 repeating intervals evaluated in server local time
+ */
+
+export interface Recurrence {
+  expression: string;
+  // First occurrence strictly after the given time, or undefined when the recurrence has ended
+  next(after: Date): Date | undefined;
+}
+
+interface IsoDuration {
+  years: number;
+  months: number;
+  days: number;
+  milliseconds: number;
+}
+
+const CRON_MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = 'JAN FEB MAR APR MAY JUN JUL AUG SEP OCT NOV DEC'.split(' ');
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+// Bound the search so impossible expressions (e.g. 30 February) end instead of looping
+const MAX_CRON_ITERATIONS = 100000;
+const MAX_INTERVAL_ITERATIONS = 1000000;
+
+export const isCronExpression = (expression: string): boolean => {
+  const trimmed = expression.trim();
+  return trimmed in CRON_MACROS || trimmed.split(/\s+/).length === 5;
+};
+
+export const isRepeatingInterval = (expression: string): boolean => {
+  return /^R\d*\//.test(expression.trim());
+};
+
+/**
+ * Parse a cron expression (`minute hour day-of-month month day-of-week`) or an
+ * ISO 8601 repeating interval (`R/P1D`, `R5/2025-01-01T08:00:00/PT12H`).
+ * Intervals without a start are anchored at `anchor` and first occur one period later.
+ */
+export const parseRecurrence = (expression: string, anchor: Date = new Date()): Recurrence => {
+  if (isRepeatingInterval(expression)) {
+    return parseRepeatingInterval(expression, anchor);
+  }
+  if (isCronExpression(expression)) {
+    return parseCron(expression);
+  }
+  throw new Error(`Invalid recurrence expression '${expression}'`);
+};
+
+export const parseCron = (expression: string): Recurrence => {
+  const normalized = CRON_MACROS[expression.trim()] || expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression '${expression}': expected 5 fields`);
+  }
+
+  const [minuteField, hourField, dayField, monthField, weekdayField] = fields;
+  const minutes = parseCronField(expression, minuteField, 0, 59);
+  const hours = parseCronField(expression, hourField, 0, 23);
+  const days = parseCronField(expression, dayField, 1, 31);
+  const months = parseCronField(expression, monthField, 1, 12, MONTH_NAMES, 1);
+  const weekdays = parseCronField(expression, weekdayField, 0, 7, DAY_NAMES);
+  if (weekdays.delete(7)) weekdays.add(0);
+
+  // Standard cron: when both day fields are restricted, either may match
+  const dayRestricted = !dayField.startsWith('*');
+  const weekdayRestricted = !weekdayField.startsWith('*');
+  const matchesDay = (date: Date): boolean => {
+    const dayMatch = days.has(date.getDate());
+    const weekdayMatch = weekdays.has(date.getDay());
+    if (dayRestricted && weekdayRestricted) return dayMatch || weekdayMatch;
+    return dayMatch && weekdayMatch;
+  };
+
+  return {
+    expression,
+    next(after: Date): Date | undefined {
+      const candidate = new Date(after.getTime());
+      candidate.setSeconds(0, 0);
+      candidate.setMinutes(candidate.getMinutes() + 1);
+
+      for (let i = 0; i < MAX_CRON_ITERATIONS; i++) {
+        if (!months.has(candidate.getMonth() + 1)) {
+          candidate.setMonth(candidate.getMonth() + 1, 1);
+          candidate.setHours(0, 0, 0, 0);
+        } else if (!matchesDay(candidate)) {
+          candidate.setDate(candidate.getDate() + 1);
+          candidate.setHours(0, 0, 0, 0);
+        } else if (!hours.has(candidate.getHours())) {
+          candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+        } else if (!minutes.has(candidate.getMinutes())) {
+          candidate.setMinutes(candidate.getMinutes() + 1, 0, 0);
+        } else {
+          return candidate;
+        }
+      }
+
+      return undefined;
+    },
+  };
+};
+
+function parseCronField(
+  expression: string,
+  field: string,
+  min: number,
+  max: number,
+  names: string[] = [],
+  nameOffset = 0
+): Set<number> {
+  const values = new Set<number>();
+  const invalid = () => new Error(`Invalid cron expression '${expression}': bad field '${field}'`);
+
+  const toNumber = (token: string): number => {
+    const nameIndex = names.indexOf(token.toUpperCase());
+    const value = nameIndex !== -1 ? nameIndex + nameOffset : Number(token);
+    if (!Number.isInteger(value) || value < min || value > max) throw invalid();
+    return value;
+  };
+
+  for (const part of field.split(',')) {
+    const [range, stepToken] = part.split('/');
+    const step = stepToken !== undefined ? Number(stepToken) : 1;
+    if (!Number.isInteger(step) || step < 1) throw invalid();
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = toNumber(from);
+      end = toNumber(to);
+    } else {
+      start = toNumber(range);
+      end = stepToken !== undefined ? max : start;
+    }
+    if (start > end) throw invalid();
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+export const parseRepeatingInterval = (
+  expression: string,
+  anchor: Date = new Date()
+): Recurrence => {
+  const invalid = () => new Error(`Invalid repeating interval '${expression}'`);
+  const [repeat, ...parts] = expression.trim().split('/');
+
+  const repetitions = repeat.length > 1 ? Number(repeat.slice(1)) : undefined;
+  if (repetitions !== undefined && (!Number.isInteger(repetitions) || repetitions < 1)) {
+    throw invalid();
+  }
+
+  let start: Date;
+  let firstIndex: number;
+  let duration: IsoDuration;
+  if (parts.length === 1) {
+    // R/P1D: first occurrence one period after the anchor
+    duration = parseIsoDuration(parts[0], expression);
+    start = anchor;
+    firstIndex = 1;
+  } else if (parts.length === 2) {
+    start = new Date(parts[0]);
+    if (Number.isNaN(start.getTime())) throw invalid();
+    duration = parseIsoDuration(parts[1], expression);
+    firstIndex = 0;
+  } else {
+    throw invalid();
+  }
+
+  const lastIndex = repetitions !== undefined ? firstIndex + repetitions - 1 : Infinity;
+  const isFixed = duration.years === 0 && duration.months === 0 && duration.days === 0;
+
+  return {
+    expression,
+    next(after: Date): Date | undefined {
+      let index = firstIndex;
+
+      if (isFixed) {
+        const elapsed = after.getTime() - start.getTime();
+        index = Math.max(firstIndex, Math.floor(elapsed / duration.milliseconds) + 1);
+      } else {
+        let iterations = 0;
+        while (addIsoDuration(start, duration, index) <= after) {
+          if (++iterations > MAX_INTERVAL_ITERATIONS) return undefined;
+          index++;
+        }
+      }
+
+      return index <= lastIndex ? addIsoDuration(start, duration, index) : undefined;
+    },
+  };
+};
+
+function parseIsoDuration(value: string, expression: string): IsoDuration {
+  const match =
+    /^P(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/.exec(
+      value
+    );
+  if (!match || value === 'P' || value.endsWith('T')) {
+    throw new Error(`Invalid repeating interval '${expression}': bad duration '${value}'`);
+  }
+
+  const [, years, months, weeks, days, hours, minutes, seconds] = match.map(part =>
+    part === undefined ? 0 : Number(part)
+  );
+  const duration: IsoDuration = {
+    years,
+    months,
+    days: weeks * 7 + days,
+    milliseconds: ((hours * 60 + minutes) * 60 + seconds) * 1000,
+  };
+
+  if (!duration.years && !duration.months && !duration.days && !duration.milliseconds) {
+    throw new Error(`Invalid repeating interval '${expression}': duration must not be zero`);
+  }
+  return duration;
+}
+
+// Add a duration `times` times; calendar parts keep the time of day and clamp to month end
+function addIsoDuration(start: Date, duration: IsoDuration, times: number): Date {
+  const result = new Date(start.getTime());
+
+  const totalMonths = (duration.years * 12 + duration.months) * times;
+  if (totalMonths > 0) {
+    const day = result.getDate();
+    result.setDate(1);
+    result.setMonth(result.getMonth() + totalMonths);
+    const daysInMonth = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+    result.setDate(Math.min(day, daysInMonth));
+  }
+  if (duration.days > 0) {
+    result.setDate(result.getDate() + duration.days * times);
+  }
+
+  return new Date(result.getTime() + duration.milliseconds * times);
+}
@@ -0,0 +1,429 @@
+/**
+ * Event Scheduler
+ * One-off and recurring schedules driven by a single timer, with pluggable persistence and catch-up
+ */
+
+import { promises as fs } from 'fs';
+
+import { AtomicFileWriter, BaseEvent, reviveEvent } from '../event-core';
+import type { PublishOptions } from './index';
+import { parseRecurrence, Recurrence } from './recurrence';
+
+// What to publish when several occurrences were missed, e.g. while the process was down
+export type CatchUpPolicy = 'all' | 'latest' | 'skip';
+
+export interface ScheduledEvent {
+  id: string;
+  event: BaseEvent;
+  // Next occurrence
+  publishAt: Date;
+  options?: PublishOptions;
+  // Cron expression or ISO 8601 repeating interval; absent for one-off schedules
+  recurrence?: string;
+  startAt?: Date;
+  endAt?: Date;
+  catchUp?: CatchUpPolicy;
+  occurrences: number;
+  lastRunAt?: Date;
+  createdAt: Date;
+}
+
+export interface ScheduleStore {
+  load(): Promise<ScheduledEvent[]>;
+  save(schedule: ScheduledEvent): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+export interface FileScheduleStoreOptions {
+  filename: string;
+}
+
+export interface EventSchedulerOptions {
+  store?: ScheduleStore;
+  catchUp?: CatchUpPolicy;
+  // Most missed occurrences published per schedule with the 'all' policy
+  maxCatchUp?: number;
+}
+
+export interface ScheduleInput {
+  id: string;
+  event: BaseEvent;
+  publishAt?: Date;
+  recurrence?: string;
+  options?: PublishOptions;
+  startAt?: Date;
+  endAt?: Date;
+  catchUp?: CatchUpPolicy;
+}
+
+export type ScheduleDispatch = (
+  event: BaseEvent,
+  options: PublishOptions,
+  schedule: ScheduledEvent
+) => Promise<void>;
+
+// setTimeout overflows above 2^31 - 1 ms (about 24.8 days); longer waits re-arm the timer
+const MAX_TIMER_DELAY = 2147483647;
+const CATCH_UP_SCAN_LIMIT = 10000;
+
+const copySchedule = (schedule: ScheduledEvent): ScheduledEvent => ({ ...schedule });
+
+export class InMemoryScheduleStore implements ScheduleStore {
+  private schedules: Map<string, ScheduledEvent> = new Map();
+
+  async load(): Promise<ScheduledEvent[]> {
+    return Array.from(this.schedules.values()).map(copySchedule);
+  }
+
+  async save(schedule: ScheduledEvent): Promise<void> {
+    this.schedules.set(schedule.id, copySchedule(schedule));
+  }
+
+  async remove(id: string): Promise<void> {
+    this.schedules.delete(id);
+  }
+}
+
+export class FileScheduleStore implements ScheduleStore {
+  private options: FileScheduleStoreOptions;
+  private schedules?: Map<string, ScheduledEvent>;
+  private writer: AtomicFileWriter;
+
+  constructor(options: FileScheduleStoreOptions) {
+    this.options = options;
+    this.writer = new AtomicFileWriter(options.filename);
+  }
+
+  async load(): Promise<ScheduledEvent[]> {
+    const schedules = await this.readSchedules();
+    return Array.from(schedules.values()).map(copySchedule);
+  }
+
+  async save(schedule: ScheduledEvent): Promise<void> {
+    const schedules = await this.readSchedules();
+    schedules.set(schedule.id, copySchedule(schedule));
+    await this.write(schedules);
+  }
+
+  async remove(id: string): Promise<void> {
+    const schedules = await this.readSchedules();
+    if (schedules.delete(id)) {
+      await this.write(schedules);
+    }
+  }
+
+  private async readSchedules(): Promise<Map<string, ScheduledEvent>> {
+    if (this.schedules) return this.schedules;
+
+    const schedules = new Map<string, ScheduledEvent>();
+    try {
+      const content = await fs.readFile(this.options.filename, 'utf-8');
+      for (const raw of JSON.parse(content) as any[]) {
+        schedules.set(raw.id, reviveSchedule(raw));
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    this.schedules = this.schedules || schedules;
+    return this.schedules;
+  }
+
+  private write(schedules: Map<string, ScheduledEvent>): Promise<void> {
+    return this.writer.write(() => JSON.stringify(Array.from(schedules.values())));
+  }
+}
+
+function reviveSchedule(raw: any): ScheduledEvent {
+  const optionalDate = (value: unknown) => (value ? new Date(value as string) : undefined);
+  return {
+    ...raw,
+    event: reviveEvent(raw.event),
+    publishAt: new Date(raw.publishAt),
+    startAt: optionalDate(raw.startAt),
+    endAt: optionalDate(raw.endAt),
+    lastRunAt: optionalDate(raw.lastRunAt),
+    createdAt: new Date(raw.createdAt),
+  };
+}
+
+export class EventScheduler {
+  private dispatch: ScheduleDispatch;
+  private options: Required<Omit<EventSchedulerOptions, 'store'>>;
+  private store: ScheduleStore;
+  private schedules: Map<string, ScheduledEvent> = new Map();
+  private recurrences: Map<string, Recurrence> = new Map();
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<void>;
+  private persistChain: Promise<unknown> = Promise.resolve();
+
+  constructor(dispatch: ScheduleDispatch, options: EventSchedulerOptions = {}) {
+    this.dispatch = dispatch;
+    this.store = options.store || new InMemoryScheduleStore();
+    this.options = {
+      catchUp: options.catchUp || 'latest',
+      maxCatchUp: options.maxCatchUp ?? 100,
+    };
+  }
+
+  setStore(store: ScheduleStore, options: Omit<EventSchedulerOptions, 'store'> = {}): void {
+    this.store = store;
+    this.options = { ...this.options, ...options };
+  }
+
+  // Add or replace a schedule and persist it
+  schedule(input: ScheduleInput): ScheduledEvent {
+    const now = new Date();
+    const schedule: ScheduledEvent = {
+      id: input.id,
+      event: input.event,
+      publishAt: input.publishAt || now,
+      options: input.options,
+      recurrence: input.recurrence,
+      startAt: input.startAt,
+      endAt: input.endAt,
+      catchUp: input.catchUp,
+      occurrences: 0,
+      createdAt: now,
+    };
+
+    if (input.recurrence) {
+      // Intervals without an explicit start are anchored at the first possible run
+      schedule.startAt = input.startAt || now;
+      const recurrence = parseRecurrence(input.recurrence, schedule.startAt);
+      const from = Math.max(schedule.startAt.getTime(), now.getTime());
+      const first = this.nextOccurrence(schedule, recurrence, new Date(from - 1));
+      if (!first) {
+        throw new Error(
+          `Recurrence '${input.recurrence}' has no occurrences after ${now.toISOString()}`
+        );
+      }
+      schedule.publishAt = first;
+      this.recurrences.set(schedule.id, recurrence);
+    } else {
+      this.recurrences.delete(schedule.id);
+    }
+
+    this.schedules.set(schedule.id, schedule);
+    this.persist(store => store.save(schedule));
+    this.arm();
+
+    return copySchedule(schedule);
+  }
+
+  cancel(id: string): boolean {
+    const cancelled = this.schedules.delete(id);
+    this.recurrences.delete(id);
+    if (cancelled) {
+      this.persist(store => store.remove(id));
+      this.arm();
+    }
+    return cancelled;
+  }
+
+  get(id: string): ScheduledEvent | undefined {
+    const schedule = this.schedules.get(id);
+    return schedule ? copySchedule(schedule) : undefined;
+  }
+
+  // Schedules ordered by their next occurrence
+  list(): ScheduledEvent[] {
+    return Array.from(this.schedules.values())
+      .sort((a, b) => a.publishAt.getTime() - b.publishAt.getTime())
+      .map(copySchedule);
+  }
+
+  // Load persisted schedules; occurrences missed while down are handled by the catch-up policy
+  async restore(): Promise<number> {
+    const loaded = await this.store.load();
+
+    for (const schedule of loaded) {
+      if (this.schedules.has(schedule.id)) continue;
+      if (schedule.recurrence) {
+        this.recurrences.set(
+          schedule.id,
+          parseRecurrence(schedule.recurrence, schedule.startAt || schedule.createdAt)
+        );
+      }
+      this.schedules.set(schedule.id, schedule);
+    }
+
+    this.arm();
+    await this.runDue();
+    await this.flush();
+    return loaded.length;
+  }
+
+  // Publish everything that is due now
+  runDue(): Promise<void> {
+    if (!this.running) {
+      this.running = this.runDueSchedules().finally(() => {
+        this.running = undefined;
+        this.arm();
+      });
+    }
+    return this.running;
+  }
+
+  // Wait until schedule changes have been written to the store
+  async flush(): Promise<void> {
+    await this.persistChain;
+  }
+
+  // Stop the timer and forget in-memory schedules; persisted schedules are kept
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.schedules.clear();
+    this.recurrences.clear();
+  }
+
+  getStats() {
+    const next = this.list()[0];
+    return {
+      scheduled: this.schedules.size,
+      recurring: this.recurrences.size,
+      nextRunAt: next?.publishAt,
+    };
+  }
+
+  // Keep a single timer armed for the earliest occurrence
+  private arm(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    if (this.running) return;
+
+    let earliest: number | undefined;
+    for (const schedule of this.schedules.values()) {
+      const time = schedule.publishAt.getTime();
+      if (earliest === undefined || time < earliest) earliest = time;
+    }
+    if (earliest === undefined) return;
+
+    const delay = Math.min(Math.max(earliest - Date.now(), 0), MAX_TIMER_DELAY);
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.runDue().catch(error => console.error('Scheduled event failed:', error));
+    }, delay);
+
+    // Unref so it doesn't keep process alive
+    if (typeof this.timer.unref === 'function') {
+      this.timer.unref();
+    }
+  }
+
+  private async runDueSchedules(): Promise<void> {
+    const now = new Date();
+    const due = Array.from(this.schedules.values())
+      .filter(schedule => schedule.publishAt <= now)
+      .sort((a, b) => a.publishAt.getTime() - b.publishAt.getTime());
+
+    for (const schedule of due) {
+      const recurrence = this.recurrences.get(schedule.id);
+      if (!recurrence) {
+        await this.runOccurrence(schedule, schedule.publishAt);
+        this.finish(schedule);
+        continue;
+      }
+
+      // Collect occurrences up to now; more than one means runs were missed
+      const missed: Date[] = [];
+      let next: Date | undefined = schedule.publishAt;
+      while (next && next <= now && missed.length < CATCH_UP_SCAN_LIMIT) {
+        missed.push(next);
+        next = this.nextOccurrence(schedule, recurrence, next);
+      }
+      if (next && next <= now) {
+        next = this.nextOccurrence(schedule, recurrence, now);
+      }
+
+      for (const occurrence of this.selectOccurrences(schedule, missed)) {
+        if (!this.schedules.has(schedule.id)) break;
+        await this.runOccurrence(schedule, occurrence);
+      }
+
+      if (!this.schedules.has(schedule.id)) continue;
+      if (next) {
+        schedule.publishAt = next;
+        this.persist(store => store.save(schedule));
+      } else {
+        this.finish(schedule);
+      }
+    }
+  }
+
+  private selectOccurrences(schedule: ScheduledEvent, missed: Date[]): Date[] {
+    if (missed.length <= 1) return missed;
+
+    switch (schedule.catchUp || this.options.catchUp) {
+      case 'all':
+        return missed.slice(-this.options.maxCatchUp);
+      case 'skip':
+        return [];
+      default:
+        return missed.slice(-1);
+    }
+  }
+
+  private async runOccurrence(schedule: ScheduledEvent, scheduledFor: Date): Promise<void> {
+    schedule.occurrences++;
+    schedule.lastRunAt = new Date();
+
+    // Recurring occurrences get their own id and an idempotency key for the outbox
+    const event: BaseEvent = schedule.recurrence
+      ? {
+          ...schedule.event,
+          id: `${schedule.id}_${schedule.occurrences}`,
+          timestamp: new Date(),
+          metadata: {
+            ...schedule.event.metadata,
+            scheduleId: schedule.id,
+            scheduledFor,
+            occurrence: schedule.occurrences,
+          },
+        }
+      : schedule.event;
+    // A caller's key gets the occurrence appended on recurring schedules, so the outbox does not
+    // drop later runs as duplicates of the first
+    const key = schedule.options?.idempotencyKey;
+    const options: PublishOptions = {
+      ...schedule.options,
+      idempotencyKey:
+        key && !schedule.recurrence ? key : `${key || schedule.id}:${scheduledFor.toISOString()}`,
+    };
+
+    try {
+      await this.dispatch(event, options, copySchedule(schedule));
+    } catch (error) {
+      console.error('Scheduled event failed:', error);
+    }
+  }
+
+  private finish(schedule: ScheduledEvent): void {
+    if (this.schedules.get(schedule.id) !== schedule) return;
+    this.schedules.delete(schedule.id);
+    this.recurrences.delete(schedule.id);
+    this.persist(store => store.remove(schedule.id));
+  }
+
+  private nextOccurrence(
+    schedule: ScheduledEvent,
+    recurrence: Recurrence,
+    after: Date
+  ): Date | undefined {
+    const next = recurrence.next(after);
+    if (!next || (schedule.endAt && next > schedule.endAt)) return undefined;
+    return next;
+  }
+
+  private persist(operation: (store: ScheduleStore) => Promise<void>): void {
+    const store = this.store;
+    this.persistChain = this.persistChain
+      .then(() => operation(store))
+      .catch(error => console.error('Failed to persist schedule:', error));
+  }
+}
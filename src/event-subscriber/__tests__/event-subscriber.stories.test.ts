@@ -3,14 +3,23 @@
  * Tests basic scenarios for Norwegian government-compliant event subscription
  */
 
+import { appendFileSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
 import {
+  DeadLetterEntry,
+  EventProcessor,
   EventSubscriber,
+  FileDeadLetterStore,
+  FileDedupeStore,
+  InMemoryDedupeStore,
   getEventSubscriber,
   createEventSubscriber,
   complianceMiddleware,
   auditMiddleware,
 } from '../index';
-import { createEvent } from '../../event-core';
+import { createEvent, createEventBus, getEventBus } from '../../event-core';
 
 describe('Event Subscriber User Stories', () => {
   let subscriber: EventSubscriber;
@@ -169,18 +178,489 @@ describe('Event Subscriber User Stories', () => {
   });
 
   // User Story 8: Dead letter queue functionality
-  it('Dead Letter Queue Story: should handle failed event processing', () => {
+  it('Dead Letter Queue Story: should handle failed event processing', async () => {
     // Given: Service has dead letter queue enabled
 
     // When: Service checks dead letter queue
-    const deadLetterQueue = subscriber.getDeadLetterQueue();
+    const deadLetterQueue = await subscriber.getDeadLetterQueue();
 
     // Then: Should provide dead letter queue access
     expect(Array.isArray(deadLetterQueue)).toBe(true);
 
     // Clear dead letter queue
-    subscriber.clearDeadLetterQueue();
-    const clearedQueue = subscriber.getDeadLetterQueue();
+    await subscriber.clearDeadLetterQueue();
+    const clearedQueue = await subscriber.getDeadLetterQueue();
     expect(clearedQueue).toHaveLength(0);
   });
+
+  // User Story 9: Pattern subscriptions receive events through the bus
+  it('Pattern Delivery Story: should deliver published events to pattern subscribers', async () => {
+    // Given: Service subscribes with a regular expression over municipal events
+    const received: string[] = [];
+    subscriber.subscribeWithPattern(/^municipal\.service\./, async event => {
+      received.push(event.type);
+    });
+
+    // When: Matching and non-matching events are published on the bus
+    const eventBus = getEventBus();
+    await eventBus.publish(createEvent('municipal.service.opened', { serviceId: 'svc_1' }));
+    await eventBus.publish(createEvent('citizen.registered', { citizenId: 'citizen_001' }));
+
+    // Then: Only matching events should reach the handler
+    expect(received).toEqual(['municipal.service.opened']);
+  });
+
+  // User Story 10: Dead letters record which subscription failed and why
+  it('Dead Letter Triage Story: should record subscription, error and attempts once retries are exhausted', async () => {
+    // Given: A GDPR erasure handler that always fails, with a dead letter hook
+    const eventBus = createEventBus({ retryDelay: 0 });
+    const notified: DeadLetterEntry[] = [];
+    const gdprSubscriber = createEventSubscriber(eventBus, {
+      onDeadLetter: entry => {
+        notified.push(entry);
+      },
+    });
+    const subscriptionId = gdprSubscriber.subscribe(
+      'gdpr.erasure.requested',
+      async () => {
+        throw new Error('Archive unavailable');
+      },
+      { name: 'erasure-archive', maxRetries: 2, deadLetterQueue: true }
+    );
+
+    // When: An erasure request is published
+    const event = createEvent('gdpr.erasure.requested', { citizenId: 'citizen_001' });
+    await eventBus.publish(event);
+
+    // Then: One entry describes the failed delivery
+    const [entry] = await gdprSubscriber.getDeadLetterQueue();
+    expect(entry).toMatchObject({
+      id: `${subscriptionId}:${event.id}`,
+      subscriptionId,
+      subscriptionName: 'erasure-archive',
+      error: 'Archive unavailable',
+      attempts: 3,
+    });
+    expect(entry.stack).toContain('Archive unavailable');
+    expect(entry.event.id).toBe(event.id);
+    expect(entry.firstFailedAt).toBeInstanceOf(Date);
+    expect(notified).toHaveLength(1);
+
+    // And: A second failure of the same event updates the entry
+    await eventBus.publish(event);
+    const [updated] = await gdprSubscriber.getDeadLetterQueue();
+    expect(updated.attempts).toBe(6);
+    expect(updated.firstFailedAt).toEqual(entry.firstFailedAt);
+
+    gdprSubscriber.unsubscribeAll();
+    eventBus.cleanup();
+  });
+
+  // User Story 11: Redrive reaches only the subscription that failed
+  it('Dead Letter Redrive Story: should redrive selected dead letters to the original subscription only', async () => {
+    // Given: Two subscriptions to the same event, one of which fails
+    const eventBus = createEventBus({ retryDelay: 0 });
+    const redriveSubscriber = createEventSubscriber(eventBus);
+    const auditLog: string[] = [];
+    let archiveAvailable = false;
+    redriveSubscriber.subscribe('citizen.moved', async event => {
+      auditLog.push(event.id);
+    });
+    redriveSubscriber.subscribe(
+      'citizen.moved',
+      async () => {
+        if (!archiveAvailable) throw new Error('Archive unavailable');
+      },
+      { name: 'archive', maxRetries: 0, deadLetterQueue: true }
+    );
+    await eventBus.publish(createEvent('citizen.moved', { citizenId: 'citizen_001' }));
+    await eventBus.publish(createEvent('citizen.moved', { citizenId: 'citizen_002' }));
+    const [first, second] = await redriveSubscriber.getDeadLetterQueue();
+
+    // When: The archive recovers and only the first dead letter is redriven
+    archiveAvailable = true;
+    const result = await redriveSubscriber.processDeadLetterQueue({ ids: [first.id] });
+
+    // Then: It reaches the archive alone and leaves the queue
+    expect(result).toEqual({ succeeded: [first.id], failed: [], skipped: [] });
+    expect(auditLog).toHaveLength(2);
+    expect((await redriveSubscriber.getDeadLetterQueue()).map(entry => entry.id)).toEqual([
+      second.id,
+    ]);
+
+    redriveSubscriber.unsubscribeAll();
+    eventBus.cleanup();
+  });
+
+  // User Story 12: Dead letters survive restarts and expire
+  it('Dead Letter Persistence Story: should persist dead letters and redrive them after a restart', async () => {
+    const directory = mkdtempSync(join(tmpdir(), 'foundation-dead-letters-'));
+    const filename = join(directory, 'dead-letters.json');
+
+    try {
+      // Given: A subscriber with a file-backed dead letter store records a failure
+      const eventBus = createEventBus({ retryDelay: 0 });
+      const before = createEventSubscriber(eventBus, {
+        deadLetterStore: new FileDeadLetterStore({ filename }),
+      });
+      before.subscribe(
+        'gdpr.consent.withdrawn',
+        async () => {
+          throw new Error('Consent registry offline');
+        },
+        { name: 'consent-registry', maxRetries: 0, deadLetterQueue: true }
+      );
+      await eventBus.publish(createEvent('gdpr.consent.withdrawn', { citizenId: 'citizen_001' }));
+      before.unsubscribeAll();
+
+      // When: The service restarts and subscribes under the same name
+      const received: string[] = [];
+      const after = createEventSubscriber(eventBus, {
+        deadLetterStore: new FileDeadLetterStore({ filename }),
+        deadLetterTtl: 60000,
+      });
+      after.subscribe(
+        'gdpr.consent.withdrawn',
+        async event => {
+          received.push(event.type);
+        },
+        { name: 'consent-registry', deadLetterQueue: true }
+      );
+      const [entry] = await after.getDeadLetterQueue();
+      const result = await after.processDeadLetterQueue({ subscriptionName: 'consent-registry' });
+
+      // Then: The persisted entry is redriven to the new subscription
+      expect(entry.lastFailedAt).toBeInstanceOf(Date);
+      expect(result.succeeded).toEqual([entry.id]);
+      expect(received).toEqual(['gdpr.consent.withdrawn']);
+
+      // And: Expired entries are purged by the TTL policy
+      await after.getDeadLetterStore().put({ ...entry, lastFailedAt: new Date(0) });
+      expect(await after.applyDeadLetterRetention()).toBe(1);
+      expect(await after.getDeadLetterQueue()).toHaveLength(0);
+
+      after.unsubscribeAll();
+      eventBus.cleanup();
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  // User Story 13: Idempotent subscriptions skip redelivered events
+  it('Idempotent Consumer Story: should process a redelivered event only once', async () => {
+    // Given: A payment handler that fails its first attempt, subscribed idempotently
+    const eventBus = createEventBus({ retryDelay: 0 });
+    const idempotentSubscriber = createEventSubscriber(eventBus);
+    const payments: string[] = [];
+    let attempts = 0;
+    const subscriptionId = idempotentSubscriber.subscribe(
+      'payment.received',
+      async event => {
+        attempts++;
+        if (attempts === 1) throw new Error('Ledger busy');
+        payments.push(event.id);
+      },
+      { maxRetries: 1, idempotency: true }
+    );
+
+    // When: The same event is delivered again, including concurrently
+    const event = createEvent('payment.received', { amount: 100 });
+    await eventBus.publish(event);
+    await Promise.all([eventBus.publish(event), eventBus.publish(event)]);
+
+    // Then: The retry still ran, but the handler completed the payment once
+    expect(attempts).toBe(2);
+    expect(payments).toEqual([event.id]);
+    const stats = idempotentSubscriber.getSubscriptionStats(subscriptionId) as any;
+    expect(stats.stats).toMatchObject({ eventsProcessed: 1, errors: 1, duplicates: 2 });
+
+    // And: Two idempotent subscriptions on one event type each process the event
+    const handled: string[] = [];
+    idempotentSubscriber.subscribe(
+      'case.opened',
+      async () => {
+        handled.push('archive');
+      },
+      { idempotency: true }
+    );
+    idempotentSubscriber.subscribe(
+      'case.opened',
+      async () => {
+        handled.push('notify');
+      },
+      { idempotency: true }
+    );
+    await eventBus.publish(createEvent('case.opened', { caseId: 'case_001' }));
+    expect(handled.sort()).toEqual(['archive', 'notify']);
+
+    // And: Named idempotent subscriptions must not share a name on one event type
+    idempotentSubscriber.subscribe('case.opened', async () => undefined, {
+      name: 'case-ledger',
+      idempotency: true,
+    });
+    expect(() =>
+      idempotentSubscriber.subscribe('case.opened', async () => undefined, {
+        name: 'case-ledger',
+        idempotency: true,
+      })
+    ).toThrow("Idempotent subscription 'case-ledger' for case.opened already exists");
+
+    idempotentSubscriber.unsubscribeAll();
+    eventBus.cleanup();
+  });
+
+  // User Story 14: Dedupe stores expire, evict and persist processed keys
+  it('Dedupe Store Story: should expire and evict keys in memory and persist them to file', async () => {
+    // Given: A small in-memory store
+    const memory = new InMemoryDedupeStore({ maxEntries: 2, ttl: 60000 });
+    await memory.add('a');
+    await memory.add('b');
+    await memory.has('a');
+    await memory.add('c');
+    await memory.add('d', -1);
+
+    // Then: The least recently seen and expired keys are gone
+    expect(await memory.has('a')).toBe(true);
+    expect(await memory.has('b')).toBe(false);
+    expect(await memory.has('c')).toBe(true);
+    expect(await memory.has('d')).toBe(false);
+
+    // And: A file-backed store keeps keys across restarts
+    const directory = mkdtempSync(join(tmpdir(), 'foundation-dedupe-'));
+    try {
+      const filename = join(directory, 'dedupe.jsonl');
+      const eventBus = createEventBus({ retryDelay: 0 });
+      const event = createEvent('tax.assessed', { citizenId: 'citizen_001' });
+      let handled = 0;
+
+      for (let restart = 0; restart < 2; restart++) {
+        const durable = createEventSubscriber(eventBus, {
+          dedupeStore: new FileDedupeStore({ filename }),
+        });
+        durable.subscribe(
+          'tax.assessed',
+          async () => {
+            handled++;
+          },
+          { name: 'tax-ledger', idempotency: true }
+        );
+        await eventBus.publish(event);
+        durable.unsubscribeAll();
+      }
+
+      expect(handled).toBe(1);
+      eventBus.cleanup();
+
+      // And: Keys are appended, removals are kept and a line torn by a crash is dropped
+      const keysFile = join(directory, 'keys.jsonl');
+      const keys = new FileDedupeStore({ filename: keysFile });
+      await keys.add('a');
+      await keys.add('b');
+      await keys.remove('a');
+      appendFileSync(keysFile, '["c",');
+
+      const reopened = new FileDedupeStore({ filename: keysFile });
+      expect(await reopened.has('a')).toBe(false);
+      expect(await reopened.has('b')).toBe(true);
+      await reopened.add('d');
+      expect(readFileSync(keysFile, 'utf-8').trim().split('\n')).toHaveLength(4);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  // User Story 15: Priorities, stop propagation and one record per subscription
+  it('Priority Story: should order subscriptions by priority and keep stats per subscription', async () => {
+    // Given: One handler registered for two event types, and a high-priority screening step
+    const eventBus = createEventBus({ retryDelay: 0 });
+    const prioritySubscriber = createEventSubscriber(eventBus);
+    const calls: string[] = [];
+    const [openedId, closedId] = prioritySubscriber.subscribeToMultiple(
+      ['case.opened', 'case.closed'],
+      async event => {
+        calls.push(`handle:${event.type}`);
+      }
+    );
+    prioritySubscriber.subscribe(
+      'case.#',
+      async event => {
+        calls.push(`screen:${event.type}`);
+      },
+      {
+        priority: 10,
+        stopPropagation: event => event.nsmClassification === 'HEMMELIG',
+      }
+    );
+
+    // When: A regular and a classified case event are published
+    await eventBus.publish(createEvent('case.closed', { caseId: 'case_1' }));
+    await eventBus.publish(
+      createEvent('case.opened', { caseId: 'case_2' }, { nsmClassification: 'HEMMELIG' })
+    );
+
+    // Then: Screening runs first and holds back the classified event
+    expect(calls).toEqual(['screen:case.closed', 'handle:case.closed', 'screen:case.opened']);
+
+    // And: Stats are kept on the subscription that handled the event
+    const opened = prioritySubscriber.getSubscriptionStats(openedId) as any;
+    const closed = prioritySubscriber.getSubscriptionStats(closedId) as any;
+    expect(opened.stats.eventsProcessed).toBe(0);
+    expect(closed.stats.eventsProcessed).toBe(1);
+
+    prioritySubscriber.unsubscribeAll();
+    eventBus.cleanup();
+  });
+
+  // User Story 16: Worker instances share events through a consumer group
+  it('Consumer Group Story: should deliver each event to one subscription of a group', async () => {
+    // Given: Two worker subscriptions in the same group
+    const eventBus = createEventBus({ retryDelay: 0 });
+    const groupSubscriber = createEventSubscriber(eventBus);
+    const first = groupSubscriber.subscribe('case.assigned', async () => {}, {
+      group: 'case-workers',
+    });
+    const second = groupSubscriber.subscribe('case.assigned', async () => {}, {
+      group: 'case-workers',
+    });
+
+    // When: Four events are published
+    for (let i = 0; i < 4; i++) {
+      await eventBus.publish(createEvent('case.assigned', { caseId: `case_${i}` }));
+    }
+
+    // Then: Each worker processed half of them
+    const stats = [first, second].map(
+      id => (groupSubscriber.getSubscriptionStats(id) as any).stats.eventsProcessed
+    );
+    expect(stats).toEqual([2, 2]);
+
+    groupSubscriber.unsubscribeAll();
+    eventBus.cleanup();
+  });
+
+  // User Story 17: Security monitoring reacts to patterns within time windows
+  it('Windowed Aggregation Story: should emit derived events from sliding, tumbling and session windows', async () => {
+    // Given: Rules for repeated failed logins, hourly payment totals and user sessions
+    const eventBus = createEventBus({ retryDelay: 0 });
+    const cepSubscriber = createEventSubscriber(eventBus);
+    const processor = new EventProcessor(cepSubscriber);
+    const derived: any[] = [];
+    cepSubscriber.subscribe('security.#', async event => {
+      derived.push(event);
+    });
+
+    processor.aggregate({
+      name: 'brute-force',
+      eventTypes: 'auth.login.failed',
+      key: event => event.userId,
+      window: { type: 'sliding', size: 10 * 60 * 1000 },
+      when: result => result.count >= 5,
+      emit: { type: 'security.brute_force.suspected', nsmClassification: 'BEGRENSET' },
+    });
+    processor.aggregate({
+      name: 'payment-totals',
+      eventTypes: 'payment.received',
+      window: { type: 'tumbling', size: 60 * 60 * 1000 },
+      aggregate: 'sum',
+      field: 'amount',
+      emit: 'security.payments.hourly',
+    });
+    processor.aggregate({
+      name: 'sessions',
+      eventTypes: 'portal.#',
+      key: event => event.userId,
+      window: { type: 'session', gap: 20 },
+      aggregate: 'distinct',
+      field: 'page',
+      emit: 'security.session.closed',
+    });
+
+    // When: Six failed logins arrive over twelve minutes, payments arrive and a user browses
+    const start = Date.now() - 12 * 60 * 1000;
+    for (let i = 0; i < 6; i++) {
+      const failed = createEvent('auth.login.failed', { userId: 'user_1' });
+      await eventBus.publish({ ...failed, timestamp: new Date(start + i * 2 * 60 * 1000) });
+    }
+    await eventBus.publish(createEvent('payment.received', { amount: 100 }));
+    await eventBus.publish(createEvent('payment.received', { amount: 250 }));
+    for (const page of ['home', 'tax', 'home']) {
+      await eventBus.publish(createEvent('portal.page.viewed', { userId: 'user_2', page }));
+    }
+    await new Promise(resolve => setTimeout(resolve, 60));
+    await processor.flush();
+
+    // Then: The fifth failed login within ten minutes raised one alert
+    const alerts = derived.filter(event => event.type === 'security.brute_force.suspected');
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({ rule: 'brute-force', key: 'user_1', count: 5 });
+    expect(alerts[0].nsmClassification).toBe('BEGRENSET');
+
+    // And: The session closed after the gap, and flushing closed the payment window
+    const session = derived.find(event => event.type === 'security.session.closed');
+    expect(session).toMatchObject({ key: 'user_2', count: 3, value: 2 });
+    const payments = derived.find(event => event.type === 'security.payments.hourly');
+    expect(payments).toMatchObject({ count: 2, value: 350 });
+    expect(processor.getStats()).toMatchObject({ rules: 3, pending: 1, emitted: 3 });
+
+    // And: A user whose last failed login falls outside the window is forgotten
+    const stale = createEvent('auth.login.failed', { userId: 'user_3' });
+    await eventBus.publish({ ...stale, timestamp: new Date(Date.now() - 10 * 60 * 1000 + 20) });
+    expect(processor.getStats().pending).toBe(2);
+    await new Promise(resolve => setTimeout(resolve, 60));
+    expect(processor.getStats().pending).toBe(1);
+
+    processor.stop();
+    cepSubscriber.unsubscribeAll();
+    eventBus.cleanup();
+  });
+
+  // User Story 18: Case handling detects ordered steps and missing follow-ups
+  it('Sequence and Absence Story: should detect event sequences and missing events', async () => {
+    // Given: A sequence rule for escalations and an absence rule for missing documents
+    const eventBus = createEventBus({ retryDelay: 0 });
+    const cepSubscriber = createEventSubscriber(eventBus);
+    const processor = new EventProcessor(cepSubscriber);
+    const derived: any[] = [];
+    cepSubscriber.subscribe('case.alert.#', async event => {
+      derived.push(event);
+    });
+
+    processor.sequence({
+      name: 'escalation',
+      steps: ['case.opened', 'case.rejected', 'case.appealed'],
+      within: 60000,
+      key: event => event.caseId,
+      emit: 'case.alert.escalated',
+    });
+    processor.absence({
+      name: 'missing-documents',
+      trigger: 'application.submitted',
+      expected: 'document.uploaded',
+      within: 30,
+      key: event => event.applicationId,
+      emit: 'case.alert.documents_missing',
+    });
+
+    // When: One case completes the sequence, one does not, and one application gets documents
+    for (const type of ['case.opened', 'case.rejected', 'case.appealed']) {
+      await eventBus.publish(createEvent(type, { caseId: 'case_1' }));
+    }
+    await eventBus.publish(createEvent('case.opened', { caseId: 'case_2' }));
+    await eventBus.publish(createEvent('case.appealed', { caseId: 'case_2' }));
+    await eventBus.publish(createEvent('application.submitted', { applicationId: 'app_1' }));
+    await eventBus.publish(createEvent('application.submitted', { applicationId: 'app_2' }));
+    await eventBus.publish(createEvent('document.uploaded', { applicationId: 'app_2' }));
+    await new Promise(resolve => setTimeout(resolve, 60));
+
+    // Then: Only the complete sequence and the application without documents raise alerts
+    expect(derived.map(event => [event.type, event.key])).toEqual([
+      ['case.alert.escalated', 'case_1'],
+      ['case.alert.documents_missing', 'app_1'],
+    ]);
+    expect(derived[0].eventIds).toHaveLength(3);
+
+    processor.stop();
+    cepSubscriber.unsubscribeAll();
+    eventBus.cleanup();
+  });
 });
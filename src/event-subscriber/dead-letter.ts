@@ -0,0 +1,191 @@
+/**
+ * Dead Letter Queue
+ * Failed deliveries with their subscription, error and attempt history, in pluggable stores
+ */
+
+import { promises as fs } from 'fs';
+
+import { AtomicFileWriter, BaseEvent, matchTopic, reviveEvent } from '../event-core';
+
+export interface DeadLetterEntry {
+  // One entry per subscription and event: `<subscriptionId>:<eventId>`
+  id: string;
+  subscriptionId: string;
+  // Stable name used to find the subscription again after a restart
+  subscriptionName: string;
+  event: BaseEvent;
+  error: string;
+  stack?: string;
+  attempts: number;
+  firstFailedAt: Date;
+  lastFailedAt: Date;
+}
+
+export interface DeadLetterQuery {
+  ids?: string[];
+  subscriptionId?: string;
+  subscriptionName?: string;
+  // Topic patterns matched against the event type
+  eventTypes?: string[];
+  nsmClassification?: string;
+  failedBefore?: Date;
+  failedAfter?: Date;
+  limit?: number;
+}
+
+export interface DeadLetterStore {
+  // Insert or replace an entry by id
+  put(entry: DeadLetterEntry): Promise<void>;
+  get(id: string): Promise<DeadLetterEntry | undefined>;
+  // Entries matching the query, oldest failure first
+  list(query?: DeadLetterQuery): Promise<DeadLetterEntry[]>;
+  remove(id: string): Promise<boolean>;
+  clear(): Promise<void>;
+}
+
+export interface FileDeadLetterStoreOptions {
+  filename: string;
+}
+
+export interface DeadLetterRedriveResult {
+  succeeded: string[];
+  failed: string[];
+  // Entries whose subscription no longer exists
+  skipped: string[];
+}
+
+// Check whether an entry satisfies a query (everything except limit)
+export const matchesDeadLetterQuery = (
+  entry: DeadLetterEntry,
+  query: DeadLetterQuery = {}
+): boolean => {
+  if (query.ids && !query.ids.includes(entry.id)) return false;
+  if (query.subscriptionId && entry.subscriptionId !== query.subscriptionId) return false;
+  if (query.subscriptionName && entry.subscriptionName !== query.subscriptionName) return false;
+  if (query.eventTypes && !query.eventTypes.some(type => matchTopic(type, entry.event.type))) {
+    return false;
+  }
+  if (query.nsmClassification && entry.event.nsmClassification !== query.nsmClassification) {
+    return false;
+  }
+  if (query.failedBefore && entry.lastFailedAt >= query.failedBefore) return false;
+  if (query.failedAfter && entry.lastFailedAt <= query.failedAfter) return false;
+  return true;
+};
+
+const selectDeadLetters = (
+  entries: Iterable<DeadLetterEntry>,
+  query: DeadLetterQuery = {}
+): DeadLetterEntry[] => {
+  const matches = Array.from(entries)
+    .filter(entry => matchesDeadLetterQuery(entry, query))
+    .sort((a, b) => a.firstFailedAt.getTime() - b.firstFailedAt.getTime())
+    .map(entry => ({ ...entry }));
+  return query.limit ? matches.slice(0, query.limit) : matches;
+};
+
+export class InMemoryDeadLetterStore implements DeadLetterStore {
+  private entries: Map<string, DeadLetterEntry> = new Map();
+
+  async put(entry: DeadLetterEntry): Promise<void> {
+    this.entries.set(entry.id, { ...entry });
+  }
+
+  async get(id: string): Promise<DeadLetterEntry | undefined> {
+    const entry = this.entries.get(id);
+    return entry ? { ...entry } : undefined;
+  }
+
+  async list(query?: DeadLetterQuery): Promise<DeadLetterEntry[]> {
+    return selectDeadLetters(this.entries.values(), query);
+  }
+
+  async remove(id: string): Promise<boolean> {
+    return this.entries.delete(id);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+export class FileDeadLetterStore implements DeadLetterStore {
+  private options: FileDeadLetterStoreOptions;
+  private entries?: Map<string, DeadLetterEntry>;
+  private writer: AtomicFileWriter;
+
+  constructor(options: FileDeadLetterStoreOptions) {
+    this.options = options;
+    this.writer = new AtomicFileWriter(options.filename);
+  }
+
+  async put(entry: DeadLetterEntry): Promise<void> {
+    const entries = await this.readEntries();
+    entries.set(entry.id, { ...entry });
+    await this.write(entries);
+  }
+
+  async get(id: string): Promise<DeadLetterEntry | undefined> {
+    const entry = (await this.readEntries()).get(id);
+    return entry ? { ...entry } : undefined;
+  }
+
+  async list(query?: DeadLetterQuery): Promise<DeadLetterEntry[]> {
+    return selectDeadLetters((await this.readEntries()).values(), query);
+  }
+
+  async remove(id: string): Promise<boolean> {
+    const entries = await this.readEntries();
+    const removed = entries.delete(id);
+    if (removed) {
+      await this.write(entries);
+    }
+    return removed;
+  }
+
+  async clear(): Promise<void> {
+    const entries = await this.readEntries();
+    entries.clear();
+    await this.write(entries);
+  }
+
+  private async readEntries(): Promise<Map<string, DeadLetterEntry>> {
+    if (this.entries) return this.entries;
+
+    const entries = new Map<string, DeadLetterEntry>();
+    try {
+      const content = await fs.readFile(this.options.filename, 'utf-8');
+      for (const raw of JSON.parse(content) as any[]) {
+        entries.set(raw.id, reviveDeadLetterEntry(raw));
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    this.entries = this.entries || entries;
+    return this.entries;
+  }
+
+  private write(entries: Map<string, DeadLetterEntry>): Promise<void> {
+    return this.writer.write(() => JSON.stringify(Array.from(entries.values())));
+  }
+}
+
+function reviveDeadLetterEntry(raw: any): DeadLetterEntry {
+  return {
+    ...raw,
+    event: reviveEvent(raw.event),
+    firstFailedAt: new Date(raw.firstFailedAt),
+    lastFailedAt: new Date(raw.lastFailedAt),
+  };
+}
+
+export const createInMemoryDeadLetterStore = (): DeadLetterStore => {
+  return new InMemoryDeadLetterStore();
+};
+
+export const createFileDeadLetterStore = (
+  options: FileDeadLetterStoreOptions
+): FileDeadLetterStore => {
+  return new FileDeadLetterStore(options);
+};
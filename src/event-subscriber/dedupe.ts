@@ -0,0 +1,167 @@
+/**
+ * Dedupe Stores
+ * Remembers processed event keys so idempotent subscriptions can skip redeliveries
+ */
+
+import { JsonLinesLog } from '../event-core';
+
+export interface DedupeStore {
+  has(key: string): Promise<boolean>;
+  // Remember a key; ttl (ms) overrides the store default
+  add(key: string, ttl?: number): Promise<void>;
+  remove(key: string): Promise<boolean>;
+  clear(): Promise<void>;
+}
+
+export interface DedupeStoreOptions {
+  // Least recently seen keys are evicted beyond this count
+  maxEntries?: number;
+  ttl?: number;
+}
+
+export interface FileDedupeStoreOptions extends DedupeStoreOptions {
+  // JSON lines file; each processed key is appended
+  filename: string;
+}
+
+const DEFAULT_MAX_ENTRIES = 10000;
+const DEFAULT_TTL = 24 * 60 * 60 * 1000;
+const SWEEP_INTERVAL = 60 * 1000;
+
+// One line of the dedupe file; an expiry of 0 records a removed key
+type DedupeRecord = [key: string, expiresAt: number];
+
+// Key -> expiry timestamp, in least recently seen order
+class ExpiringLru {
+  readonly entries: Map<string, number> = new Map();
+  private maxEntries: number;
+  private ttl: number;
+  private nextSweep = 0;
+
+  constructor(options: DedupeStoreOptions) {
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.ttl = options.ttl ?? DEFAULT_TTL;
+  }
+
+  has(key: string, now = Date.now()): boolean {
+    const expiresAt = this.entries.get(key);
+    if (expiresAt === undefined) return false;
+    if (expiresAt <= now) {
+      this.entries.delete(key);
+      return false;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, expiresAt);
+    return true;
+  }
+
+  add(key: string, ttl = this.ttl, now = Date.now()): void {
+    this.entries.delete(key);
+    if (ttl <= 0) return;
+
+    this.entries.set(key, now + ttl);
+    this.evict(now);
+  }
+
+  // Drop the least recently seen keys beyond maxEntries. Expired keys are dropped on lookup
+  // and by a sweep that runs at most once per SWEEP_INTERVAL.
+  evict(now = Date.now()): void {
+    if (now >= this.nextSweep) {
+      this.nextSweep = now + SWEEP_INTERVAL;
+      for (const [key, expiresAt] of this.entries) {
+        if (expiresAt <= now) this.entries.delete(key);
+      }
+    }
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.entries.delete(key);
+    }
+  }
+}
+
+export class InMemoryDedupeStore implements DedupeStore {
+  private lru: ExpiringLru;
+
+  constructor(options: DedupeStoreOptions = {}) {
+    this.lru = new ExpiringLru(options);
+  }
+
+  async has(key: string): Promise<boolean> {
+    return this.lru.has(key);
+  }
+
+  async add(key: string, ttl?: number): Promise<void> {
+    this.lru.add(key, ttl);
+  }
+
+  async remove(key: string): Promise<boolean> {
+    return this.lru.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.lru.entries.clear();
+  }
+}
+
+export class FileDedupeStore implements DedupeStore {
+  private options: FileDedupeStoreOptions;
+  private lru?: ExpiringLru;
+  private log: JsonLinesLog<DedupeRecord>;
+
+  constructor(options: FileDedupeStoreOptions) {
+    this.options = options;
+    this.log = new JsonLinesLog(options.filename);
+  }
+
+  async has(key: string): Promise<boolean> {
+    return (await this.load()).has(key);
+  }
+
+  async add(key: string, ttl?: number): Promise<void> {
+    const lru = await this.load();
+    lru.add(key, ttl);
+    await this.append(lru, [key, lru.entries.get(key) ?? 0]);
+  }
+
+  async remove(key: string): Promise<boolean> {
+    const lru = await this.load();
+    const removed = lru.entries.delete(key);
+    if (removed) {
+      await this.append(lru, [key, 0]);
+    }
+    return removed;
+  }
+
+  async clear(): Promise<void> {
+    const lru = await this.load();
+    lru.entries.clear();
+    await this.log.rewrite(() => []);
+  }
+
+  private async load(): Promise<ExpiringLru> {
+    if (this.lru) return this.lru;
+
+    const lru = new ExpiringLru(this.options);
+    for (const [key, expiresAt] of await this.log.read()) {
+      lru.entries.delete(key);
+      if (expiresAt > 0) lru.entries.set(key, expiresAt);
+    }
+    lru.evict();
+
+    this.lru = this.lru || lru;
+    return this.lru;
+  }
+
+  private append(lru: ExpiringLru, record: DedupeRecord): Promise<void> {
+    return this.log.append(record, lru.entries.size, () => lru.entries);
+  }
+}
+
+export const createInMemoryDedupeStore = (options?: DedupeStoreOptions): DedupeStore => {
+  return new InMemoryDedupeStore(options);
+};
+
+export const createFileDedupeStore = (options: FileDedupeStoreOptions): FileDedupeStore => {
+  return new FileDedupeStore(options);
+};
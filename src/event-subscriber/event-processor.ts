@@ -0,0 +1,452 @@
+/**
+ * Event Processor
+ * Complex event processing on top of EventSubscriber: windowed aggregates, sequences and
+ * absence detection, emitted as derived events on the event bus
+ */
+
+import { BaseEvent, EventBus, createEvent, matchTopic } from '../event-core';
+
+import type { EventFilter, EventSubscriber } from './index';
+
+export type WindowSpec =
+  | { type: 'tumbling'; size: number }
+  | { type: 'sliding'; size: number }
+  | { type: 'session'; gap: number };
+
+export type AggregateFunction = 'count' | 'sum' | 'distinct';
+
+// Dotted path into the event, or an accessor
+export type EventField = string | ((event: BaseEvent) => unknown);
+
+export interface DerivedEventSpec {
+  type: string;
+  source?: string;
+  nsmClassification?: BaseEvent['nsmClassification'];
+}
+
+interface ProcessingRule {
+  // Unique rule name, also used to remove the rule
+  name: string;
+  // Correlates events, e.g. by user or application; events without a key are ignored.
+  // Defaults to one shared key.
+  key?: (event: BaseEvent) => string | undefined;
+  filter?: EventFilter;
+  emit: string | DerivedEventSpec;
+}
+
+export interface AggregationRule extends ProcessingRule {
+  eventTypes: string | string[];
+  window: WindowSpec;
+  aggregate?: AggregateFunction;
+  // Required for sum and distinct
+  field?: EventField;
+  // Emit only windows that match; sliding windows start over for the key after a match
+  when?: (result: WindowResult) => boolean;
+}
+
+export interface SequenceRule extends ProcessingRule {
+  // Event types (or topic patterns) that must occur in this order
+  steps: string[];
+  // Maximum time (ms) from the first to the last step
+  within: number;
+}
+
+export interface AbsenceRule extends ProcessingRule {
+  trigger: string;
+  expected: string;
+  // Time (ms) after the trigger within which the expected event must arrive
+  within: number;
+}
+
+export interface WindowResult {
+  rule: string;
+  key: string;
+  windowStart: Date;
+  windowEnd: Date;
+  count: number;
+  value: number;
+  eventIds: string[];
+}
+
+export interface EventProcessorOptions {
+  // Bus for derived events; defaults to the subscriber's bus
+  eventBus?: EventBus;
+  onError?: (error: Error, rule: string) => void;
+}
+
+interface OpenWindow {
+  key: string;
+  start: number;
+  end: number;
+  events: BaseEvent[];
+  timer?: NodeJS.Timeout;
+}
+
+interface RuleRecord {
+  subscriptionIds: string[];
+  timers: Set<NodeJS.Timeout>;
+  // Open windows, partial sequences or pending deadlines
+  pending: () => number;
+  flush?: () => Promise<void>;
+}
+
+const DEFAULT_KEY = '*';
+
+export class EventProcessor {
+  private subscriber: EventSubscriber;
+  private options: EventProcessorOptions;
+  private rules: Map<string, RuleRecord> = new Map();
+  private emitted = 0;
+
+  constructor(subscriber: EventSubscriber, options: EventProcessorOptions = {}) {
+    this.subscriber = subscriber;
+    this.options = options;
+  }
+
+  // Aggregate events in tumbling, sliding or session windows
+  aggregate(rule: AggregationRule): string {
+    if ((rule.aggregate === 'sum' || rule.aggregate === 'distinct') && !rule.field) {
+      throw new Error(`Aggregation rule '${rule.name}' needs a field for ${rule.aggregate}`);
+    }
+
+    const record = this.createRecord(rule.name);
+    const windows = new Map<string, OpenWindow>();
+    const sliding = new Map<string, BaseEvent[]>();
+    const slidingExpiries = new Map<string, NodeJS.Timeout>();
+    record.pending = () => windows.size + sliding.size;
+
+    // Forget a sliding key's events, now or once its newest event falls outside the window
+    const expireSliding = (key: string, at?: number): void => {
+      const timer = slidingExpiries.get(key);
+      if (timer) {
+        clearTimeout(timer);
+        record.timers.delete(timer);
+        slidingExpiries.delete(key);
+      }
+      if (at === undefined) {
+        sliding.delete(key);
+        return;
+      }
+      slidingExpiries.set(
+        key,
+        this.schedule(rule.name, record, at - Date.now(), async () => {
+          slidingExpiries.delete(key);
+          sliding.delete(key);
+        })
+      );
+    };
+
+    const close = async (window: OpenWindow): Promise<void> => {
+      if (window.timer) {
+        clearTimeout(window.timer);
+        record.timers.delete(window.timer);
+      }
+      if (windows.get(window.key) === window) {
+        windows.delete(window.key);
+      }
+
+      const result = this.summarise(rule, window);
+      if (!rule.when || rule.when(result)) {
+        await this.emit(rule, { ...result });
+      }
+    };
+    record.flush = async () => {
+      for (const window of Array.from(windows.values())) {
+        await close(window);
+      }
+    };
+
+    const handler = async (event: BaseEvent): Promise<void> => {
+      const key = this.resolveKey(rule, event);
+      if (key === undefined) return;
+      const time = event.timestamp.getTime();
+      const spec = rule.window;
+
+      if (spec.type === 'sliding') {
+        const events = (sliding.get(key) || []).filter(
+          previous => previous.timestamp.getTime() > time - spec.size
+        );
+        events.push(event);
+
+        const result = this.summarise(rule, { key, start: time - spec.size, end: time, events });
+        if (!rule.when || rule.when(result)) {
+          expireSliding(key);
+          await this.emit(rule, { ...result });
+        } else {
+          sliding.set(key, events);
+          const newest = Math.max(...events.map(buffered => buffered.timestamp.getTime()));
+          expireSliding(key, newest + spec.size);
+        }
+        return;
+      }
+
+      let window = windows.get(key);
+      if (spec.type === 'tumbling') {
+        const start = Math.floor(time / spec.size) * spec.size;
+        if (window && start < window.start) return; // Late event for a closed window
+        if (window && start > window.start) {
+          await close(window);
+          window = undefined;
+        }
+        if (!window) {
+          const opened: OpenWindow = { key, start, end: start + spec.size, events: [] };
+          opened.timer = this.schedule(rule.name, record, opened.end - Date.now(), () =>
+            close(opened)
+          );
+          windows.set(key, opened);
+          window = opened;
+        }
+        window.events.push(event);
+        return;
+      }
+
+      // Session: the window stays open while events keep arriving within the gap
+      if (!window) {
+        window = { key, start: time, end: time, events: [] };
+        windows.set(key, window);
+      }
+      const session = window;
+      session.events.push(event);
+      session.end = Math.max(session.end, time + spec.gap);
+      if (session.timer) {
+        clearTimeout(session.timer);
+        record.timers.delete(session.timer);
+      }
+      session.timer = this.schedule(rule.name, record, spec.gap, () => close(session));
+    };
+
+    const eventTypes = Array.isArray(rule.eventTypes) ? rule.eventTypes : [rule.eventTypes];
+    record.subscriptionIds = eventTypes.map(eventType =>
+      this.subscriber.subscribe(eventType, handler, { name: rule.name, filter: rule.filter })
+    );
+    return rule.name;
+  }
+
+  // Detect events occurring in order for the same key
+  sequence(rule: SequenceRule): string {
+    if (rule.steps.length < 2) {
+      throw new Error(`Sequence rule '${rule.name}' needs at least two steps`);
+    }
+
+    const record = this.createRecord(rule.name);
+    const partials = new Map<string, { events: BaseEvent[]; timer: NodeJS.Timeout }>();
+    record.pending = () => partials.size;
+
+    const reset = (key: string): void => {
+      const partial = partials.get(key);
+      if (!partial) return;
+      clearTimeout(partial.timer);
+      record.timers.delete(partial.timer);
+      partials.delete(key);
+    };
+
+    const handler = async (event: BaseEvent): Promise<void> => {
+      const key = this.resolveKey(rule, event);
+      if (key === undefined) return;
+
+      let matched = partials.get(key)?.events || [];
+      if (
+        matched.length > 0 &&
+        event.timestamp.getTime() - matched[0].timestamp.getTime() > rule.within
+      ) {
+        matched = [];
+      }
+
+      if (matched.length > 0 && matchTopic(rule.steps[matched.length], event.type)) {
+        matched = [...matched, event];
+      } else if (matchTopic(rule.steps[0], event.type)) {
+        matched = [event];
+      } else {
+        return;
+      }
+
+      reset(key);
+      if (matched.length === rule.steps.length) {
+        await this.emit(rule, {
+          rule: rule.name,
+          key,
+          startedAt: matched[0].timestamp,
+          completedAt: event.timestamp,
+          eventIds: matched.map(step => step.id),
+        });
+        return;
+      }
+
+      // Forget partial matches once they can no longer complete in time
+      const timer = this.schedule(rule.name, record, rule.within, async () => {
+        if (partials.get(key)?.timer === timer) partials.delete(key);
+      });
+      partials.set(key, { events: matched, timer });
+    };
+
+    record.subscriptionIds = Array.from(new Set(rule.steps)).map(step =>
+      this.subscriber.subscribe(step, handler, { name: rule.name, filter: rule.filter })
+    );
+    return rule.name;
+  }
+
+  // Detect a trigger event that is not followed by the expected event in time
+  absence(rule: AbsenceRule): string {
+    const record = this.createRecord(rule.name);
+    const pending = new Map<string, NodeJS.Timeout>();
+    record.pending = () => pending.size;
+
+    const onTrigger = async (event: BaseEvent): Promise<void> => {
+      const key = this.resolveKey(rule, event);
+      if (key === undefined || pending.has(key)) return;
+
+      const deadline = new Date(Date.now() + rule.within);
+      const timer = this.schedule(rule.name, record, rule.within, async () => {
+        pending.delete(key);
+        await this.emit(rule, {
+          rule: rule.name,
+          key,
+          triggerEventId: event.id,
+          expected: rule.expected,
+          deadline,
+        });
+      });
+      pending.set(key, timer);
+    };
+
+    const onExpected = async (event: BaseEvent): Promise<void> => {
+      const key = this.resolveKey(rule, event);
+      const timer = key !== undefined ? pending.get(key) : undefined;
+      if (key === undefined || !timer) return;
+
+      clearTimeout(timer);
+      record.timers.delete(timer);
+      pending.delete(key);
+    };
+
+    record.subscriptionIds = [
+      this.subscriber.subscribe(rule.trigger, onTrigger, { name: rule.name, filter: rule.filter }),
+      this.subscriber.subscribe(rule.expected, onExpected, {
+        name: rule.name,
+        filter: rule.filter,
+      }),
+    ];
+    return rule.name;
+  }
+
+  removeRule(name: string): boolean {
+    const record = this.rules.get(name);
+    if (!record) return false;
+
+    record.subscriptionIds.forEach(id => this.subscriber.unsubscribe(id));
+    record.timers.forEach(timer => clearTimeout(timer));
+    this.rules.delete(name);
+    return true;
+  }
+
+  // Close open tumbling and session windows now, e.g. before shutdown
+  async flush(): Promise<void> {
+    for (const record of Array.from(this.rules.values())) {
+      await record.flush?.();
+    }
+  }
+
+  getStats() {
+    return {
+      rules: this.rules.size,
+      pending: Array.from(this.rules.values()).reduce((total, rule) => total + rule.pending(), 0),
+      emitted: this.emitted,
+    };
+  }
+
+  // Remove every rule without emitting open windows
+  stop(): void {
+    Array.from(this.rules.keys()).forEach(name => this.removeRule(name));
+  }
+
+  private createRecord(name: string): RuleRecord {
+    if (this.rules.has(name)) {
+      throw new Error(`Processing rule '${name}' already exists`);
+    }
+
+    const record: RuleRecord = { subscriptionIds: [], timers: new Set(), pending: () => 0 };
+    this.rules.set(name, record);
+    return record;
+  }
+
+  private resolveKey(rule: ProcessingRule, event: BaseEvent): string | undefined {
+    return rule.key ? rule.key(event) : DEFAULT_KEY;
+  }
+
+  private summarise(
+    rule: AggregationRule,
+    window: Pick<OpenWindow, 'key' | 'start' | 'end' | 'events'>
+  ): WindowResult {
+    const values = rule.field ? window.events.map(event => readField(event, rule.field)) : [];
+    let value = window.events.length;
+    if (rule.aggregate === 'sum') {
+      value = values.reduce<number>((total, item) => total + (Number(item) || 0), 0);
+    } else if (rule.aggregate === 'distinct') {
+      value = new Set(values.map(item => JSON.stringify(item))).size;
+    }
+
+    return {
+      rule: rule.name,
+      key: window.key,
+      windowStart: new Date(window.start),
+      windowEnd: new Date(window.end),
+      count: window.events.length,
+      value,
+      eventIds: window.events.map(event => event.id),
+    };
+  }
+
+  private async emit(rule: ProcessingRule, payload: Record<string, any>): Promise<void> {
+    const spec: DerivedEventSpec = typeof rule.emit === 'string' ? { type: rule.emit } : rule.emit;
+    const eventBus = this.options.eventBus || this.subscriber.getEventBus();
+
+    await eventBus.publish(
+      createEvent(spec.type, payload, {
+        source: spec.source || 'event-processor',
+        nsmClassification: spec.nsmClassification,
+      })
+    );
+    this.emitted++;
+  }
+
+  // Timers are unref'd so open windows never keep the process alive
+  private schedule(
+    rule: string,
+    record: RuleRecord,
+    delay: number,
+    run: () => Promise<void>
+  ): NodeJS.Timeout {
+    const timer = setTimeout(
+      () => {
+        record.timers.delete(timer);
+        run().catch(error => this.reportError(error, rule));
+      },
+      Math.max(0, delay)
+    );
+    timer.unref?.();
+    record.timers.add(timer);
+    return timer;
+  }
+
+  private reportError(error: unknown, rule: string): void {
+    const failure = error instanceof Error ? error : new Error(String(error));
+    if (this.options.onError) {
+      this.options.onError(failure, rule);
+      return;
+    }
+    console.error(`Event processing rule '${rule}' failed:`, failure);
+  }
+}
+
+function readField(event: BaseEvent, field: EventField | undefined): unknown {
+  if (typeof field === 'function') return field(event);
+  if (!field) return undefined;
+  return field.split('.').reduce<any>((value, part) => value?.[part], event);
+}
+
+export const createEventProcessor = (
+  subscriber: EventSubscriber,
+  options?: EventProcessorOptions
+): EventProcessor => {
+  return new EventProcessor(subscriber, options);
+};
@@ -3,17 +3,70 @@
  * Advanced event subscription with filtering, middleware, and compliance handling
  */
 
-import { BaseEvent, EventBus, EventHandler, getEventBus } from '../event-core';
+import {
+  BaseEvent,
+  DeliveryMode,
+  EventBus,
+  EventHandler,
+  HandlerErrorContext,
+  HandlerRetryPolicy,
+  getEventBus,
+  matchTopic,
+  STOP_PROPAGATION,
+} from '../event-core';
+import {
+  DeadLetterEntry,
+  DeadLetterQuery,
+  DeadLetterRedriveResult,
+  DeadLetterStore,
+  InMemoryDeadLetterStore,
+} from './dead-letter';
+import { DedupeStore, InMemoryDedupeStore } from './dedupe';
+
+export * from './dead-letter';
+export * from './dedupe';
+export * from './event-processor';
 
 export interface SubscriptionOptions {
+  // Stable name used to redrive dead letters after a restart; defaults to the event type
+  name?: string;
   filter?: EventFilter;
   middleware?: EventMiddleware[];
+  // Higher priorities receive events first; equal priorities run concurrently. Default 0.
   priority?: number;
+  // Keep events this subscription handled from lower-priority subscriptions
+  stopPropagation?: boolean | ((event: BaseEvent) => boolean);
+  // Competing consumers: each event reaches one member of the group, across connected buses
+  group?: string;
   maxRetries?: number;
+  retryPolicy?: Partial<HandlerRetryPolicy>;
+  delivery?: DeliveryMode;
   deadLetterQueue?: boolean;
+  // Skip events this subscription has already processed successfully
+  idempotency?: boolean | IdempotencyOptions;
   complianceLevel?: 'basic' | 'strict';
 }
 
+export interface IdempotencyOptions {
+  // Defaults to the subscriber's dedupe store
+  store?: DedupeStore;
+  // How long (ms) a processed key is remembered; defaults to the store's TTL
+  ttl?: number;
+  // Defaults to the event id
+  key?: (event: BaseEvent) => string;
+}
+
+export interface EventSubscriberOptions {
+  deadLetterStore?: DeadLetterStore;
+  // Dead letters whose last failure is older than this (ms) are purged
+  deadLetterTtl?: number;
+  // Oldest dead letters are purged beyond this count
+  maxDeadLetters?: number;
+  onDeadLetter?: (entry: DeadLetterEntry) => Promise<void> | void;
+  // Shared by idempotent subscriptions without their own store
+  dedupeStore?: DedupeStore;
+}
+
 export interface EventFilter {
   eventType?: string | string[];
   source?: string | string[];
@@ -36,16 +89,25 @@ export interface SubscriptionInfo {
     eventsProcessed: number;
     lastProcessed?: Date;
     errors: number;
+    // Redeliveries skipped by idempotency
+    duplicates: number;
   };
 }
 
 export class EventSubscriber {
   private eventBus: EventBus;
   private subscriptions: Map<string, SubscriptionInfo> = new Map();
-  private deadLetterQueue: BaseEvent[] = [];
+  private wrappedHandlers: Map<string, EventHandler> = new Map();
+  private options: EventSubscriberOptions;
+  private deadLetterStore: DeadLetterStore;
+  private dedupeStore: DedupeStore;
+  private pendingKeys: Map<string, Promise<boolean>> = new Map();
 
-  constructor(eventBus?: EventBus) {
+  constructor(eventBus?: EventBus, options: EventSubscriberOptions = {}) {
     this.eventBus = eventBus || getEventBus();
+    this.options = options;
+    this.deadLetterStore = options.deadLetterStore || new InMemoryDeadLetterStore();
+    this.dedupeStore = options.dedupeStore || new InMemoryDedupeStore();
   }
 
   /**
@@ -62,22 +124,57 @@ export class EventSubscriber {
     handler: EventHandler<T>,
     options: SubscriptionOptions = {}
   ): string {
-    const wrappedHandler = this.createWrappedHandler(handler, options);
-    const subscriptionId = this.eventBus.subscribe(eventType, wrappedHandler);
+    if (options.idempotency && options.name) {
+      const taken = Array.from(this.subscriptions.values()).some(
+        info =>
+          info.options.idempotency &&
+          info.options.name === options.name &&
+          info.eventType === eventType
+      );
+      if (taken) {
+        throw new Error(
+          `Idempotent subscription '${options.name}' for ${eventType} already exists; names must be unique`
+        );
+      }
+    }
 
     const subscriptionInfo: SubscriptionInfo = {
-      id: subscriptionId,
+      id: '',
       eventType,
       handler: handler as EventHandler,
       options,
       stats: {
         eventsProcessed: 0,
         errors: 0,
+        duplicates: 0,
       },
     };
 
-    this.subscriptions.set(subscriptionId, subscriptionInfo);
-    return subscriptionId;
+    // Each wrapped handler is bound to its own record, even when a handler is registered twice
+    const wrappedHandler = this.createWrappedHandler(subscriptionInfo);
+    subscriptionInfo.id = this.eventBus.subscribe(eventType, wrappedHandler, {
+      priority: options.priority,
+      group: options.group,
+      retryPolicy:
+        options.maxRetries !== undefined
+          ? { maxRetries: options.maxRetries, ...options.retryPolicy }
+          : options.retryPolicy,
+      delivery: options.delivery,
+      // The bus reports the failure once retries are exhausted
+      onError: options.deadLetterQueue
+        ? (error: Error, context: HandlerErrorContext) =>
+            this.addToDeadLetterQueue(
+              context.subscriptionId,
+              context.event,
+              error,
+              context.attempts
+            )
+        : undefined,
+    });
+
+    this.subscriptions.set(subscriptionInfo.id, subscriptionInfo);
+    this.wrappedHandlers.set(subscriptionInfo.id, wrappedHandler);
+    return subscriptionInfo.id;
   }
 
   // Subscribe to multiple event types
@@ -95,13 +192,15 @@ export class EventSubscriber {
     handler: EventHandler<T>,
     options: SubscriptionOptions = {}
   ): string {
-    const patternHandler: EventHandler = async event => {
-      if (pattern.test(event.type)) {
-        await (handler as EventHandler)(event);
-      }
-    };
-
-    return this.subscribe('*', patternHandler, options);
+    // Match through the filter so other events neither count as processed nor stop propagation
+    const customFilter = options.filter?.customFilter;
+    return this.subscribe('*', handler, {
+      ...options,
+      filter: {
+        ...options.filter,
+        customFilter: event => pattern.test(event.type) && (!customFilter || customFilter(event)),
+      },
+    });
   }
 
   // Unsubscribe
@@ -109,6 +208,7 @@ export class EventSubscriber {
     const success = this.eventBus.unsubscribe(subscriptionId);
     if (success) {
       this.subscriptions.delete(subscriptionId);
+      this.wrappedHandlers.delete(subscriptionId);
     }
     return success;
   }
@@ -119,20 +219,14 @@ export class EventSubscriber {
       this.eventBus.unsubscribe(subscriptionId);
     }
     this.subscriptions.clear();
+    this.wrappedHandlers.clear();
   }
 
   // Create wrapped handler with middleware and filtering
-  private createWrappedHandler<T extends BaseEvent>(
-    handler: EventHandler<T>,
-    options: SubscriptionOptions
-  ): EventHandler {
-    return async (event: BaseEvent) => {
-      const subscriptionInfo = Array.from(this.subscriptions.values()).find(
-        sub => sub.handler === handler
-      );
-
-      if (!subscriptionInfo) return;
+  private createWrappedHandler(subscriptionInfo: SubscriptionInfo): EventHandler {
+    const { handler, options } = subscriptionInfo;
 
+    return async (event: BaseEvent) => {
       try {
         // Apply event filter
         if (options.filter && !this.passesFilter(event, options.filter)) {
@@ -145,35 +239,91 @@ export class EventSubscriber {
         }
 
         // Execute middleware chain
-        if (options.middleware && options.middleware.length > 0) {
-          await this.executeMiddleware(event, options.middleware, handler as EventHandler);
-        } else {
-          await (handler as EventHandler)(event);
+        let handlerStopped = false;
+        const finalHandler: EventHandler = async handledEvent => {
+          handlerStopped = (await handler(handledEvent)) === STOP_PROPAGATION;
+        };
+        const run = async (): Promise<void> => {
+          if (options.middleware && options.middleware.length > 0) {
+            await this.executeMiddleware(event, options.middleware, finalHandler);
+          } else {
+            await finalHandler(event);
+          }
+        };
+
+        if (!options.idempotency) {
+          await run();
+        } else if (!(await this.runIdempotent(subscriptionInfo, event, run))) {
+          // Already handled: stop propagation as the first delivery would have
+          return this.shouldStopPropagation(options, event) ? STOP_PROPAGATION : undefined;
         }
 
         // Update statistics
         subscriptionInfo.stats.eventsProcessed++;
         subscriptionInfo.stats.lastProcessed = new Date();
+
+        return handlerStopped || this.shouldStopPropagation(options, event)
+          ? STOP_PROPAGATION
+          : undefined;
       } catch (error) {
         subscriptionInfo.stats.errors++;
 
-        // Handle dead letter queue
-        if (options.deadLetterQueue) {
-          this.addToDeadLetterQueue(event);
-        }
-
-        // Error processing event logged internally
+        // Rethrow so the bus can retry; dead-lettering happens after the final attempt
         throw error;
       }
     };
   }
 
+  private shouldStopPropagation(options: SubscriptionOptions, event: BaseEvent): boolean {
+    return typeof options.stopPropagation === 'function'
+      ? options.stopPropagation(event)
+      : options.stopPropagation === true;
+  }
+
+  // Run the handler unless the event was already processed; deliveries of one key run in turn
+  private async runIdempotent(
+    info: SubscriptionInfo,
+    event: BaseEvent,
+    run: () => Promise<void>
+  ): Promise<boolean> {
+    const idempotency: IdempotencyOptions =
+      info.options.idempotency === true ? {} : info.options.idempotency || {};
+    const store = idempotency.store || this.dedupeStore;
+    // Named subscriptions keep their keys across restarts; unnamed ones are keyed per subscription
+    const scope = info.options.name ? `${info.options.name}:${info.eventType}` : info.id;
+    const key = `${scope}:${idempotency.key ? idempotency.key(event) : event.id}`;
+
+    const previous = this.pendingKeys.get(key) || Promise.resolve(false);
+    const current = previous
+      .catch(() => false)
+      .then(async () => {
+        if (await store.has(key)) {
+          info.stats.duplicates++;
+          return false;
+        }
+
+        // Only successful runs are recorded, so retries and redrives still reach the handler
+        await run();
+        await store.add(key, idempotency.ttl);
+        return true;
+      });
+
+    this.pendingKeys.set(key, current);
+    try {
+      return await current;
+    } finally {
+      if (this.pendingKeys.get(key) === current) {
+        this.pendingKeys.delete(key);
+      }
+    }
+  }
+
   // Check if event passes filter
   private passesFilter(event: BaseEvent, filter: EventFilter): boolean {
     // Event type filter
     if (filter.eventType) {
       const allowedTypes = Array.isArray(filter.eventType) ? filter.eventType : [filter.eventType];
-      if (!allowedTypes.includes(event.type)) return false;
+      if (!allowedTypes.some(type => matchTopic(type, event.type))) return false;
     }
 
     // Source filter
@@ -246,16 +396,83 @@ export class EventSubscriber {
     await next();
   }
 
-  // Add event to dead letter queue
-  private addToDeadLetterQueue(event: BaseEvent): void {
-    this.deadLetterQueue.push({
-      ...event,
-      metadata: {
-        ...event.metadata,
-        deadLetterReason: 'Handler execution failed',
-        deadLetterTimestamp: new Date(),
-      },
-    });
+  // Record a failed delivery, or count another failure of an existing dead letter
+  private async addToDeadLetterQueue(
+    subscriptionId: string,
+    event: BaseEvent,
+    error: Error,
+    attempts: number
+  ): Promise<void> {
+    const info = this.subscriptions.get(subscriptionId);
+    const id = `${subscriptionId}:${event.id}`;
+    const now = new Date();
+    const existing = await this.deadLetterStore.get(id);
+
+    const entry: DeadLetterEntry = {
+      id,
+      subscriptionId,
+      subscriptionName: info ? this.getSubscriptionName(info) : event.type,
+      event,
+      error: error.message,
+      stack: error.stack,
+      attempts: (existing?.attempts || 0) + attempts,
+      firstFailedAt: existing?.firstFailedAt || now,
+      lastFailedAt: now,
+    };
+
+    await this.deadLetterStore.put(entry);
+    await this.applyDeadLetterRetention();
+
+    if (this.options.onDeadLetter) {
+      try {
+        await this.options.onDeadLetter(entry);
+      } catch {
+        // A failing hook must not affect other subscriptions
+      }
+    }
+  }
+
+  // Purge dead letters past the TTL and beyond the maximum count
+  async applyDeadLetterRetention(): Promise<number> {
+    let purged = 0;
+
+    if (this.options.deadLetterTtl !== undefined) {
+      purged += await this.purgeDeadLetterQueue({
+        failedBefore: new Date(Date.now() - this.options.deadLetterTtl),
+      });
+    }
+
+    if (this.options.maxDeadLetters !== undefined) {
+      const entries = await this.deadLetterStore.list();
+      const excess = entries
+        .sort((a, b) => a.lastFailedAt.getTime() - b.lastFailedAt.getTime())
+        .slice(0, Math.max(0, entries.length - this.options.maxDeadLetters));
+      for (const entry of excess) {
+        if (await this.deadLetterStore.remove(entry.id)) purged++;
+      }
+    }
+
+    return purged;
+  }
+
+  private getSubscriptionName(info: SubscriptionInfo): string {
+    return info.options.name || info.eventType;
+  }
+
+  // Resolve the subscription a dead letter came from, by id or by name after a restart
+  private findDeadLetterSubscription(entry: DeadLetterEntry): SubscriptionInfo | undefined {
+    return (
+      this.subscriptions.get(entry.subscriptionId) ||
+      Array.from(this.subscriptions.values()).find(
+        info =>
+          info.options.deadLetterQueue && this.getSubscriptionName(info) === entry.subscriptionName
+      )
+    );
+  }
+
+  // Get the bus this subscriber is attached to
+  getEventBus(): EventBus {
+    return this.eventBus;
   }
 
   // Get subscription statistics
@@ -271,32 +488,67 @@ export class EventSubscriber {
     return Array.from(this.subscriptions.values());
   }
 
-  // Get dead letter queue
-  getDeadLetterQueue(): BaseEvent[] {
-    return [...this.deadLetterQueue];
+  // Get dead letter entries, oldest failure first
+  async getDeadLetterQueue(query?: DeadLetterQuery): Promise<DeadLetterEntry[]> {
+    return this.deadLetterStore.list(query);
+  }
+
+  // Get the store backing the dead letter queue
+  getDeadLetterStore(): DeadLetterStore {
+    return this.deadLetterStore;
   }
 
   // Clear dead letter queue
-  clearDeadLetterQueue(): void {
-    this.deadLetterQueue = [];
+  async clearDeadLetterQueue(): Promise<void> {
+    await this.deadLetterStore.clear();
   }
 
-  // Process dead letter queue
-  async processDeadLetterQueue(): Promise<void> {
-    const events = [...this.deadLetterQueue];
-    this.deadLetterQueue = [];
+  // Remove matching dead letters without redriving them
+  async purgeDeadLetterQueue(query: DeadLetterQuery): Promise<number> {
+    let purged = 0;
+    for (const entry of await this.deadLetterStore.list(query)) {
+      if (await this.deadLetterStore.remove(entry.id)) purged++;
+    }
+    return purged;
+  }
+
+  // Redrive matching dead letters to the subscription that failed them, and only that one
+  async processDeadLetterQueue(query?: DeadLetterQuery): Promise<DeadLetterRedriveResult> {
+    const result: DeadLetterRedriveResult = { succeeded: [], failed: [], skipped: [] };
+
+    for (const entry of await this.deadLetterStore.list(query)) {
+      const info = this.findDeadLetterSubscription(entry);
+      const wrappedHandler = info && this.wrappedHandlers.get(info.id);
+      if (!wrappedHandler) {
+        result.skipped.push(entry.id);
+        continue;
+      }
 
-    for (const event of events) {
       try {
-        await this.eventBus.publish(event);
+        await wrappedHandler(entry.event);
+        await this.deadLetterStore.remove(entry.id);
+        result.succeeded.push(entry.id);
       } catch (error) {
-        // Failed to reprocess dead letter event - logged internally
-        this.deadLetterQueue.push(event);
+        const failure = toError(error);
+        await this.deadLetterStore.put({
+          ...entry,
+          error: failure.message,
+          stack: failure.stack,
+          attempts: entry.attempts + 1,
+          lastFailedAt: new Date(),
+        });
+        result.failed.push(entry.id);
       }
     }
+
+    return result;
   }
 }
 
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
 // Built-in middleware
 export const complianceMiddleware: EventMiddleware = {
   name: 'compliance',
@@ -328,6 +580,9 @@ export const getEventSubscriber = (): EventSubscriber => {
   return defaultSubscriber;
 };
 
-export const createEventSubscriber = (eventBus?: EventBus): EventSubscriber => {
-  return new EventSubscriber(eventBus);
+export const createEventSubscriber = (
+  eventBus?: EventBus,
+  options?: EventSubscriberOptions
+): EventSubscriber => {
+  return new EventSubscriber(eventBus, options);
 };
@@ -9,6 +9,15 @@
  * NSM security classifications, GDPR data protection, and DigDir standards.
  */
 
+import {
+  TenantConfigRegistry,
+  TenantOverrides,
+  createTenantConfigRegistry,
+  getMunicipality,
+  getMunicipalitySlug,
+  getTenantConfigRegistry,
+} from './config-loader';
+
 // Configuration Module
 export * from './config-loader';
 
@@ -248,14 +257,25 @@ export const initializeFoundation = async (config?: {
     advancedAccessControl?: boolean;
     securityClearanceRequired?: boolean;
   };
+  // Tenant settings: a registry, or the tenants section of a loaded configuration. Defaults to
+  // the shared registry.
+  tenants?: TenantConfigRegistry | Record<string, TenantOverrides>;
 }) => {
   const foundationConfig = createFoundationConfig(config);
 
   // Foundation initialization - logging removed for compliance
   // Norwegian Compliance enabled by default
 
-  const nsmClassification = config?.compliance?.nsmClassification || 'BEGRENSET';
   const municipalityCode = config?.municipality || '0301';
+  const tenants =
+    config?.tenants instanceof TenantConfigRegistry
+      ? config.tenants
+      : config?.tenants
+        ? createTenantConfigRegistry({ tenants: config.tenants })
+        : getTenantConfigRegistry();
+  const tenant = tenants.get(municipalityCode);
+  const nsmClassification =
+    config?.compliance?.nsmClassification || tenant?.nsmClassification || 'BEGRENSET';
   const municipalityInfo = getMunicipalityInfo(municipalityCode);
   const municipalityName = getMunicipalityName(municipalityCode);
 
@@ -266,7 +286,7 @@ export const initializeFoundation = async (config?: {
   return {
     config: foundationConfig,
     municipality: municipalityCode,
-    language: config?.language || 'nb',
+    language: config?.language || tenant?.language || 'nb',
     environment: config?.environment || 'production',
     municipalityInfo,
 
@@ -287,7 +307,7 @@ export const initializeFoundation = async (config?: {
     integrations: {
       altinn: {
         enabled: config?.enableNorwegianCompliance !== false,
-        serviceOwner: `${municipalityName}_kommune`,
+        serviceOwner: tenant?.altinnServiceOwner || `${municipalityName}_kommune`,
       },
       digdir: config?.enableNorwegianCompliance !== false,
       nsm: config?.enableNorwegianCompliance !== false,
@@ -368,30 +388,18 @@ export const initializeFoundation = async (config?: {
 
 // Helper function to get municipality name for integration IDs
 function getMunicipalityName(municipalityCode: string): string {
-  const municipalityNames: Record<string, string> = {
-    '0301': 'oslo',
-    '4601': 'bergen',
-    '5001': 'trondheim',
-    '1103': 'stavanger',
-    '1601': 'tromso',
-  };
-
-  return municipalityNames[municipalityCode] || municipalityCode.toLowerCase();
+  const municipality = getMunicipality(municipalityCode);
+  return municipality ? getMunicipalitySlug(municipality) : municipalityCode.toLowerCase();
 }
 
 // Helper function to get municipality information
 function getMunicipalityInfo(municipalityCode?: string) {
-  const municipalities: Record<string, { name: string; county: string }> = {
-    '0301': { name: 'Oslo', county: 'Oslo' },
-    '4601': { name: 'Bergen', county: 'Vestland' },
-    '5001': { name: 'Trondheim', county: 'Trøndelag' },
-    '1103': { name: 'Stavanger', county: 'Rogaland' },
-    '1601': { name: 'Tromsø', county: 'Troms og Finnmark' },
-  };
-
   if (!municipalityCode) {
     return { name: undefined, county: undefined };
   }
 
-  return municipalities[municipalityCode] || { name: 'Unknown', county: 'Unknown' };
+  const municipality = getMunicipality(municipalityCode);
+  return municipality
+    ? { name: municipality.name, county: municipality.county }
+    : { name: 'Unknown', county: 'Unknown' };
 }
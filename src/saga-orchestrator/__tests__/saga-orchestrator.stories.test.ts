@@ -3,7 +3,20 @@
  * Tests real-world scenarios for Norwegian government complex workflow management
  */
 
-import { SagaContext, SagaDefinition, SagaOrchestrator, createSagaOrchestrator } from '../index';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { BaseEvent, createEventBus } from '../../event-core';
+import {
+  SagaContext,
+  SagaDefinition,
+  SagaOrchestrator,
+  createFileSagaStore,
+  createInMemorySagaStore,
+  createSagaOrchestrator,
+  validateDefinition,
+} from '../index';
 
 describe('Saga Orchestrator User Stories', () => {
   let orchestrator: SagaOrchestrator;
@@ -16,9 +29,9 @@ describe('Saga Orchestrator User Stories', () => {
     });
   });
 
-  afterEach(() => {
+  afterEach(async () => {
     // Clean up timeouts and resources after each test
-    orchestrator.cleanup();
+    await orchestrator.cleanup();
   });
 
   // User Story 1: Oslo Kommune citizen onboarding workflow
@@ -692,4 +705,738 @@ describe('Saga Orchestrator User Stories', () => {
     expect(errorEntries.length).toBe(1);
     expect(errorEntries[0].error).toBe('Simulated service failure');
   });
+
+  // User Story 9: Resuming an interrupted workflow after a restart
+  it('Crash Recovery Story: should resume a building permit saga from its last completed step after a restart', async () => {
+    // Given: A building permit saga persisted to a file store
+    const directory = mkdtempSync(join(tmpdir(), 'foundation-sagas-'));
+    const filename = join(directory, 'sagas.jsonl');
+    const executed: string[] = [];
+
+    const permitSaga = (stalled: boolean): SagaDefinition => ({
+      name: 'building_permit',
+      steps: [
+        {
+          name: 'register_application',
+          execute: async (_context: SagaContext) => {
+            executed.push('register_application');
+            return { applicationId: 'BP-2024-0042' };
+          },
+        },
+        {
+          name: 'reserve_fee',
+          execute: async (_context: SagaContext) => {
+            executed.push('reserve_fee');
+            // The first process stops while this step is in flight
+            if (stalled) await new Promise(() => undefined);
+            return { reserved: 1500 };
+          },
+        },
+        {
+          name: 'notify_applicant',
+          execute: async (context: SagaContext) => {
+            executed.push('notify_applicant');
+            return { notified: context.stepResults.register_application.applicationId };
+          },
+        },
+      ],
+    });
+
+    const crashed = createSagaOrchestrator({ store: createFileSagaStore({ filename }) });
+    crashed.registerSaga(permitSaga(true));
+
+    try {
+      const sagaId = await crashed.startSaga('building_permit', { gnr: 207, bnr: 61 });
+      await new Promise(resolve => setTimeout(resolve, 50));
+      await crashed.cleanup();
+
+      // When: A new process recovers from the same store
+      const store = createFileSagaStore({ filename });
+      const persisted = await store.get(sagaId);
+      expect(persisted!.status).toBe('running');
+      expect(persisted!.completedSteps).toEqual(['register_application']);
+
+      const restarted = createSagaOrchestrator({ store });
+      restarted.registerSaga(permitSaga(false));
+      const result = await restarted.recover();
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      // Then: The saga continues after the last completed step with its persisted context
+      expect(result).toEqual({ resumed: [sagaId], compensated: [], paused: [], skipped: [] });
+
+      const execution = restarted.getSagaStatus(sagaId);
+      expect(execution!.status).toBe('completed');
+      expect(execution!.context.data).toEqual({ gnr: 207, bnr: 61 });
+      expect(execution!.context.stepResults.notify_applicant).toEqual({
+        notified: 'BP-2024-0042',
+      });
+      expect(executed).toEqual([
+        'register_application',
+        'reserve_fee',
+        'reserve_fee',
+        'notify_applicant',
+      ]);
+      expect(execution!.auditTrail.map(entry => entry.action)).toContain('recover');
+
+      const stored = await store.get(sagaId);
+      expect(stored!.status).toBe('completed');
+      expect(stored!.startTime).toBeInstanceOf(Date);
+      expect((await restarted.recover()).resumed).toEqual([]);
+
+      // And: Cleaning up old executions removes finished and timed-out sagas from the file,
+      // judged by when they ended
+      const longAgo = new Date(Date.now() - 60 * 60 * 1000);
+      await store.save({
+        ...stored!,
+        sagaId: 'saga_timed_out',
+        status: 'timeout',
+        startTime: longAgo,
+        endTime: longAgo,
+      });
+      await store.save({
+        ...stored!,
+        sagaId: 'saga_long_running',
+        startTime: longAgo,
+        endTime: new Date(Date.now() + 60 * 1000),
+      });
+      expect(restarted.cleanupOldExecutions(new Date(Date.now() + 1000))).toBe(1);
+      await restarted.cleanup();
+      const remaining = await createFileSagaStore({ filename }).list();
+      expect(remaining.map(execution => execution.sagaId)).toEqual(['saga_long_running']);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  // User Story 10: Compensating interrupted workflows on startup
+  it('Recovery Policy Story: should compensate interrupted payment sagas and skip unknown definitions', async () => {
+    // Given: A payment saga that must be rolled back rather than resumed after a restart
+    const store = createInMemorySagaStore();
+    const refunds: string[] = [];
+
+    const paymentSaga = (stalled: boolean): SagaDefinition => ({
+      name: 'parking_fine_payment',
+      recovery: 'compensate',
+      steps: [
+        {
+          name: 'charge_card',
+          execute: async (_context: SagaContext) => ({ charged: 900 }),
+          compensate: async (context: SagaContext) => {
+            refunds.push(context.data.fineId);
+          },
+        },
+        {
+          name: 'mark_fine_paid',
+          execute: async (_context: SagaContext) => {
+            if (stalled) await new Promise(() => undefined);
+          },
+        },
+      ],
+    });
+
+    const crashed = createSagaOrchestrator({ store });
+    crashed.registerSaga(paymentSaga(true));
+    crashed.registerSaga({
+      name: 'retired_workflow',
+      steps: [{ name: 'wait', execute: () => new Promise(() => undefined) }],
+    });
+
+    const paymentId = await crashed.startSaga('parking_fine_payment', { fineId: 'PF-881' });
+    const retiredId = await crashed.startSaga('retired_workflow', {});
+    await new Promise(resolve => setTimeout(resolve, 50));
+    await crashed.cleanup();
+
+    // When: The restarted orchestrator recovers without the retired definition
+    const restarted = createSagaOrchestrator({ store });
+    restarted.registerSaga(paymentSaga(false));
+    const result = await restarted.recover();
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    // Then: The payment is compensated and the unknown saga is left for manual handling
+    expect(result).toEqual({
+      resumed: [],
+      compensated: [paymentId],
+      paused: [],
+      skipped: [retiredId],
+    });
+    expect(refunds).toEqual(['PF-881']);
+
+    const execution = await store.get(paymentId);
+    expect(execution!.status).toBe('compensated');
+    expect(execution!.compensatedSteps).toEqual(['charge_card']);
+    expect(execution!.error?.message).toBe('Saga interrupted by restart');
+    expect((await store.get(retiredId))!.status).toBe('running');
+    await restarted.cleanup();
+  });
+
+  // User Story 11: Fetching from national registers concurrently
+  it('Parallel Branch Story: should fan out register lookups, branch on results and compensate across branches', async () => {
+    // Given: A property transfer saga that queries Folkeregisteret and Matrikkelen concurrently
+    const compensations: string[] = [];
+
+    const lookup = (name: string, delay: number, result: Record<string, any>) => ({
+      name,
+      execute: async (_context: SagaContext) => {
+        await new Promise(resolve => setTimeout(resolve, delay));
+        return result;
+      },
+      compensate: async (_context: SagaContext) => {
+        compensations.push(name);
+      },
+    });
+
+    const transferSaga = (registrationFails: boolean): SagaDefinition => ({
+      name: registrationFails ? 'property_transfer_failing' : 'property_transfer',
+      steps: [
+        {
+          name: 'fetch_registers',
+          type: 'parallel',
+          branches: [
+            [lookup('folkeregister', 50, { resident: true })],
+            [
+              lookup('matrikkel', 5, { gnr: 207, bnr: 61 }),
+              lookup('grunnbok', 5, { mortgaged: false }),
+            ],
+          ],
+        },
+        {
+          name: 'route_transfer',
+          type: 'choice',
+          branches: [
+            {
+              name: 'unencumbered',
+              when: context => context.stepResults.grunnbok.mortgaged === false,
+              steps: [
+                {
+                  name: 'register_transfer',
+                  execute: async (_context: SagaContext) => {
+                    if (registrationFails) throw new Error('Kartverket unavailable');
+                    return { registered: true };
+                  },
+                },
+              ],
+            },
+          ],
+          otherwise: [{ name: 'request_bank_consent', execute: async () => ({ sent: true }) }],
+        },
+      ],
+    });
+
+    orchestrator.registerSaga(transferSaga(false));
+    orchestrator.registerSaga(transferSaga(true));
+
+    // When: Both transfers run
+    const completedId = await orchestrator.startSaga('property_transfer', {});
+    const failedId = await orchestrator.startSaga('property_transfer_failing', {});
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    // Then: Lookups run concurrently and the choice takes the unencumbered branch
+    const completed = orchestrator.getSagaStatus(completedId)!;
+    expect(completed.status).toBe('completed');
+    expect(completed.completedSteps).toEqual([
+      'matrikkel',
+      'grunnbok',
+      'folkeregister',
+      'fetch_registers',
+      'register_transfer',
+      'route_transfer',
+    ]);
+    expect(completed.context.stepResults.request_bank_consent).toBeUndefined();
+
+    // And: The audit trail shows where each step sits in the graph
+    const paths = completed.auditTrail.map(entry => [entry.action, entry.path]);
+    expect(paths).toEqual(
+      expect.arrayContaining([
+        ['execute', 'fetch_registers/folkeregister'],
+        ['execute', 'fetch_registers'],
+        ['branch', 'route_transfer'],
+        ['execute', 'route_transfer/unencumbered/register_transfer'],
+      ])
+    );
+    const branchEntry = completed.auditTrail.find(entry => entry.action === 'branch');
+    expect(branchEntry!.result).toEqual({ branch: 'unencumbered' });
+
+    // And: The failed transfer compensates every branch in reverse completion order
+    const failed = orchestrator.getSagaStatus(failedId)!;
+    expect(failed.status).toBe('compensated');
+    expect(failed.error?.message).toBe('Kartverket unavailable');
+    expect(compensations).toEqual(['folkeregister', 'grunnbok', 'matrikkel']);
+
+    // And: Step names must be unique across branches
+    expect(() =>
+      orchestrator.registerSaga({
+        name: 'ambiguous',
+        steps: [
+          { name: 'lookup', type: 'parallel', branches: [[lookup('matrikkel', 0, {})]] },
+          lookup('matrikkel', 0, {}),
+        ],
+      })
+    ).toThrow("Duplicate step name 'matrikkel' in saga 'ambiguous'");
+  });
+
+  // User Story 12: Reusing a payment workflow inside other sagas
+  it('Sub-Saga Story: should run a shared payment saga as a child and compensate it with the parent', async () => {
+    // Given: A reusable fee payment saga used by a dog registration workflow
+    const refunds: string[] = [];
+
+    orchestrator.registerSaga({
+      name: 'fee_payment',
+      steps: [
+        {
+          name: 'charge_fee',
+          execute: async (context: SagaContext) => ({ receipt: `R-${context.data.amount}` }),
+          compensate: async (context: SagaContext) => {
+            refunds.push(context.sagaId);
+          },
+        },
+      ],
+    });
+
+    const registration = (fails: boolean): SagaDefinition => ({
+      name: fails ? 'dog_registration_failing' : 'dog_registration',
+      steps: [
+        {
+          name: 'pay_registration_fee',
+          type: 'subSaga',
+          saga: 'fee_payment',
+          input: context => ({ amount: context.data.fee }),
+        },
+        {
+          name: 'issue_tag',
+          execute: async (context: SagaContext) => {
+            if (fails) throw new Error('Tag printer offline');
+            return { tag: context.stepResults.pay_registration_fee.charge_fee.receipt };
+          },
+        },
+      ],
+    });
+
+    orchestrator.registerSaga(registration(false));
+    orchestrator.registerSaga(registration(true));
+
+    // When: One registration succeeds and one fails after payment
+    const completedId = await orchestrator.startSaga('dog_registration', { fee: 450 });
+    const failedId = await orchestrator.startSaga('dog_registration_failing', { fee: 450 });
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    // Then: The child's results are available to later parent steps
+    const completed = orchestrator.getSagaStatus(completedId)!;
+    expect(completed.status).toBe('completed');
+    expect(completed.context.stepResults.issue_tag).toEqual({ tag: 'R-450' });
+
+    const child = orchestrator.getSagaStatus(`${completedId}:pay_registration_fee`)!;
+    expect(child.status).toBe('completed');
+    expect(child.parentSagaId).toBe(completedId);
+    expect(completed.subSagas).toEqual({
+      pay_registration_fee: `${completedId}:pay_registration_fee`,
+    });
+
+    // And: Failing the parent compensates the completed child saga
+    const failed = orchestrator.getSagaStatus(failedId)!;
+    expect(failed.status).toBe('compensated');
+    expect(refunds).toEqual([`${failedId}:pay_registration_fee`]);
+    expect(orchestrator.getSagaStatus(`${failedId}:pay_registration_fee`)!.status).toBe(
+      'compensated'
+    );
+    expect(
+      failed.auditTrail.some(
+        entry => entry.action === 'compensate' && entry.stepName === 'pay_registration_fee'
+      )
+    ).toBe(true);
+  });
+
+  // User Story 13: Waiting for a caseworker decision
+  it('Manual Approval Story: should suspend a case until it is approved and support pausing', async () => {
+    // Given: A kindergarten application that waits for a caseworker and a signed contract
+    orchestrator.registerSaga({
+      name: 'kindergarten_application',
+      steps: [
+        { name: 'register_application', execute: async () => ({ caseId: 'BHG-2024-117' }) },
+        { name: 'caseworker_decision', type: 'wait', signal: 'approved' },
+        { name: 'signed_contract', type: 'wait', signal: 'contract_signed' },
+        {
+          name: 'allocate_place',
+          execute: async (context: SagaContext) => ({
+            place: context.stepResults.caseworker_decision.kindergarten,
+          }),
+        },
+      ],
+    });
+
+    // When: The saga reaches the first wait
+    const sagaId = await orchestrator.startSaga('kindergarten_application', {});
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    // Then: It is suspended on the named signal
+    const execution = orchestrator.getSagaStatus(sagaId)!;
+    expect(execution.status).toBe('waiting');
+    expect(execution.waitingFor).toEqual([
+      { stepName: 'caseworker_decision', signal: 'approved', deadline: undefined },
+    ]);
+    expect(await orchestrator.signal(sagaId, 'unknown_saga_signal')).toBe(true);
+    expect(await orchestrator.signal('saga_missing', 'approved')).toBe(false);
+
+    // When: The case is paused, then approved and the contract is signed early
+    expect(await orchestrator.pauseSaga(sagaId)).toBe(true);
+    await orchestrator.signal(sagaId, 'approved', { kindergarten: 'Tøyen barnehage' });
+    await orchestrator.signal(sagaId, 'contract_signed', { signedBy: 'Kari Nordmann' });
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    // Then: The saga stops before its next step until it is resumed
+    expect(execution.status).toBe('paused');
+    expect(execution.completedSteps).toEqual(['register_application', 'caseworker_decision']);
+    expect(await orchestrator.resumeSaga(sagaId)).toBe(true);
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(execution.status).toBe('completed');
+    expect(execution.context.stepResults.signed_contract).toEqual({ signedBy: 'Kari Nordmann' });
+    expect(execution.context.stepResults.allocate_place).toEqual({ place: 'Tøyen barnehage' });
+    expect(execution.auditTrail.map(entry => entry.action)).toEqual(
+      expect.arrayContaining(['wait', 'signal', 'pause', 'resume'])
+    );
+    expect(await orchestrator.resumeSaga(sagaId)).toBe(false);
+  });
+
+  // User Story 14: Deadlines and waits that survive restarts
+  it('Signal Deadline Story: should compensate expired waits and keep waits across restarts', async () => {
+    // Given: A document signing saga with a deadline, persisted to a store
+    const store = createInMemorySagaStore();
+    const revoked: string[] = [];
+    const signingSaga: SagaDefinition = {
+      name: 'document_signing',
+      steps: [
+        {
+          name: 'send_document',
+          execute: async (context: SagaContext) => ({ documentId: context.data.documentId }),
+          compensate: async (context: SagaContext) => {
+            revoked.push(context.data.documentId);
+          },
+        },
+        { name: 'await_signature', type: 'wait', signal: 'signed', timeout: 40 },
+      ],
+    };
+
+    const first = createSagaOrchestrator({ store });
+    first.registerSaga(signingSaga);
+
+    // When: One document is never signed
+    const expiredId = await first.startSaga('document_signing', { documentId: 'DOC-1' });
+    const pendingId = await first.startSaga('document_signing', { documentId: 'DOC-2' });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    await first.cleanup();
+
+    // Then: The restarted orchestrator re-arms the original deadline and accepts signals
+    const restarted = createSagaOrchestrator({ store });
+    restarted.registerSaga(signingSaga);
+    const result = await restarted.recover();
+    expect(result.resumed).toEqual([expiredId, pendingId]);
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    const pending = restarted.getSagaStatus(pendingId)!;
+    expect(pending.status).toBe('waiting');
+    expect(pending.waitingFor![0].deadline).toBeInstanceOf(Date);
+    await restarted.signal(pendingId, 'signed', { signer: 'Ola Nordmann' });
+    await new Promise(resolve => setTimeout(resolve, 60));
+
+    expect(pending.status).toBe('completed');
+    expect(pending.context.stepResults.await_signature).toEqual({ signer: 'Ola Nordmann' });
+
+    // And: The expired wait is compensated
+    const expired = restarted.getSagaStatus(expiredId)!;
+    expect(expired.status).toBe('compensated');
+    expect(expired.error?.message).toContain("Signal 'signed' not received by");
+    expect(revoked).toEqual(['DOC-1']);
+    expect((await store.get(expiredId))!.status).toBe('compensated');
+    await restarted.cleanup();
+  });
+
+  // User Story 15: Admission control for busy case-handling periods
+  it('Admission Control Story: should queue sagas by priority with per-definition limits and one saga per case', async () => {
+    // Given: An orchestrator with two slots and a case review saga limited to one at a time
+    const limited = createSagaOrchestrator({ maxConcurrentSagas: 2, maxQueuedSagas: 3 });
+    const started: string[] = [];
+    const releases: Array<() => void> = [];
+
+    const blockingStep = (label: string) => ({
+      name: 'process',
+      execute: async (context: SagaContext) => {
+        started.push(`${label}:${context.data.caseId}`);
+        await new Promise<void>(resolve => releases.push(resolve));
+      },
+    });
+
+    limited.registerSaga({
+      name: 'case_review',
+      maxConcurrency: 1,
+      concurrencyKey: data => data.caseId,
+      steps: [blockingStep('review')],
+    });
+    limited.registerSaga({
+      name: 'case_update',
+      concurrencyKey: data => data.caseId,
+      steps: [blockingStep('update')],
+    });
+
+    // When: More sagas are started than can run
+    const firstReview = await limited.startSaga('case_review', { caseId: 'A' });
+    const secondReview = await limited.startSaga('case_review', { caseId: 'B' });
+    const sameCase = await limited.startSaga('case_update', { caseId: 'A' });
+    const otherCase = await limited.startSaga('case_update', { caseId: 'C' });
+    const urgent = await limited.startSaga('case_update', { caseId: 'D' }, { priority: 10 });
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    // Then: Limits and keys hold sagas back without blocking the ones behind them
+    expect(started).toEqual(['review:A', 'update:C']);
+    expect(limited.getSagaStatus(secondReview)!.status).toBe('queued');
+    expect(limited.getSagaStatus(sameCase)!.status).toBe('queued');
+    expect(limited.getStats().queuedExecutions).toBe(3);
+    await expect(limited.startSaga('case_update', { caseId: 'E' })).rejects.toThrow(
+      'Saga queue limit reached'
+    );
+
+    // When: The first review finishes
+    releases.shift()!();
+    await limited.waitForCompletion(firstReview, 1000);
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    // Then: The highest priority saga that fits starts next
+    expect(started).toEqual(['review:A', 'update:C', 'update:D']);
+    expect(limited.getSagaStatus(urgent)!.status).toBe('running');
+
+    // And: Queued sagas can be cancelled and the rest drain in order
+    expect(await limited.cancelSaga(secondReview)).toBe(true);
+    expect(limited.getSagaStatus(secondReview)!.status).toBe('compensated');
+    while (releases.length > 0) {
+      releases.shift()!();
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    await limited.waitForCompletion(sameCase, 1000);
+    expect(started).toEqual(['review:A', 'update:C', 'update:D', 'update:A']);
+    expect(limited.getSagaStatus(otherCase)!.status).toBe('completed');
+    await limited.cleanup();
+  });
+
+  // User Story 16: Lifecycle events and waiting for results
+  it('Lifecycle Events Story: should publish saga lifecycle events and resolve completion waiters', async () => {
+    // Given: An orchestrator publishing to a dedicated event bus
+    const eventBus = createEventBus();
+    const events: BaseEvent[] = [];
+    eventBus.subscribe('saga.#', event => {
+      events.push(event);
+    });
+
+    const observed = createSagaOrchestrator({ eventBus });
+    observed.registerSaga({
+      name: 'address_change',
+      nsmClassification: 'BEGRENSET',
+      steps: [
+        { name: 'update_register', execute: async () => ({ updated: true }) },
+        { name: 'notify_services', execute: async () => ({ notified: 3 }) },
+      ],
+    });
+    observed.registerSaga({
+      name: 'slow_check',
+      steps: [
+        {
+          name: 'check',
+          execute: () => new Promise(resolve => setTimeout(resolve, 100)),
+        },
+      ],
+    });
+
+    // When: A saga runs to completion
+    const sagaId = await observed.startSaga('address_change', { personId: 'p-1' });
+    const execution = await observed.waitForCompletion(sagaId, 1000);
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    // Then: The bus receives every lifecycle event in order
+    expect(execution.status).toBe('completed');
+    expect(events.map(event => event.type)).toEqual([
+      'saga.started',
+      'saga.step.completed',
+      'saga.step.completed',
+      'saga.completed',
+    ]);
+    expect(events[1]).toMatchObject({
+      sagaId,
+      sagaName: 'address_change',
+      stepName: 'update_register',
+      nsmClassification: 'BEGRENSET',
+      source: 'saga-orchestrator',
+    });
+
+    // And: Waiting times out for sagas that take too long, and fails for unknown sagas
+    const slowId = await observed.startSaga('slow_check', {});
+    await expect(observed.waitForCompletion(slowId, 20)).rejects.toThrow(
+      `Saga '${slowId}' did not complete within 20ms`
+    );
+    await expect(observed.waitForCompletion('saga_missing')).rejects.toThrow(
+      "Saga 'saga_missing' not found"
+    );
+
+    await observed.cancelSaga(slowId);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(events[events.length - 1].type).toBe('saga.compensated');
+    await observed.cleanup();
+    eventBus.cleanup();
+  });
+
+  // User Story 17: Reviewing workflow designs before deployment
+  it('Definition Review Story: should render saga diagrams and flag risky definitions', () => {
+    // Given: A registered child benefit saga with branches, a critical step and compensation
+    const benefitSaga: SagaDefinition = {
+      name: 'child_benefit',
+      timeout: 10000,
+      retryPolicy: { maxRetries: 2, backoffStrategy: 'exponential', baseDelay: 1000 },
+      steps: [
+        {
+          name: 'verify_identity',
+          critical: true,
+          timeout: 2000,
+          execute: async () => ({ verified: true }),
+        },
+        {
+          name: 'fetch_registers',
+          type: 'parallel',
+          branches: [
+            [
+              {
+                name: 'folkeregister',
+                timeout: 1000,
+                execute: async () => ({}),
+                compensate: async () => undefined,
+              },
+            ],
+            [{ name: 'a_ordningen', timeout: 1000, execute: async () => ({}) }],
+          ],
+        },
+        {
+          name: 'assess',
+          type: 'choice',
+          branches: [{ name: 'eligible', when: () => true, steps: [] }],
+          otherwise: [{ name: 'reject_claim', timeout: 15000, execute: async () => ({}) }],
+        },
+        { name: 'await_bank_account', type: 'wait', signal: 'account_registered' },
+        { name: 'pay_out', type: 'subSaga', saga: 'fee_payment' },
+      ],
+    };
+    orchestrator.registerSaga(benefitSaga);
+
+    // When: The definition is rendered as Mermaid and DOT
+    const mermaid = orchestrator.describe('child_benefit');
+    const dot = orchestrator.describe('child_benefit', 'dot');
+
+    // Then: Diagrams show the flow, branches, compensation, timeouts and critical steps
+    expect(mermaid.split('\n')[0]).toBe('flowchart TD');
+    expect(mermaid).toContain('step_1["verify_identity<br/>timeout 2000ms<br/>critical"]');
+    expect(mermaid).toContain('step_3 -.->|compensate| step_3_compensate');
+    expect(mermaid).toContain('step_2_fork --> step_4');
+    expect(mermaid).toContain('step_5 -->|eligible| step_7');
+    expect(mermaid).toContain('step_5 -->|otherwise| step_6');
+    expect(mermaid).toContain('step_8 --> saga_end');
+    expect(mermaid).toContain('class step_1 critical');
+
+    expect(dot.startsWith('digraph "child_benefit" {')).toBe(true);
+    expect(dot).toContain(
+      'step_1 [label="verify_identity\\ntimeout 2000ms\\ncritical", shape=box, color=red, penwidth=2];'
+    );
+    expect(dot).toContain('step_3 -> step_3_compensate [style=dashed, label="compensate"];');
+    expect(dot).toContain('step_5 -> step_6 [label="otherwise"];');
+    expect(() => orchestrator.describe('unknown')).toThrow("Saga definition 'unknown' not found");
+
+    // And: Step names that differ only in punctuation get their own nodes
+    orchestrator.registerSaga({
+      name: 'archive_case',
+      steps: [
+        { name: 'sak-arkiv', execute: async () => ({}) },
+        { name: 'sak_arkiv', execute: async () => ({}) },
+      ],
+    });
+    expect(orchestrator.describe('archive_case')).toContain('step_1 --> step_2');
+
+    // And: Validation flags missing compensation, long timeouts and retry budgets
+    const issues = validateDefinition(benefitSaga).map(issue => `${issue.code}:${issue.stepName}`);
+    expect(issues).toEqual([
+      'missing-compensation:a_ordningen',
+      'missing-compensation:reject_claim',
+      'step-timeout:reject_claim',
+      'retry-budget:reject_claim',
+    ]);
+    expect(
+      validateDefinition({
+        name: 'duplicated',
+        steps: [
+          { name: 'notify', execute: async () => ({}) },
+          { name: 'notify', execute: async () => ({}) },
+        ],
+      }).filter(issue => issue.severity === 'error')
+    ).toEqual([
+      expect.objectContaining({ severity: 'error', code: 'duplicate-step', stepName: 'notify' }),
+    ]);
+  });
+
+  // User Story 18: A caseworker withdraws a case while it is being processed
+  it('Cancellation Story: should stop a cancelled saga before its next step and hold its key until compensated', async () => {
+    // Given: Two updates of the same case, where only one may run at a time
+    const limited = createSagaOrchestrator({ maxConcurrentSagas: 2 });
+    const log: string[] = [];
+    let releaseFirstStep: () => void = () => undefined;
+
+    limited.registerSaga({
+      name: 'case_update',
+      concurrencyKey: data => data.caseId,
+      steps: [
+        {
+          name: 'lock_case',
+          execute: async context => {
+            log.push(`${context.data.label}:1`);
+            if (context.data.label === 'a') {
+              await new Promise<void>(resolve => (releaseFirstStep = resolve));
+            }
+          },
+          compensate: async context => {
+            log.push(`${context.data.label}:undo`);
+          },
+        },
+        {
+          name: 'write_case',
+          execute: async context => {
+            log.push(`${context.data.label}:2`);
+          },
+        },
+      ],
+    });
+    limited.registerSaga({
+      name: 'awaiting_signature',
+      steps: [{ name: 'signed', type: 'wait', signal: 'signed' }],
+    });
+
+    const first = await limited.startSaga('case_update', { caseId: 'K-1', label: 'a' });
+    const second = await limited.startSaga('case_update', { caseId: 'K-1', label: 'b' });
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    // When: The running saga is cancelled during its first step
+    const cancelled = limited.cancelSaga(first);
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    // Then: The queued saga for the same case waits until the step in progress has finished
+    expect(limited.getSagaStatus(second)!.status).toBe('queued');
+    releaseFirstStep();
+    expect(await cancelled).toBe(true);
+
+    // And: The cancelled saga runs no further steps and stays compensated
+    await limited.waitForCompletion(second, 1000);
+    expect(log).toEqual(['a:1', 'a:undo', 'b:1', 'b:2']);
+    expect(limited.getSagaStatus(first)!.status).toBe('compensated');
+    expect(limited.getSagaStatus(first)!.error?.message).toBe(`Saga '${first}' cancelled`);
+    expect(await limited.cancelSaga(first)).toBe(false);
+
+    // And: A saga waiting for a signal stops at once
+    const waiting = await limited.startSaga('awaiting_signature', {});
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(await limited.cancelSaga(waiting)).toBe(true);
+    expect(limited.getSagaStatus(waiting)!.status).toBe('compensated');
+    expect(limited.getStats().runningExecutions).toBe(0);
+    await limited.cleanup();
+  });
 });
@@ -3,8 +3,23 @@
  * Complex workflow management with Norwegian compliance and audit trails
  */
 
+import { EventBus, createEvent, getEventBus } from '../event-core';
+import {
+  SagaDiagramFormat,
+  calculateRetryDelay,
+  childSteps,
+  describeSagaDefinition,
+  isTaskStep,
+  validateDefinition,
+} from './saga-definition';
+import type { SagaStore } from './saga-store';
+
+export * from './saga-definition';
+export * from './saga-store';
+
 export interface SagaStep {
   name: string;
+  type?: 'task';
   execute: (context: SagaContext) => Promise<any>;
   compensate?: (context: SagaContext) => Promise<void>;
   timeout?: number;
@@ -12,6 +27,53 @@ export interface SagaStep {
   critical?: boolean;
 }
 
+// Runs each branch concurrently; the steps within a branch run in order
+export interface ParallelSagaStep {
+  name: string;
+  type: 'parallel';
+  branches: SagaStepDefinition[][];
+}
+
+export interface SagaChoiceBranch {
+  name: string;
+  when: (context: SagaContext) => boolean;
+  steps: SagaStepDefinition[];
+}
+
+// Runs the steps of the first branch whose condition matches, or the otherwise steps
+export interface ChoiceSagaStep {
+  name: string;
+  type: 'choice';
+  branches: SagaChoiceBranch[];
+  otherwise?: SagaStepDefinition[];
+}
+
+// Runs a registered saga as a child execution; its step results become this step's result
+export interface SubSagaStep {
+  name: string;
+  type: 'subSaga';
+  saga: string;
+  // Initial data for the child; defaults to a copy of the parent data
+  input?: (context: SagaContext) => Record<string, any>;
+}
+
+// Suspends the saga until orchestrator.signal() delivers the named signal; the signal payload
+// becomes this step's result
+export interface WaitSagaStep {
+  name: string;
+  type: 'wait';
+  signal: string;
+  // Milliseconds to wait before the saga is compensated
+  timeout?: number;
+}
+
+export type SagaStepDefinition =
+  | SagaStep
+  | ParallelSagaStep
+  | ChoiceSagaStep
+  | SubSagaStep
+  | WaitSagaStep;
+
 export interface SagaContext {
   sagaId: string;
   data: Record<string, any>;
@@ -22,11 +84,17 @@ export interface SagaContext {
 
 export interface SagaDefinition {
   name: string;
-  steps: SagaStep[];
+  steps: SagaStepDefinition[];
   timeout?: number;
   retryPolicy?: RetryPolicy;
   auditRequired?: boolean;
   nsmClassification?: 'ÅPEN' | 'BEGRENSET' | 'KONFIDENSIELT' | 'HEMMELIG';
+  // Overrides the orchestrator recovery policy for this saga
+  recovery?: SagaRecoveryPolicy;
+  // Maximum executions of this saga running at once; further starts are queued
+  maxConcurrency?: number;
+  // Executions with the same key run one at a time, e.g. one saga per case
+  concurrencyKey?: (data: Record<string, any>) => string | undefined;
 }
 
 export interface RetryPolicy {
@@ -39,7 +107,16 @@ export interface RetryPolicy {
 export interface SagaExecution {
   sagaId: string;
   name: string;
-  status: 'running' | 'completed' | 'failed' | 'compensating' | 'compensated' | 'timeout';
+  status:
+    | 'queued'
+    | 'running'
+    | 'waiting'
+    | 'paused'
+    | 'completed'
+    | 'failed'
+    | 'compensating'
+    | 'compensated'
+    | 'timeout';
   currentStep: number;
   context: SagaContext;
   startTime: Date;
@@ -48,12 +125,44 @@ export interface SagaExecution {
   compensatedSteps: string[];
   error?: Error;
   auditTrail: SagaAuditEntry[];
+  // Set on sub-saga executions
+  parentSagaId?: string;
+  // Child execution ids by sub-saga step name
+  subSagas?: Record<string, string>;
+  // Signals the saga is suspended on
+  waitingFor?: SagaWait[];
+  // Signals received before a step waited for them, by signal name
+  signals?: Record<string, any>;
+  // Set by pauseSaga(); the saga stops before its next step
+  paused?: boolean;
+  // Admission priority while queued; higher starts first
+  priority?: number;
+  concurrencyKey?: string;
+}
+
+export interface SagaWait {
+  stepName: string;
+  signal: string;
+  deadline?: Date;
 }
 
 export interface SagaAuditEntry {
   timestamp: Date;
   stepName: string;
-  action: 'execute' | 'compensate' | 'retry' | 'timeout' | 'error';
+  // Position of the step in the definition, e.g. 'fetch_registers/folkeregister'
+  path?: string;
+  action:
+    | 'execute'
+    | 'compensate'
+    | 'retry'
+    | 'timeout'
+    | 'error'
+    | 'recover'
+    | 'branch'
+    | 'wait'
+    | 'signal'
+    | 'pause'
+    | 'resume';
   result?: any;
   error?: string;
   duration: number;
@@ -64,6 +173,25 @@ export interface SagaOrchestratorOptions {
   enableCompliance?: boolean;
   defaultTimeout?: number;
   maxConcurrentSagas?: number;
+  // Sagas waiting for admission beyond maxConcurrentSagas; further starts are rejected
+  maxQueuedSagas?: number;
+  // Receives saga lifecycle events; defaults to the shared event bus
+  eventBus?: EventBus;
+  // Persists every state transition so sagas can be recovered after a restart
+  store?: SagaStore;
+  recoveryPolicy?: SagaRecoveryPolicy;
+}
+
+// What recover() does with a saga that was running when the process stopped
+export type SagaRecoveryPolicy = 'resume' | 'compensate';
+
+export interface SagaRecoveryResult {
+  resumed: string[];
+  compensated: string[];
+  // Paused sagas; they continue when resumeSaga() is called
+  paused: string[];
+  // Sagas whose definition is not registered
+  skipped: string[];
 }
 
 export class SagaOrchestrator {
@@ -72,6 +200,17 @@ export class SagaOrchestrator {
   private completedExecutions: SagaExecution[] = [];
   private options: SagaOrchestratorOptions;
   private timeouts: Set<NodeJS.Timeout> = new Set(); // Track timeouts for cleanup
+  private signalWaiters: Map<string, SignalWaiter[]> = new Map();
+  private resumers: Map<string, (() => void)[]> = new Map();
+  // Admission queue ordered by priority, then start order
+  private queuedExecutions: SagaExecution[] = [];
+  private completionWaiters: Map<string, ((execution: SagaExecution) => void)[]> = new Map();
+  // Executions in progress, so a cancelled saga can be awaited until it has stopped
+  private activeRuns: Map<string, Promise<void>> = new Map();
+  private cancelledSagas: Set<string> = new Set();
+  // Store writes in flight, so cleanup can wait for them
+  private pendingWrites: Set<Promise<void>> = new Set();
+  private eventBus: EventBus;
 
   constructor(options: SagaOrchestratorOptions = {}) {
     this.options = {
@@ -79,16 +218,34 @@ export class SagaOrchestrator {
       enableCompliance: true,
       defaultTimeout: 300000, // 5 minutes
       maxConcurrentSagas: 100,
+      maxQueuedSagas: 1000,
+      recoveryPolicy: 'resume',
       ...options,
     };
+    this.eventBus = options.eventBus || getEventBus();
   }
 
   // Register saga definition
   registerSaga(definition: SagaDefinition): void {
+    const duplicate = validateDefinition(definition).find(issue => issue.code === 'duplicate-step');
+    if (duplicate) {
+      throw new Error(duplicate.message);
+    }
+
     this.sagaDefinitions.set(definition.name, definition);
   }
 
-  // Start saga execution
+  // Render a registered definition as a Mermaid flowchart or Graphviz DOT graph
+  describe(sagaName: string, format: SagaDiagramFormat = 'mermaid'): string {
+    const definition = this.sagaDefinitions.get(sagaName);
+    if (!definition) {
+      throw new Error(`Saga definition '${sagaName}' not found`);
+    }
+    return describeSagaDefinition(definition, format);
+  }
+
+  // Start saga execution. Sagas that cannot run yet because of concurrency limits or another
+  // saga holding their key are queued.
   async startSaga(
     sagaName: string,
     initialData: Record<string, any>,
@@ -96,6 +253,9 @@ export class SagaOrchestrator {
       sagaId?: string;
       metadata?: Record<string, any>;
       nsmClassification?: SagaContext['nsmClassification'];
+      priority?: number;
+      // Overrides the definition's concurrency key
+      key?: string;
     }
   ): Promise<string> {
     const definition = this.sagaDefinitions.get(sagaName);
@@ -103,11 +263,6 @@ export class SagaOrchestrator {
       throw new Error(`Saga definition '${sagaName}' not found`);
     }
 
-    // Check concurrent saga limit
-    if (this.runningExecutions.size >= (this.options.maxConcurrentSagas || 10)) {
-      throw new Error('Maximum concurrent sagas limit reached');
-    }
-
     const sagaId = options?.sagaId || this.generateSagaId();
     const context: SagaContext = {
       sagaId,
@@ -120,53 +275,338 @@ export class SagaOrchestrator {
     const execution: SagaExecution = {
       sagaId,
       name: sagaName,
-      status: 'running',
+      status: 'queued',
       currentStep: 0,
       context,
       startTime: new Date(),
       completedSteps: [],
       compensatedSteps: [],
       auditTrail: [],
+      priority: options?.priority || 0,
+      concurrencyKey: options?.key ?? definition.concurrencyKey?.(initialData),
     };
 
-    this.runningExecutions.set(sagaId, execution);
+    this.enqueue(execution);
+    this.dispatchQueue();
 
-    // Start execution asynchronously
-    this.executeSaga(execution, definition).catch(error => {
-      console.error(`Saga ${sagaId} execution failed:`, error);
-    });
+    if (execution.status === 'queued') {
+      if (this.queuedExecutions.length > (this.options.maxQueuedSagas ?? 1000)) {
+        this.queuedExecutions = this.queuedExecutions.filter(queued => queued !== execution);
+        throw new Error('Saga queue limit reached');
+      }
+      await this.persist(execution);
+    }
 
     return sagaId;
   }
 
+  // Resolves with the execution once it has completed or been compensated
+  waitForCompletion(sagaId: string, timeout?: number): Promise<SagaExecution> {
+    const execution = this.getSagaStatus(sagaId);
+    if (!execution) {
+      return Promise.reject(new Error(`Saga '${sagaId}' not found`));
+    }
+    if (execution.endTime) {
+      return Promise.resolve(execution);
+    }
+
+    return new Promise((resolve, reject) => {
+      let timeoutId: NodeJS.Timeout | undefined;
+      const waiter = (completed: SagaExecution): void => {
+        if (timeoutId) {
+          clearTimeout(timeoutId);
+          this.timeouts.delete(timeoutId);
+        }
+        resolve(completed);
+      };
+
+      if (timeout !== undefined) {
+        const expire = (): void => {
+          this.timeouts.delete(timeoutId as NodeJS.Timeout);
+          const waiters = this.completionWaiters.get(sagaId) || [];
+          this.completionWaiters.set(
+            sagaId,
+            waiters.filter(candidate => candidate !== waiter)
+          );
+          reject(new Error(`Saga '${sagaId}' did not complete within ${timeout}ms`));
+        };
+        timeoutId = setTimeout(expire, timeout);
+        this.timeouts.add(timeoutId);
+      }
+
+      this.completionWaiters.set(sagaId, [...(this.completionWaiters.get(sagaId) || []), waiter]);
+    });
+  }
+
   // Get saga execution status
   getSagaStatus(sagaId: string): SagaExecution | undefined {
     return (
-      this.runningExecutions.get(sagaId) || this.completedExecutions.find(e => e.sagaId === sagaId)
+      this.runningExecutions.get(sagaId) ||
+      this.queuedExecutions.find(e => e.sagaId === sagaId) ||
+      this.completedExecutions.find(e => e.sagaId === sagaId)
     );
   }
 
-  // Cancel running saga
+  // Cancel a saga. A running saga stops before its next step, or at once when it is waiting or
+  // paused; it then compensates its completed steps. Resolves once compensation has finished, and
+  // only then are its slot and concurrency key released.
   async cancelSaga(sagaId: string): Promise<boolean> {
+    const queued = this.queuedExecutions.find(e => e.sagaId === sagaId);
+    if (queued) {
+      // Nothing has run yet, so there is nothing to compensate
+      this.queuedExecutions = this.queuedExecutions.filter(e => e !== queued);
+      queued.status = 'compensated';
+      queued.endTime = new Date();
+      this.moveTocompleted(queued);
+      return true;
+    }
+
     const execution = this.runningExecutions.get(sagaId);
-    if (!execution) return false;
+    if (!execution || execution.status === 'compensating' || this.cancelledSagas.has(sagaId)) {
+      return false;
+    }
 
-    execution.status = 'compensating';
-    await this.compensateSaga(execution);
+    this.cancelledSagas.add(sagaId);
+    const run = this.activeRuns.get(sagaId);
+    if (run) {
+      // Suspended steps of the saga and its sub-sagas wake up and fail with the cancellation
+      for (const id of Array.from(this.runningExecutions.keys())) {
+        if (id === sagaId || id.startsWith(`${sagaId}:`)) {
+          this.interrupt(id, new Error(`Saga '${sagaId}' cancelled`));
+        }
+      }
+      await run;
+    } else {
+      // Recovered while paused, so nothing is executing the saga
+      this.releaseWaiters(sagaId);
+      execution.status = 'compensating';
+      await this.compensateSaga(execution);
+    }
+    return true;
+  }
+
+  // Deliver a signal to a saga. A saga that is not yet waiting for it keeps the payload until a
+  // wait step asks for the signal.
+  async signal(sagaId: string, signal: string, payload?: any): Promise<boolean> {
+    const execution = this.runningExecutions.get(sagaId);
+    if (!execution || !['running', 'waiting', 'paused'].includes(execution.status)) return false;
+
+    const waiter = this.signalWaiters.get(sagaId)?.find(candidate => candidate.signal === signal);
+    this.logAuditEntry(execution, waiter ? waiter.stepName : signal, 'signal', {
+      result: payload,
+    });
+
+    if (waiter) {
+      waiter.resolve(payload);
+    } else {
+      execution.signals = { ...execution.signals, [signal]: payload };
+      await this.persist(execution);
+    }
+    return true;
+  }
+
+  // Stop a saga before its next step; the step in progress and any waits are not interrupted
+  async pauseSaga(sagaId: string): Promise<boolean> {
+    const execution = this.runningExecutions.get(sagaId);
+    if (!execution || execution.paused) return false;
+    if (execution.status !== 'running' && execution.status !== 'waiting') return false;
+
+    execution.paused = true;
+    this.logAuditEntry(execution, 'saga_paused', 'pause', {});
+    await this.persist(execution);
     return true;
   }
 
-  // Execute saga
-  private async executeSaga(execution: SagaExecution, definition: SagaDefinition): Promise<void> {
+  async resumeSaga(sagaId: string): Promise<boolean> {
+    const execution = this.runningExecutions.get(sagaId);
+    if (!execution?.paused) return false;
+
+    const parked = execution.status === 'paused';
+    const resumers = this.resumers.get(sagaId);
+    this.resumers.delete(sagaId);
+
+    execution.paused = false;
+    if (parked) {
+      execution.status = 'running';
+    }
+    this.logAuditEntry(execution, 'saga_resumed', 'resume', {});
+    await this.persist(execution);
+
+    if (resumers) {
+      resumers.forEach(resume => resume());
+      return true;
+    }
+
+    // Recovered while paused, so nothing is executing the saga yet
+    const definition = this.sagaDefinitions.get(execution.name);
+    if (parked && definition) {
+      this.executeSaga(execution, definition).catch(error => {
+        console.error(`Saga ${sagaId} execution failed:`, error);
+      });
+    }
+    return true;
+  }
+
+  // Recover sagas that were interrupted by a restart. Running sagas resume after their last
+  // completed step (an interrupted step runs again) or are compensated, depending on the
+  // definition's recovery policy; sagas that were compensating finish compensating.
+  async recover(): Promise<SagaRecoveryResult> {
+    const result: SagaRecoveryResult = { resumed: [], compensated: [], paused: [], skipped: [] };
+    if (!this.options.store) return result;
+
+    const interrupted = await this.options.store.list({
+      status: ['queued', 'running', 'waiting', 'paused', 'compensating', 'timeout'],
+    });
+
+    for (const execution of interrupted) {
+      // Timed out sagas keep their status once compensated, so only unfinished ones remain.
+      // Sub-sagas are resumed or compensated by their parent.
+      if (execution.endTime || execution.parentSagaId || this.getSagaStatus(execution.sagaId)) {
+        continue;
+      }
+
+      const definition = this.sagaDefinitions.get(execution.name);
+      if (!definition) {
+        result.skipped.push(execution.sagaId);
+        continue;
+      }
+
+      // Queued sagas were never admitted, so they queue again
+      if (execution.status === 'queued') {
+        this.enqueue(execution);
+        result.resumed.push(execution.sagaId);
+        continue;
+      }
+
+      this.runningExecutions.set(execution.sagaId, execution);
+
+      // Waiting and paused sagas stopped between steps, so they always resume
+      if (execution.status === 'paused') {
+        this.logAuditEntry(execution, 'saga_recovered', 'recover', { result: { policy: 'pause' } });
+        result.paused.push(execution.sagaId);
+        continue;
+      }
+
+      const policy =
+        execution.status === 'waiting'
+          ? 'resume'
+          : execution.status === 'running'
+            ? definition.recovery || this.options.recoveryPolicy || 'resume'
+            : 'compensate';
+
+      this.logAuditEntry(execution, 'saga_recovered', 'recover', { result: { policy } });
+
+      if (policy === 'resume') {
+        result.resumed.push(execution.sagaId);
+        this.executeSaga(execution, definition).catch(error => {
+          console.error(`Saga ${execution.sagaId} execution failed:`, error);
+        });
+      } else {
+        if (execution.status === 'running') {
+          execution.status = 'compensating';
+          execution.error = new Error('Saga interrupted by restart');
+        }
+        result.compensated.push(execution.sagaId);
+        this.compensateSaga(execution).catch(error => {
+          console.error(`Saga ${execution.sagaId} compensation failed:`, error);
+        });
+      }
+    }
+
+    this.dispatchQueue();
+    return result;
+  }
+
+  getStore(): SagaStore | undefined {
+    return this.options.store;
+  }
+
+  private enqueue(execution: SagaExecution): void {
+    const priority = execution.priority || 0;
+    const index = this.queuedExecutions.findIndex(queued => (queued.priority || 0) < priority);
+    if (index === -1) {
+      this.queuedExecutions.push(execution);
+    } else {
+      this.queuedExecutions.splice(index, 0, execution);
+    }
+  }
+
+  // Start every queued saga that fits; a saga blocked by its definition limit or key does not
+  // hold back the sagas behind it
+  private dispatchQueue(): void {
+    for (const execution of [...this.queuedExecutions]) {
+      const definition = this.sagaDefinitions.get(execution.name);
+      if (!definition || !this.canAdmit(execution, definition)) continue;
+
+      this.queuedExecutions = this.queuedExecutions.filter(queued => queued !== execution);
+      execution.status = 'running';
+      execution.startTime = new Date();
+      this.runningExecutions.set(execution.sagaId, execution);
+      void this.persist(execution);
+      this.publishLifecycleEvent('saga.started', execution);
+
+      // Start execution asynchronously
+      this.executeSaga(execution, definition).catch(error => {
+        console.error(`Saga ${execution.sagaId} execution failed:`, error);
+      });
+    }
+  }
+
+  private canAdmit(execution: SagaExecution, definition: SagaDefinition): boolean {
+    const running = Array.from(this.runningExecutions.values());
+    if (running.length >= (this.options.maxConcurrentSagas || 10)) return false;
+
+    if (
+      definition.maxConcurrency !== undefined &&
+      running.filter(e => e.name === definition.name).length >= definition.maxConcurrency
+    ) {
+      return false;
+    }
+
+    return (
+      execution.concurrencyKey === undefined ||
+      !running.some(e => e.concurrencyKey === execution.concurrencyKey)
+    );
+  }
+
+  // Lifecycle events must not fail the saga
+  private publishLifecycleEvent(
+    type: string,
+    execution: SagaExecution,
+    data: Record<string, any> = {}
+  ): void {
+    const event = createEvent(
+      type,
+      { sagaId: execution.sagaId, sagaName: execution.name, status: execution.status, ...data },
+      { source: 'saga-orchestrator', nsmClassification: execution.context.nsmClassification }
+    );
+
+    this.eventBus.publish(event).catch(error => {
+      // eslint-disable-next-line no-console
+      console.error(`Failed to publish ${type} for saga ${execution.sagaId}:`, error);
+    });
+  }
+
+  // Execute saga, tracking the run until it has completed or compensated
+  private executeSaga(execution: SagaExecution, definition: SagaDefinition): Promise<void> {
+    const run = this.runSaga(execution, definition).finally(() => {
+      if (this.activeRuns.get(execution.sagaId) === run) {
+        this.activeRuns.delete(execution.sagaId);
+      }
+    });
+    this.activeRuns.set(execution.sagaId, run);
+    return run;
+  }
+
+  private async runSaga(execution: SagaExecution, definition: SagaDefinition): Promise<void> {
     try {
       // Execute each step
       for (let i = 0; i < definition.steps.length; i++) {
         execution.currentStep = i;
-        const step = definition.steps[i];
-
-        await this.executeStep(execution, step, definition);
-        execution.completedSteps.push(step.name);
+        await this.runStep(execution, definition.steps[i], definition);
       }
+      // A saga cancelled during its last step is compensated too
+      this.throwIfCancelled(execution);
 
       // Saga completed successfully
       execution.status = 'completed';
@@ -193,11 +633,313 @@ export class SagaOrchestrator {
     }
   }
 
+  // Run a step of any kind, skipping steps completed before a restart. Composite steps are
+  // recorded as completed after all of their children.
+  private async runStep(
+    execution: SagaExecution,
+    step: SagaStepDefinition,
+    definition: SagaDefinition,
+    parentPath?: string
+  ): Promise<void> {
+    if (execution.completedSteps.includes(step.name)) return;
+    this.throwIfCancelled(execution);
+    if (execution.paused) {
+      await this.waitForResume(execution);
+      this.throwIfCancelled(execution);
+    }
+
+    const path = parentPath ? `${parentPath}/${step.name}` : step.name;
+    switch (step.type) {
+      case 'parallel':
+        await this.runParallel(execution, step, definition, path);
+        break;
+      case 'choice':
+        await this.runChoice(execution, step, definition, path);
+        break;
+      case 'subSaga':
+        await this.runSubSaga(execution, step, path);
+        break;
+      case 'wait':
+        await this.runWait(execution, step, path);
+        break;
+      default:
+        await this.executeStep(execution, step, definition, path);
+    }
+
+    execution.completedSteps.push(step.name);
+    await this.persist(execution);
+    this.publishLifecycleEvent('saga.step.completed', execution, { stepName: step.name, path });
+  }
+
+  // Every branch runs to completion or failure before the first failure is rethrown, so the
+  // steps completed by other branches are known when compensating
+  private async runParallel(
+    execution: SagaExecution,
+    step: ParallelSagaStep,
+    definition: SagaDefinition,
+    path: string
+  ): Promise<void> {
+    const startTime = Date.now();
+    const outcomes = await Promise.allSettled(
+      step.branches.map(async branch => {
+        for (const child of branch) {
+          await this.runStep(execution, child, definition, path);
+        }
+      })
+    );
+
+    const failure = outcomes.find(
+      (outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected'
+    );
+    if (failure) throw failure.reason;
+
+    this.logAuditEntry(execution, step.name, 'execute', {
+      path,
+      result: { branches: step.branches.length },
+      duration: Date.now() - startTime,
+    });
+  }
+
+  private async runChoice(
+    execution: SagaExecution,
+    step: ChoiceSagaStep,
+    definition: SagaDefinition,
+    path: string
+  ): Promise<void> {
+    const branch = step.branches.find(candidate => candidate.when(execution.context));
+    const branchName = branch ? branch.name : 'otherwise';
+    this.logAuditEntry(execution, step.name, 'branch', { path, result: { branch: branchName } });
+
+    for (const child of branch ? branch.steps : step.otherwise || []) {
+      await this.runStep(execution, child, definition, `${path}/${branchName}`);
+    }
+  }
+
+  // The child id is derived from the parent, so a resumed parent continues its existing child
+  private async runSubSaga(
+    execution: SagaExecution,
+    step: SubSagaStep,
+    path: string
+  ): Promise<void> {
+    const definition = this.sagaDefinitions.get(step.saga);
+    if (!definition) {
+      throw new Error(`Saga definition '${step.saga}' not found`);
+    }
+
+    const startTime = Date.now();
+    const sagaId = `${execution.sagaId}:${step.name}`;
+    let child = await this.findExecution(sagaId);
+
+    if (!child || !['running', 'waiting', 'paused', 'completed'].includes(child.status)) {
+      child = {
+        sagaId,
+        name: step.saga,
+        status: 'running',
+        currentStep: 0,
+        context: {
+          sagaId,
+          data: step.input ? step.input(execution.context) : { ...execution.context.data },
+          stepResults: {},
+          metadata: execution.context.metadata,
+          nsmClassification: execution.context.nsmClassification || definition.nsmClassification,
+        },
+        startTime: new Date(),
+        completedSteps: [],
+        compensatedSteps: [],
+        auditTrail: [],
+        parentSagaId: execution.sagaId,
+      };
+    }
+
+    execution.subSagas = { ...execution.subSagas, [step.name]: sagaId };
+    if (child.status !== 'completed') {
+      this.runningExecutions.set(sagaId, child);
+      await this.persist(child);
+      await this.executeSaga(child, definition);
+    }
+
+    if (child.status !== 'completed') {
+      throw child.error || new Error(`Sub-saga '${step.saga}' failed`);
+    }
+
+    execution.context.stepResults[step.name] = child.context.stepResults;
+    this.logAuditEntry(execution, step.name, 'execute', {
+      path,
+      result: { sagaId },
+      duration: Date.now() - startTime,
+    });
+  }
+
+  private async runWait(execution: SagaExecution, step: WaitSagaStep, path: string): Promise<void> {
+    const startTime = Date.now();
+    let payload: any;
+
+    if (execution.signals && step.signal in execution.signals) {
+      const { [step.signal]: received, ...remaining } = execution.signals;
+      payload = received;
+      execution.signals = remaining;
+    } else {
+      // A wait recovered after a restart keeps its original deadline
+      const wait = execution.waitingFor?.find(candidate => candidate.stepName === step.name) || {
+        stepName: step.name,
+        signal: step.signal,
+        deadline: step.timeout !== undefined ? new Date(Date.now() + step.timeout) : undefined,
+      };
+
+      execution.waitingFor = [
+        ...(execution.waitingFor || []).filter(candidate => candidate.stepName !== step.name),
+        wait,
+      ];
+      execution.status = 'waiting';
+      this.logAuditEntry(execution, step.name, 'wait', {
+        path,
+        result: { signal: wait.signal, deadline: wait.deadline },
+      });
+      await this.persist(execution);
+
+      try {
+        payload = await this.waitForSignal(execution, wait);
+      } catch (error) {
+        if (!this.isCancelled(execution)) {
+          this.logAuditEntry(execution, step.name, 'timeout', {
+            path,
+            error: error instanceof Error ? error.message : String(error),
+            duration: Date.now() - startTime,
+          });
+        }
+        throw error;
+      } finally {
+        execution.waitingFor = execution.waitingFor.filter(candidate => candidate !== wait);
+        if (execution.waitingFor.length === 0 && execution.status === 'waiting') {
+          execution.status = 'running';
+        }
+      }
+    }
+
+    execution.context.stepResults[step.name] = payload;
+    this.logAuditEntry(execution, step.name, 'execute', {
+      path,
+      result: payload,
+      duration: Date.now() - startTime,
+    });
+  }
+
+  private waitForSignal(execution: SagaExecution, wait: SagaWait): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const waiter: SignalWaiter = {
+        stepName: wait.stepName,
+        signal: wait.signal,
+        resolve: payload => {
+          this.removeWaiter(execution.sagaId, waiter);
+          resolve(payload);
+        },
+        reject: error => {
+          this.removeWaiter(execution.sagaId, waiter);
+          reject(error);
+        },
+      };
+
+      // Timers fire immediately beyond ~24.8 days, so long deadlines are re-armed
+      const armDeadline = (deadline: Date): void => {
+        const remaining = Math.max(0, deadline.getTime() - Date.now());
+        const timeoutId = setTimeout(
+          () => {
+            this.timeouts.delete(timeoutId);
+            if (remaining > MAX_TIMER_DELAY) {
+              armDeadline(deadline);
+              return;
+            }
+            this.removeWaiter(execution.sagaId, waiter);
+            reject(new Error(`Signal '${wait.signal}' not received by ${deadline.toISOString()}`));
+          },
+          Math.min(remaining, MAX_TIMER_DELAY)
+        );
+
+        // Waits can last for days and must not keep the process alive
+        timeoutId.unref();
+        this.timeouts.add(timeoutId);
+        waiter.timeoutId = timeoutId;
+      };
+
+      if (wait.deadline) {
+        armDeadline(wait.deadline);
+      }
+
+      this.signalWaiters.set(execution.sagaId, [
+        ...(this.signalWaiters.get(execution.sagaId) || []),
+        waiter,
+      ]);
+    });
+  }
+
+  private removeWaiter(sagaId: string, waiter: SignalWaiter): void {
+    if (waiter.timeoutId) {
+      clearTimeout(waiter.timeoutId);
+      this.timeouts.delete(waiter.timeoutId);
+    }
+
+    const waiters = (this.signalWaiters.get(sagaId) || []).filter(
+      candidate => candidate !== waiter
+    );
+    if (waiters.length > 0) {
+      this.signalWaiters.set(sagaId, waiters);
+    } else {
+      this.signalWaiters.delete(sagaId);
+    }
+  }
+
+  // Drop pending waits of a cancelled saga so its suspended execution is never continued
+  private releaseWaiters(sagaId: string): void {
+    for (const waiter of this.signalWaiters.get(sagaId) || []) {
+      this.removeWaiter(sagaId, waiter);
+    }
+    this.resumers.delete(sagaId);
+  }
+
+  // Fail the pending waits of a cancelled saga and wake it if paused, so its run stops
+  private interrupt(sagaId: string, error: Error): void {
+    for (const waiter of this.signalWaiters.get(sagaId) || []) {
+      waiter.reject(error);
+    }
+    const resumers = this.resumers.get(sagaId) || [];
+    this.resumers.delete(sagaId);
+    resumers.forEach(resume => resume());
+  }
+
+  // A saga is cancelled when it or any saga it runs under was cancelled
+  private isCancelled(execution: SagaExecution): boolean {
+    let current: SagaExecution | undefined = execution;
+    while (current) {
+      if (this.cancelledSagas.has(current.sagaId)) return true;
+      current = current.parentSagaId ? this.runningExecutions.get(current.parentSagaId) : undefined;
+    }
+    return false;
+  }
+
+  private throwIfCancelled(execution: SagaExecution): void {
+    if (this.isCancelled(execution)) {
+      throw new Error(`Saga '${execution.sagaId}' cancelled`);
+    }
+  }
+
+  private async waitForResume(execution: SagaExecution): Promise<void> {
+    execution.status = 'paused';
+    await this.persist(execution);
+
+    await new Promise<void>(resolve => {
+      this.resumers.set(execution.sagaId, [
+        ...(this.resumers.get(execution.sagaId) || []),
+        resolve,
+      ]);
+    });
+  }
+
   // Execute individual step
   private async executeStep(
     execution: SagaExecution,
     step: SagaStep,
-    definition: SagaDefinition
+    definition: SagaDefinition,
+    path?: string
   ): Promise<void> {
     const startTime = Date.now();
     const timeout = step.timeout || definition.timeout || this.options.defaultTimeout || 30000;
@@ -206,6 +948,9 @@ export class SagaOrchestrator {
     let lastError: Error | undefined;
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      if (attempt > 0) {
+        this.throwIfCancelled(execution);
+      }
       try {
         // Add compliance metadata if enabled
         if (this.options.enableCompliance && execution.context.nsmClassification) {
@@ -218,7 +963,7 @@ export class SagaOrchestrator {
         execution.context.stepResults[step.name] = result;
 
         const duration = Date.now() - startTime;
-        this.logAuditEntry(execution, step.name, 'execute', { result, duration });
+        this.logAuditEntry(execution, step.name, 'execute', { path, result, duration });
 
         return; // Success, exit retry loop
       } catch (error) {
@@ -227,6 +972,7 @@ export class SagaOrchestrator {
 
         if (attempt < maxRetries) {
           this.logAuditEntry(execution, step.name, 'retry', {
+            path,
             error: lastError.message,
             attempt: attempt + 1,
             duration,
@@ -234,11 +980,12 @@ export class SagaOrchestrator {
 
           // Apply retry delay
           if (definition.retryPolicy) {
-            const delay = this.calculateRetryDelay(definition.retryPolicy, attempt);
+            const delay = calculateRetryDelay(definition.retryPolicy, attempt);
             await this.delay(delay);
           }
         } else {
           this.logAuditEntry(execution, step.name, 'error', {
+            path,
             error: lastError.message,
             duration,
           });
@@ -255,22 +1002,41 @@ export class SagaOrchestrator {
     const definition = this.sagaDefinitions.get(execution.name);
     if (!definition) return;
 
-    // Compensate steps in reverse order
+    // Sub-sagas whose step did not complete have compensated themselves, unless the parent
+    // was interrupted while they ran
+    for (const [stepName, sagaId] of Object.entries(execution.subSagas || {})) {
+      if (!execution.completedSteps.includes(stepName)) {
+        await this.compensateSubSaga(sagaId);
+      }
+    }
+
+    // Compensate steps in reverse completion order, which covers steps from every branch, and
+    // skip those compensated before a restart
     for (let i = execution.completedSteps.length - 1; i >= 0; i--) {
       const stepName = execution.completedSteps[i];
-      const step = definition.steps.find(s => s.name === stepName);
-
-      if (step?.compensate) {
+      if (execution.compensatedSteps.includes(stepName)) continue;
+
+      const located = locateStep(definition.steps, stepName);
+      const step = located?.step;
+      const compensate =
+        step?.type === 'subSaga'
+          ? () => this.compensateSubSaga(execution.subSagas?.[stepName])
+          : step && isTaskStep(step)
+            ? step.compensate
+            : undefined;
+
+      if (compensate) {
         try {
           const startTime = Date.now();
-          await step.compensate(execution.context);
+          await compensate(execution.context);
 
           const duration = Date.now() - startTime;
-          this.logAuditEntry(execution, stepName, 'compensate', { duration });
+          this.logAuditEntry(execution, stepName, 'compensate', { path: located?.path, duration });
         } catch (error) {
           // eslint-disable-next-line no-console
           console.error(`Compensation failed for step ${stepName}:`, error);
           this.logAuditEntry(execution, stepName, 'error', {
+            path: located?.path,
             error: error instanceof Error ? error.message : String(error),
           });
         }
@@ -278,6 +1044,7 @@ export class SagaOrchestrator {
 
       // Always add to compensated steps (even if no compensate function)
       execution.compensatedSteps.push(stepName);
+      await this.persist(execution);
     }
 
     // Set final status based on error type
@@ -288,6 +1055,26 @@ export class SagaOrchestrator {
     this.moveTocompleted(execution);
   }
 
+  // Roll back a child execution that completed or was interrupted
+  private async compensateSubSaga(sagaId?: string): Promise<void> {
+    const child = sagaId ? await this.findExecution(sagaId) : undefined;
+    if (
+      !child ||
+      !['running', 'waiting', 'paused', 'completed', 'compensating'].includes(child.status)
+    ) {
+      return;
+    }
+
+    this.releaseWaiters(child.sagaId);
+    child.status = 'compensating';
+    await this.compensateSaga(child);
+  }
+
+  // Look up an execution in memory, then in the store
+  private async findExecution(sagaId: string): Promise<SagaExecution | undefined> {
+    return this.getSagaStatus(sagaId) || (await this.options.store?.get(sagaId));
+  }
+
   // Add Norwegian compliance metadata
   private addComplianceMetadata(execution: SagaExecution, step: SagaStep): void {
     if (!execution.context.metadata) {
@@ -323,30 +1110,6 @@ export class SagaOrchestrator {
     }
   }
 
-  // Calculate retry delay
-  private calculateRetryDelay(retryPolicy: RetryPolicy, attempt: number): number {
-    let delay = retryPolicy.baseDelay;
-
-    switch (retryPolicy.backoffStrategy) {
-      case 'exponential':
-        delay = retryPolicy.baseDelay * Math.pow(2, attempt);
-        break;
-      case 'linear':
-        delay = retryPolicy.baseDelay * (attempt + 1);
-        break;
-      case 'fixed':
-      default:
-        delay = retryPolicy.baseDelay;
-        break;
-    }
-
-    if (retryPolicy.maxDelay) {
-      delay = Math.min(delay, retryPolicy.maxDelay);
-    }
-
-    return delay;
-  }
-
   // Delay helper
   private delay(ms: number): Promise<void> {
     return new Promise(resolve => {
@@ -370,6 +1133,7 @@ export class SagaOrchestrator {
     const auditEntry: SagaAuditEntry = {
       timestamp: new Date(),
       stepName,
+      path: details.path,
       action,
       result: details.result,
       error: details.error,
@@ -377,6 +1141,7 @@ export class SagaOrchestrator {
     };
 
     execution.auditTrail.push(auditEntry);
+    void this.persist(execution);
 
     // Log compliance events (suppress during tests)
     if (
@@ -397,12 +1162,53 @@ export class SagaOrchestrator {
   // Move execution to completed
   private moveTocompleted(execution: SagaExecution): void {
     this.runningExecutions.delete(execution.sagaId);
+    this.cancelledSagas.delete(execution.sagaId);
+    // Compensated sub-sagas move here a second time
+    this.completedExecutions = this.completedExecutions.filter(e => e.sagaId !== execution.sagaId);
     this.completedExecutions.push(execution);
 
     // Keep only last 1000 completed executions
     if (this.completedExecutions.length > 1000) {
       this.completedExecutions = this.completedExecutions.slice(-1000);
     }
+
+    void this.persist(execution);
+    if (execution.status === 'completed') {
+      this.publishLifecycleEvent('saga.completed', execution);
+    } else {
+      this.publishLifecycleEvent('saga.compensated', execution, {
+        compensatedSteps: execution.compensatedSteps,
+        error: execution.error?.message,
+      });
+    }
+
+    const waiters = this.completionWaiters.get(execution.sagaId) || [];
+    this.completionWaiters.delete(execution.sagaId);
+    waiters.forEach(waiter => waiter(execution));
+
+    // A finished saga frees a slot
+    this.dispatchQueue();
+  }
+
+  // Save the current state of an execution
+  private persist(execution: SagaExecution): Promise<void> {
+    return this.writeStore(`persist saga ${execution.sagaId}`, store => store.save(execution));
+  }
+
+  // Store failures must not fail the saga
+  private writeStore(action: string, write: (store: SagaStore) => Promise<unknown>): Promise<void> {
+    const store = this.options.store;
+    if (!store) return Promise.resolve();
+
+    const pending: Promise<void> = write(store)
+      .then(() => undefined)
+      .catch(error => {
+        // eslint-disable-next-line no-console
+        console.error(`Failed to ${action}:`, error);
+      })
+      .finally(() => this.pendingWrites.delete(pending));
+    this.pendingWrites.add(pending);
+    return pending;
   }
 
   // Generate unique saga ID
@@ -424,6 +1230,7 @@ export class SagaOrchestrator {
     return {
       registeredSagas: this.sagaDefinitions.size,
       runningExecutions: this.runningExecutions.size,
+      queuedExecutions: this.queuedExecutions.length,
       completedExecutions: this.completedExecutions.length,
       executionsLast24h: recent24h.length,
       successfulExecutions: successful.length,
@@ -448,29 +1255,90 @@ export class SagaOrchestrator {
     return limit ? sagas.slice(0, limit) : sagas;
   }
 
-  // Clean up old executions
+  // Clean up old executions; finished executions are removed from the store as well
   cleanupOldExecutions(olderThan: Date): number {
+    const endedBefore = (execution: SagaExecution): boolean =>
+      (execution.endTime || execution.startTime) < olderThan;
+
     const initialCount = this.completedExecutions.length;
-    this.completedExecutions = this.completedExecutions.filter(e => e.startTime >= olderThan);
+    this.completedExecutions = this.completedExecutions.filter(e => !endedBefore(e));
+
+    void this.writeStore('remove old sagas', async store => {
+      // A saga that ended before the cutoff also started before it
+      const candidates = await store.list({
+        status: ['completed', 'failed', 'compensated', 'timeout'],
+        startedBefore: olderThan,
+      });
+      // Timed-out sagas without an end time are still recoverable
+      const finished = candidates.filter(execution => execution.endTime && endedBefore(execution));
+      await Promise.all(finished.map(execution => store.remove(execution.sagaId)));
+    });
     return initialCount - this.completedExecutions.length;
   }
 
   /**
    * Clean up all active timeouts and resources
-   * Should be called in tests or when shutting down
+   * Should be called in tests or when shutting down; resolves once pending store writes are done
    */
-  public cleanup(): void {
+  public async cleanup(): Promise<void> {
     // Clear all active timeouts
     for (const timeoutId of this.timeouts) {
       clearTimeout(timeoutId);
     }
     this.timeouts.clear();
+    this.signalWaiters.clear();
+    this.resumers.clear();
+    this.completionWaiters.clear();
+    this.activeRuns.clear();
+    this.cancelledSagas.clear();
+    this.queuedExecutions = [];
 
     // Clear all active sagas
     this.runningExecutions.clear();
+
+    await Promise.all(this.pendingWrites);
   }
 }
 
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+interface SignalWaiter {
+  stepName: string;
+  signal: string;
+  resolve: (payload: any) => void;
+  reject: (error: Error) => void;
+  timeoutId?: NodeJS.Timeout;
+}
+
+// Find a step anywhere in the definition along with its path
+const locateStep = (
+  steps: SagaStepDefinition[],
+  name: string,
+  parentPath?: string
+): { step: SagaStepDefinition; path: string } | undefined => {
+  for (const step of steps) {
+    const path = parentPath ? `${parentPath}/${step.name}` : step.name;
+    if (step.name === name) return { step, path };
+
+    const branches =
+      step.type === 'choice'
+        ? [
+            ...step.branches.map(branch => ({
+              path: `${path}/${branch.name}`,
+              steps: branch.steps,
+            })),
+            { path: `${path}/otherwise`, steps: step.otherwise || [] },
+          ]
+        : [{ path, steps: childSteps(step) }];
+
+    for (const branch of branches) {
+      const located = locateStep(branch.steps, name, branch.path);
+      if (located) return located;
+    }
+  }
+  return undefined;
+};
+
 // Default saga orchestrator
 let defaultOrchestrator: SagaOrchestrator;
 
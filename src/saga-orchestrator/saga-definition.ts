@@ -0,0 +1,316 @@
+/**
+ * Saga Definition Analysis
+ * Static validation of saga definitions and diagrams in Mermaid and Graphviz DOT
+ */
+
+import type { RetryPolicy, SagaDefinition, SagaStep, SagaStepDefinition } from './index';
+
+export interface SagaDefinitionIssue {
+  severity: 'error' | 'warning';
+  code: 'duplicate-step' | 'missing-compensation' | 'step-timeout' | 'retry-budget';
+  stepName: string;
+  message: string;
+}
+
+export type SagaDiagramFormat = 'mermaid' | 'dot';
+
+export const isTaskStep = (step: SagaStepDefinition): step is SagaStep => {
+  return step.type === undefined || step.type === 'task';
+};
+
+// Steps nested directly in a parallel or choice step
+export const childSteps = (step: SagaStepDefinition): SagaStepDefinition[] => {
+  switch (step.type) {
+    case 'parallel':
+      return step.branches.flat();
+    case 'choice':
+      return [...step.branches.flatMap(branch => branch.steps), ...(step.otherwise || [])];
+    default:
+      return [];
+  }
+};
+
+// Every step of a definition, depth first in definition order
+export const flattenSteps = (steps: SagaStepDefinition[]): SagaStepDefinition[] => {
+  return steps.flatMap(step => [step, ...flattenSteps(childSteps(step))]);
+};
+
+export const calculateRetryDelay = (retryPolicy: RetryPolicy, attempt: number): number => {
+  let delay = retryPolicy.baseDelay;
+
+  switch (retryPolicy.backoffStrategy) {
+    case 'exponential':
+      delay = retryPolicy.baseDelay * Math.pow(2, attempt);
+      break;
+    case 'linear':
+      delay = retryPolicy.baseDelay * (attempt + 1);
+      break;
+    case 'fixed':
+    default:
+      delay = retryPolicy.baseDelay;
+      break;
+  }
+
+  if (retryPolicy.maxDelay) {
+    delay = Math.min(delay, retryPolicy.maxDelay);
+  }
+
+  return delay;
+};
+
+// Check a definition for mistakes that only show up when a saga fails or runs slowly
+export const validateDefinition = (definition: SagaDefinition): SagaDefinitionIssue[] => {
+  const issues: SagaDefinitionIssue[] = [];
+  const steps = flattenSteps(definition.steps);
+  const seen = new Set<string>();
+
+  for (const step of steps) {
+    if (seen.has(step.name)) {
+      issues.push({
+        severity: 'error',
+        code: 'duplicate-step',
+        stepName: step.name,
+        message: `Duplicate step name '${step.name}' in saga '${definition.name}'`,
+      });
+    }
+    seen.add(step.name);
+  }
+
+  const tasks = steps.filter(isTaskStep);
+  tasks.forEach((step, index) => {
+    const nonCritical = tasks.slice(0, index).find(previous => !previous.critical);
+    if (!step.compensate && nonCritical) {
+      issues.push({
+        severity: 'warning',
+        code: 'missing-compensation',
+        stepName: step.name,
+        message: `Step '${step.name}' has no compensate but follows non-critical step '${nonCritical.name}', so the saga cannot be fully rolled back`,
+      });
+    }
+  });
+
+  if (definition.timeout === undefined) return issues;
+  const sagaTimeout = definition.timeout;
+
+  for (const step of steps) {
+    if ((isTaskStep(step) || step.type === 'wait') && (step.timeout ?? 0) > sagaTimeout) {
+      issues.push({
+        severity: 'warning',
+        code: 'step-timeout',
+        stepName: step.name,
+        message: `Step '${step.name}' timeout of ${step.timeout}ms exceeds the saga timeout of ${sagaTimeout}ms`,
+      });
+    }
+  }
+
+  for (const step of tasks) {
+    const retries = step.retries || definition.retryPolicy?.maxRetries || 0;
+    if (retries === 0) continue;
+
+    // Every attempt may run until its timeout, followed by the backoff before the next attempt
+    const stepTimeout = step.timeout || sagaTimeout;
+    let budget = (retries + 1) * stepTimeout;
+    for (let attempt = 0; attempt < retries && definition.retryPolicy; attempt++) {
+      budget += calculateRetryDelay(definition.retryPolicy, attempt);
+    }
+
+    if (budget > sagaTimeout) {
+      issues.push({
+        severity: 'warning',
+        code: 'retry-budget',
+        stepName: step.name,
+        message: `Step '${step.name}' can take ${budget}ms with ${retries} retries, which does not fit the saga timeout of ${sagaTimeout}ms`,
+      });
+    }
+  }
+
+  return issues;
+};
+
+interface DiagramNode {
+  id: string;
+  label: string[];
+  shape: 'terminal' | 'task' | 'fork' | 'decision' | 'wait' | 'subSaga' | 'compensation';
+  critical?: boolean;
+}
+
+interface DiagramEdge {
+  from: string;
+  to: string;
+  label?: string;
+  compensation?: boolean;
+}
+
+// Node an edge leaves from, with the branch label the edge carries
+interface DiagramExit {
+  id: string;
+  label?: string;
+}
+
+// Render a definition as a flowchart. Compensation handlers hang off their steps as dashed
+// edges; timeouts, retries and critical steps are shown on the step nodes.
+export const describeSagaDefinition = (
+  definition: SagaDefinition,
+  format: SagaDiagramFormat = 'mermaid'
+): string => {
+  const nodes: DiagramNode[] = [];
+  const edges: DiagramEdge[] = [];
+  // Steps are numbered in definition order; names such as 'a-b' and 'a_b' would collide as ids
+  let stepCount = 0;
+
+  const connect = (previous: DiagramExit[], to: string): void => {
+    previous.forEach(exit => edges.push({ from: exit.id, to, label: exit.label }));
+  };
+
+  const addSequence = (steps: SagaStepDefinition[], previous: DiagramExit[]): DiagramExit[] => {
+    return steps.reduce((exits, step) => addStep(step, exits), previous);
+  };
+
+  const addStep = (step: SagaStepDefinition, previous: DiagramExit[]): DiagramExit[] => {
+    const id = `step_${++stepCount}`;
+
+    switch (step.type) {
+      case 'parallel': {
+        nodes.push({ id: `${id}_fork`, label: [step.name], shape: 'fork' });
+        nodes.push({ id: `${id}_join`, label: [`${step.name} done`], shape: 'fork' });
+        connect(previous, `${id}_fork`);
+        for (const branch of step.branches) {
+          connect(addSequence(branch, [{ id: `${id}_fork` }]), `${id}_join`);
+        }
+        return [{ id: `${id}_join` }];
+      }
+      case 'choice': {
+        nodes.push({ id, label: [step.name], shape: 'decision' });
+        connect(previous, id);
+        return [
+          ...step.branches.flatMap(branch =>
+            addSequence(branch.steps, [{ id, label: branch.name }])
+          ),
+          ...addSequence(step.otherwise || [], [{ id, label: 'otherwise' }]),
+        ];
+      }
+      case 'subSaga':
+        nodes.push({ id, label: [step.name, `saga ${step.saga}`], shape: 'subSaga' });
+        break;
+      case 'wait':
+        nodes.push({
+          id,
+          label: [
+            step.name,
+            `signal ${step.signal}`,
+            ...(step.timeout !== undefined ? [`timeout ${step.timeout}ms`] : []),
+          ],
+          shape: 'wait',
+        });
+        break;
+      default:
+        nodes.push({
+          id,
+          label: [
+            step.name,
+            ...(step.timeout !== undefined ? [`timeout ${step.timeout}ms`] : []),
+            ...(step.retries ? [`retries ${step.retries}`] : []),
+            ...(step.critical ? ['critical'] : []),
+          ],
+          shape: 'task',
+          critical: step.critical,
+        });
+        if (step.compensate) {
+          nodes.push({
+            id: `${id}_compensate`,
+            label: [`compensate ${step.name}`],
+            shape: 'compensation',
+          });
+          edges.push({ from: id, to: `${id}_compensate`, compensation: true });
+        }
+    }
+
+    connect(previous, id);
+    return [{ id }];
+  };
+
+  nodes.push({
+    id: 'saga_start',
+    label: [
+      definition.name,
+      ...(definition.timeout !== undefined ? [`timeout ${definition.timeout}ms`] : []),
+    ],
+    shape: 'terminal',
+  });
+  const exits = addSequence(definition.steps, [{ id: 'saga_start' }]);
+  nodes.push({ id: 'saga_end', label: ['completed'], shape: 'terminal' });
+  connect(exits, 'saga_end');
+
+  return format === 'dot' ? renderDot(definition.name, nodes, edges) : renderMermaid(nodes, edges);
+};
+
+function renderMermaid(nodes: DiagramNode[], edges: DiagramEdge[]): string {
+  const shapes: Record<DiagramNode['shape'], [string, string]> = {
+    terminal: ['([', '])'],
+    task: ['[', ']'],
+    fork: ['((', '))'],
+    decision: ['{', '}'],
+    wait: ['[/', '/]'],
+    subSaga: ['[[', ']]'],
+    compensation: ['>', ']'],
+  };
+
+  const lines = ['flowchart TD'];
+  for (const node of nodes) {
+    const [open, close] = shapes[node.shape];
+    const label = node.label.join('<br/>').replace(/"/g, '#quot;');
+    lines.push(`  ${node.id}${open}"${label}"${close}`);
+  }
+
+  for (const edge of edges) {
+    const arrow = edge.compensation ? '-.->' : '-->';
+    const label = edge.compensation ? 'compensate' : edge.label;
+    lines.push(`  ${edge.from} ${arrow}${label ? `|${label}|` : ''} ${edge.to}`);
+  }
+
+  const critical = nodes.filter(node => node.critical).map(node => node.id);
+  if (critical.length > 0) {
+    lines.push('  classDef critical stroke:#c00,stroke-width:2px');
+    lines.push(`  class ${critical.join(',')} critical`);
+  }
+
+  return lines.join('\n');
+}
+
+function renderDot(name: string, nodes: DiagramNode[], edges: DiagramEdge[]): string {
+  const shapes: Record<DiagramNode['shape'], string> = {
+    terminal: 'oval',
+    task: 'box',
+    fork: 'circle',
+    decision: 'diamond',
+    wait: 'parallelogram',
+    subSaga: 'box3d',
+    compensation: 'note',
+  };
+  const quote = (value: string): string => `"${value.replace(/"/g, '\\"')}"`;
+
+  const lines = [`digraph ${quote(name)} {`, '  rankdir=TB;'];
+  for (const node of nodes) {
+    const attributes = [
+      `label=${quote(node.label.join('\\n'))}`,
+      `shape=${shapes[node.shape]}`,
+      ...(node.shape === 'compensation' ? ['style=dashed'] : []),
+      ...(node.critical ? ['color=red', 'penwidth=2'] : []),
+    ];
+    lines.push(`  ${node.id} [${attributes.join(', ')}];`);
+  }
+
+  for (const edge of edges) {
+    const attributes = edge.compensation
+      ? ['style=dashed', 'label="compensate"']
+      : edge.label
+        ? [`label=${quote(edge.label)}`]
+        : [];
+    lines.push(
+      `  ${edge.from} -> ${edge.to}${attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''};`
+    );
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
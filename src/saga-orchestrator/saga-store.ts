@@ -0,0 +1,188 @@
+/**
+ * Saga Store
+ * Persists saga executions and their audit trail so in-flight sagas survive a restart
+ */
+
+import { JsonLinesLog } from '../event-core';
+import type { SagaExecution } from './index';
+
+export interface SagaStoreQuery {
+  name?: string;
+  status?: SagaExecution['status'][];
+  startedBefore?: Date;
+}
+
+export interface SagaStore {
+  // Insert or replace the latest state of an execution
+  save(execution: SagaExecution): Promise<void>;
+  get(sagaId: string): Promise<SagaExecution | undefined>;
+  // Executions matching the query, oldest first
+  list(query?: SagaStoreQuery): Promise<SagaExecution[]>;
+  remove(sagaId: string): Promise<boolean>;
+}
+
+export interface FileSagaStoreOptions {
+  // JSON lines file; every save appends the latest state of the execution
+  filename: string;
+}
+
+// JSON form of an execution; errors keep their message and stack
+type StoredSagaExecution = Omit<SagaExecution, 'error'> & {
+  error?: { name: string; message: string; stack?: string };
+};
+
+// One line of the saga file: the latest state of an execution, or its removal
+type SagaStoreRecord = StoredSagaExecution | { sagaId: string; removed: true };
+
+// Snapshot an execution so later changes do not leak into the stored copy
+export const serializeSagaExecution = (execution: SagaExecution): StoredSagaExecution => {
+  const { error, ...rest } = execution;
+  return JSON.parse(
+    JSON.stringify({
+      ...rest,
+      error: error && { name: error.name, message: error.message, stack: error.stack },
+    })
+  );
+};
+
+// Restore Date and Error fields lost in JSON serialisation
+export const reviveSagaExecution = (stored: StoredSagaExecution): SagaExecution => {
+  const execution: SagaExecution = {
+    ...stored,
+    context: { ...stored.context },
+    startTime: new Date(stored.startTime),
+    endTime: stored.endTime ? new Date(stored.endTime) : undefined,
+    completedSteps: [...stored.completedSteps],
+    compensatedSteps: [...stored.compensatedSteps],
+    waitingFor: stored.waitingFor?.map(wait => ({
+      ...wait,
+      deadline: wait.deadline ? new Date(wait.deadline) : undefined,
+    })),
+    auditTrail: stored.auditTrail.map(entry => ({
+      ...entry,
+      timestamp: new Date(entry.timestamp),
+    })),
+    error: undefined,
+  };
+
+  if (stored.error) {
+    const error = new Error(stored.error.message);
+    error.name = stored.error.name;
+    error.stack = stored.error.stack;
+    execution.error = error;
+  }
+  return execution;
+};
+
+const matchesQuery = (execution: StoredSagaExecution, query: SagaStoreQuery = {}): boolean => {
+  if (query.name && execution.name !== query.name) return false;
+  if (query.status && !query.status.includes(execution.status)) return false;
+  if (query.startedBefore && new Date(execution.startTime) >= query.startedBefore) return false;
+  return true;
+};
+
+const selectExecutions = (
+  executions: Iterable<StoredSagaExecution>,
+  query?: SagaStoreQuery
+): SagaExecution[] => {
+  return Array.from(executions)
+    .filter(execution => matchesQuery(execution, query))
+    .map(reviveSagaExecution)
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+};
+
+export class InMemorySagaStore implements SagaStore {
+  private executions: Map<string, StoredSagaExecution> = new Map();
+
+  async save(execution: SagaExecution): Promise<void> {
+    this.executions.set(execution.sagaId, serializeSagaExecution(execution));
+  }
+
+  async get(sagaId: string): Promise<SagaExecution | undefined> {
+    const stored = this.executions.get(sagaId);
+    return stored ? reviveSagaExecution(stored) : undefined;
+  }
+
+  async list(query?: SagaStoreQuery): Promise<SagaExecution[]> {
+    return selectExecutions(this.executions.values(), query);
+  }
+
+  async remove(sagaId: string): Promise<boolean> {
+    return this.executions.delete(sagaId);
+  }
+}
+
+export class FileSagaStore implements SagaStore {
+  private options: FileSagaStoreOptions;
+  private loading?: Promise<Map<string, StoredSagaExecution>>;
+  private log: JsonLinesLog<SagaStoreRecord>;
+
+  constructor(options: FileSagaStoreOptions) {
+    this.options = options;
+    this.log = new JsonLinesLog(options.filename);
+  }
+
+  async save(execution: SagaExecution): Promise<void> {
+    // Snapshot before awaiting so the stored state is the state at the time of the call
+    const stored = serializeSagaExecution(execution);
+    const executions = await this.load();
+    executions.set(stored.sagaId, stored);
+    await this.append(executions, stored);
+  }
+
+  async get(sagaId: string): Promise<SagaExecution | undefined> {
+    const stored = (await this.load()).get(sagaId);
+    return stored ? reviveSagaExecution(stored) : undefined;
+  }
+
+  async list(query?: SagaStoreQuery): Promise<SagaExecution[]> {
+    return selectExecutions((await this.load()).values(), query);
+  }
+
+  async remove(sagaId: string): Promise<boolean> {
+    const executions = await this.load();
+    const removed = executions.delete(sagaId);
+    if (removed) {
+      await this.append(executions, { sagaId, removed: true });
+    }
+    return removed;
+  }
+
+  // Read the file once; concurrent callers share the same map
+  private load(): Promise<Map<string, StoredSagaExecution>> {
+    if (!this.loading) {
+      this.loading = this.readFile();
+      this.loading.catch(() => {
+        this.loading = undefined;
+      });
+    }
+    return this.loading;
+  }
+
+  private async readFile(): Promise<Map<string, StoredSagaExecution>> {
+    const executions = new Map<string, StoredSagaExecution>();
+    for (const record of await this.log.read()) {
+      if ('removed' in record) {
+        executions.delete(record.sagaId);
+      } else {
+        executions.set(record.sagaId, record);
+      }
+    }
+    return executions;
+  }
+
+  private append(
+    executions: Map<string, StoredSagaExecution>,
+    record: SagaStoreRecord
+  ): Promise<void> {
+    return this.log.append(record, executions.size, () => executions.values());
+  }
+}
+
+export const createInMemorySagaStore = (): SagaStore => {
+  return new InMemorySagaStore();
+};
+
+export const createFileSagaStore = (options: FileSagaStoreOptions): FileSagaStore => {
+  return new FileSagaStore(options);
+};
@@ -476,7 +476,7 @@ describe('Norwegian Government Compliance Tests', () => {
       { code: '4601', name: 'Bergen', county: 'Vestland' },
       { code: '5001', name: 'Trondheim', county: 'Trøndelag' },
       { code: '1103', name: 'Stavanger', county: 'Rogaland' },
-      { code: '1601', name: 'Tromsø', county: 'Troms og Finnmark' },
+      { code: '5501', name: 'Tromsø', county: 'Troms' },
     ];
 
     it.each(norwegianMunicipalities)(
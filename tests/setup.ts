@@ -168,7 +168,7 @@ process.env.FOUNDATION_AUDIT_REQUIRED = 'true';
         '4601': 'Bergen',
         '5001': 'Trondheim',
         '1103': 'Stavanger',
-        '1601': 'Tromsø',
+        '5501': 'Tromsø',
       }[municipalityCode] || 'Unknown',
     county:
       {
@@ -176,7 +176,7 @@ process.env.FOUNDATION_AUDIT_REQUIRED = 'true';
         '4601': 'Vestland',
         '5001': 'Trøndelag',
         '1103': 'Rogaland',
-        '1601': 'Troms og Finnmark',
+        '5501': 'Troms',
       }[municipalityCode] || 'Unknown',
   }),
 
@@ -365,36 +365,35 @@ async function installFoundation(result: MigrateResult, options: MigrateOptions)
 async function createConfiguration(result: MigrateResult, options: MigrateOptions): Promise<void> {
   const configPath = path.join(process.cwd(), 'foundation.config.json');
 
+  // Shaped like the configuration schema, so loadConfig and `foundation validate` accept it
   const config = {
     platform: options.to,
     environment: process.env.NODE_ENV || 'development',
+    language: 'nb',
     logging: {
       level: 'info',
-      enableAudit: true,
-      nsmClassification: 'ÅPEN',
+      auditEnabled: true,
     },
     compliance: {
-      nsm: {
-        enabled: true,
-        defaultClassification: 'ÅPEN',
-        encryptionRequired: false,
-      },
-      gdpr: {
-        enabled: true,
-        consentRequired: true,
-        dataRetention: 'P7Y',
-        auditTrail: true,
-      },
-      digdir: {
-        enabled: false,
-        idPortenEnabled: false,
-        maskinportenEnabled: false,
-      },
+      nsmClassification: 'ÅPEN',
+      gdprEnabled: true,
+      auditRequired: true,
+      retentionPeriod: 'P7Y',
+      norwegian: true,
+      nsm: true,
+      gdpr: true,
+      encryption: false,
+    },
+    security: {
+      auditTrail: { enabled: true, retentionPeriod: 'P7Y' },
+    },
+    norwegian: {
+      digdirIntegration: false,
+      idPortenReady: false,
     },
-    localization: {
+    i18n: {
       defaultLanguage: 'nb',
       supportedLanguages: ['nb', 'nn', 'en'],
-      municipalityCode: null,
     },
     features: {
       metrics: true,
@@ -59,9 +59,9 @@ export async function setupFoundation(options: SetupOptions): Promise<void> {
       },
     },
     security: {
-      encryption: compliance !== 'ÅPEN',
-      auditTrail: true,
-      accessControl: compliance !== 'ÅPEN',
+      encryption: { algorithm: 'AES-256-GCM', keyRotationEnabled: true },
+      accessControl: { enabled: compliance !== 'ÅPEN', rbacEnabled: true },
+      auditTrail: { enabled: true, retentionPeriod: 'P7Y' },
     },
     norwegian: {
       municipality,
@@ -5,7 +5,9 @@ import { complianceChecker } from '../compliance/index.js';
 import { validateConfiguration } from '../validators/config-validator.js';
 import { analyzeFoundation } from './commands/analyze.js';
 import { auditFoundation } from './commands/audit.js';
+import { decryptValue, encryptValue, readStdin, rotateConfigFiles } from './commands/config.js';
 import { migrateFoundation } from './commands/migrate.js';
+import { renderSagaDiagrams } from './commands/saga.js';
 import { setupFoundation } from './commands/setup.js';
 import { packageInfo } from './package-info.js';
 
@@ -201,6 +203,101 @@ program
     }
   });
 
+// Saga command - Render and validate saga definitions
+program
+  .command('saga <module>')
+  .description('Render saga definitions exported by a module as diagrams')
+  .option('-f, --format <format>', 'Diagram format (mermaid, dot)', 'mermaid')
+  .option('-n, --name <saga>', 'Only render the saga with this name')
+  .option('-o, --output <directory>', 'Write one diagram file per saga to a directory')
+  .action(async (modulePath, options) => {
+    try {
+      logger.info('Rendering saga diagrams', { modulePath, options });
+      const result = await renderSagaDiagrams(modulePath, options);
+
+      if (!options.output) {
+        result.diagrams.forEach(({ diagram }) => console.log(`${diagram}\n`));
+      }
+
+      result.issues.forEach(issue =>
+        console.error(`${issue.severity === 'error' ? '❌' : '⚠️'} ${issue.saga}: ${issue.message}`)
+      );
+      if (result.issues.some(issue => issue.severity === 'error')) {
+        process.exit(1);
+      }
+    } catch (error) {
+      logger.error(
+        'Saga rendering error',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      process.exit(1);
+    }
+  });
+
+// Config command - Encrypted configuration values
+const configCommand = program
+  .command('config')
+  .description('Encrypt configuration values and rotate the configuration key');
+
+configCommand
+  .command('encrypt [value]')
+  .description('Encrypt a value as an enc: configuration value (reads stdin without a value)')
+  .option('-k, --key <key>', 'Base64 encryption key (defaults to FOUNDATION_CONFIG_KEY)')
+  .action(async (value, options) => {
+    try {
+      console.log(encryptValue(value ?? (await readStdin()), options));
+    } catch (error) {
+      logger.error(
+        'Configuration encryption error',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      process.exit(1);
+    }
+  });
+
+configCommand
+  .command('decrypt [value]')
+  .description('Decrypt an enc: configuration value (reads stdin without a value)')
+  .option('-k, --key <key>', 'Base64 decryption key (defaults to the configured keys)')
+  .action(async (value, options) => {
+    try {
+      console.log(decryptValue(value ?? (await readStdin()), options));
+    } catch (error) {
+      logger.error(
+        'Configuration decryption error',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      process.exit(1);
+    }
+  });
+
+configCommand
+  .command('rotate <files...>')
+  .description('Re-encrypt every enc: value in configuration files with a new key')
+  .option('-k, --key <key>', 'Current base64 key (defaults to the configured keys)')
+  .option('-n, --new-key <key>', 'New base64 key (generated when omitted)')
+  .option('-d, --dry-run', 'Count the values that would be rotated without writing files')
+  .action(async (files, options) => {
+    try {
+      const result = await rotateConfigFiles(files, options);
+
+      console.log(`🔑 ${options.dryRun ? 'Rotation plan' : 'Configuration key rotated'}`);
+      result.files.forEach(({ file, rotated }) => console.log(`   ${file}: ${rotated} values`));
+      if (result.generated) {
+        console.log(`   New key: ${result.newKey}`);
+      }
+      console.log(
+        '   Set FOUNDATION_CONFIG_KEY to the new key and FOUNDATION_CONFIG_PREVIOUS_KEYS to the old one until every service has reloaded'
+      );
+    } catch (error) {
+      logger.error(
+        'Configuration key rotation error',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      process.exit(1);
+    }
+  });
+
 // Global error handler
 process.on('unhandledRejection', (reason, promise) => {
   logger.error('Unhandled promise rejection', new Error(String(reason)), { promise });
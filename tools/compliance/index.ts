@@ -1,4 +1,5 @@
 import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { isMunicipalityCode } from '../../src/config-loader/index.js';
 import type { FoundationConfig } from '../../src/config-loader/index.js';
 import { createLogger } from '../../src/logger/index.js';
 
@@ -37,19 +38,6 @@ interface ProjectConfig {
 }
 
 class ComplianceChecker {
-  private norwegianMunicipalities = new Set([
-    '0301',
-    '0219',
-    '4601',
-    '5001',
-    '1103',
-    '1601',
-    '1504',
-    '1902',
-    '1506',
-    '1804',
-  ]);
-
   private nsmClassifications = new Set(['ÅPEN', 'BEGRENSET', 'KONFIDENSIELT', 'HEMMELIG']);
 
   async check(options: ComplianceOptions = {}): Promise<ComplianceResult> {
@@ -318,10 +306,7 @@ class ComplianceChecker {
     }
 
     // Check municipality code
-    if (
-      foundationConfig.municipality &&
-      !this.norwegianMunicipalities.has(foundationConfig.municipality)
-    ) {
+    if (foundationConfig.municipality && !isMunicipalityCode(foundationConfig.municipality)) {
       result.issues.push({
         type: 'digdir',
         severity: 'low',